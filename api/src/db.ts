@@ -0,0 +1,424 @@
+import Database from "better-sqlite3";
+import fs from "fs";
+import path from "path";
+
+// Use DB_PATH=":memory:" for throwaway runs
+const DB_PATH = process.env.DB_PATH || "data/fawv.db";
+
+if (DB_PATH !== ":memory:") fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+
+const db = new Database(DB_PATH);
+db.pragma("journal_mode = WAL");
+db.pragma("foreign_keys = ON");
+
+// Append-only: each entry runs once, in order, and PRAGMA user_version records progress.
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE upload_sessions (
+    id          TEXT PRIMARY KEY,
+    status      TEXT NOT NULL DEFAULT 'open',
+    created_at  TEXT NOT NULL,
+    updated_at  TEXT NOT NULL
+  );
+  CREATE TABLE upload_files (
+    id            INTEGER PRIMARY KEY AUTOINCREMENT,
+    session_id    TEXT NOT NULL REFERENCES upload_sessions(id) ON DELETE CASCADE,
+    rel_path      TEXT NOT NULL,
+    object_key    TEXT NOT NULL UNIQUE,
+    size          INTEGER NOT NULL,
+    content_type  TEXT NOT NULL,
+    state         TEXT NOT NULL DEFAULT 'presigned',
+    upload_id     TEXT,
+    presigned_at  TEXT NOT NULL,
+    uploaded_at   TEXT,
+    UNIQUE (session_id, rel_path)
+  );
+  `,
+  `
+  ALTER TABLE upload_files ADD COLUMN sha256 TEXT;
+  ALTER TABLE upload_files ADD COLUMN verified_at TEXT;
+  ALTER TABLE upload_sessions ADD COLUMN sealed_at TEXT;
+  `,
+  `
+  ALTER TABLE upload_sessions ADD COLUMN merkle_root TEXT;
+  `,
+  `
+  CREATE TABLE users (
+    id            TEXT PRIMARY KEY,
+    email         TEXT NOT NULL UNIQUE,
+    password_hash TEXT NOT NULL,
+    display_name  TEXT,
+    created_at    TEXT NOT NULL
+  );
+
+  -- only a hash of the cookie token is stored, so a leaked table can't be replayed
+  CREATE TABLE auth_sessions (
+    token_hash  TEXT PRIMARY KEY,
+    user_id     TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    created_at  TEXT NOT NULL,
+    expires_at  TEXT NOT NULL
+  );
+  CREATE INDEX auth_sessions_user ON auth_sessions(user_id);
+
+  ALTER TABLE upload_sessions ADD COLUMN owner_id TEXT REFERENCES users(id);
+  `,
+  `
+  -- one vault per sealed upload session; files and archive hash live with the session
+  CREATE TABLE vaults (
+    id             TEXT PRIMARY KEY,
+    owner_id       TEXT NOT NULL REFERENCES users(id),
+    session_id     TEXT NOT NULL UNIQUE REFERENCES upload_sessions(id),
+    name           TEXT NOT NULL,
+    product        TEXT NOT NULL,
+    escrow_years   INTEGER,
+    visibility     TEXT,
+    manifest_text  TEXT,
+    price_json     TEXT,
+    endowment_json TEXT,
+    token_json     TEXT,
+    status         TEXT NOT NULL DEFAULT 'draft',
+    created_at     TEXT NOT NULL,
+    updated_at     TEXT NOT NULL,
+    minted_at      TEXT
+  );
+  CREATE INDEX vaults_owner ON vaults(owner_id, created_at);
+  `,
+  `
+  -- lifecycle of minted vaults; NULL while a vault is still a draft
+  ALTER TABLE vaults ADD COLUMN lifecycle_state TEXT;
+  ALTER TABLE vaults ADD COLUMN lifecycle_since TEXT;
+  ALTER TABLE vaults ADD COLUMN last_attested_at TEXT;
+
+  CREATE TABLE lifecycle_events (
+    id          INTEGER PRIMARY KEY AUTOINCREMENT,
+    vault_id    TEXT NOT NULL REFERENCES vaults(id) ON DELETE CASCADE,
+    from_state  TEXT,
+    to_state    TEXT NOT NULL,
+    at          TEXT NOT NULL,   -- when the transition took effect, not when it was noticed
+    recorded_at TEXT NOT NULL
+  );
+  CREATE INDEX lifecycle_events_vault ON lifecycle_events(vault_id, id);
+  `,
+  `
+  -- owner check-ins; kept forever as the audit trail behind last_attested_at
+  ALTER TABLE vaults ADD COLUMN heartbeat_months INTEGER NOT NULL DEFAULT 12;
+
+  CREATE TABLE heartbeats (
+    id                INTEGER PRIMARY KEY AUTOINCREMENT,
+    vault_id          TEXT NOT NULL REFERENCES vaults(id) ON DELETE CASCADE,
+    user_id           TEXT NOT NULL REFERENCES users(id),
+    at                TEXT NOT NULL,
+    state_before      TEXT NOT NULL,
+    next_heartbeat_at TEXT             -- NULL for Heirloom, which needs none
+  );
+  CREATE INDEX heartbeats_vault ON heartbeats(vault_id, id);
+  `,
+  `
+  -- heirs the owner invited, and the claims they can make once the vault is orphaned
+  ALTER TABLE vaults ADD COLUMN claim_waiting_days INTEGER NOT NULL DEFAULT 30;
+  ALTER TABLE vaults ADD COLUMN custodial_stewardship INTEGER NOT NULL DEFAULT 0;
+
+  CREATE TABLE heirs (
+    id                TEXT PRIMARY KEY,
+    vault_id          TEXT NOT NULL REFERENCES vaults(id) ON DELETE CASCADE,
+    email             TEXT NOT NULL,
+    name              TEXT NOT NULL,
+    status            TEXT NOT NULL DEFAULT 'invited',
+    invite_token_hash TEXT NOT NULL UNIQUE,
+    user_id           TEXT REFERENCES users(id),  -- the account that proved the address
+    invited_at        TEXT NOT NULL,
+    verified_at       TEXT,
+    UNIQUE (vault_id, email)
+  );
+
+  CREATE TABLE claims (
+    id                   TEXT PRIMARY KEY,
+    vault_id             TEXT NOT NULL REFERENCES vaults(id) ON DELETE CASCADE,
+    heir_id              TEXT NOT NULL REFERENCES heirs(id) ON DELETE CASCADE,
+    status               TEXT NOT NULL,
+    challenge_hash       TEXT,
+    challenge_expires_at TEXT,
+    challenge_attempts   INTEGER NOT NULL DEFAULT 0,
+    waiting_until        TEXT,
+    created_at           TEXT NOT NULL,
+    updated_at           TEXT NOT NULL,
+    resolved_at          TEXT
+  );
+  CREATE INDEX claims_vault ON claims(vault_id, created_at);
+
+  CREATE TABLE claim_events (
+    id       INTEGER PRIMARY KEY AUTOINCREMENT,
+    claim_id TEXT NOT NULL REFERENCES claims(id) ON DELETE CASCADE,
+    at       TEXT NOT NULL,
+    actor    TEXT NOT NULL,   -- heir | owner | system
+    actor_id TEXT,
+    event    TEXT NOT NULL,
+    detail   TEXT
+  );
+  CREATE INDEX claim_events_claim ON claim_events(claim_id, id);
+
+  -- read access to a vault's files for someone other than its owner
+  CREATE TABLE access_grants (
+    id         INTEGER PRIMARY KEY AUTOINCREMENT,
+    vault_id   TEXT NOT NULL REFERENCES vaults(id) ON DELETE CASCADE,
+    user_id    TEXT NOT NULL REFERENCES users(id),
+    reason     TEXT NOT NULL,   -- what granted it, e.g. claim
+    source_id  TEXT NOT NULL,   -- id of that claim
+    granted_at TEXT NOT NULL
+  );
+  CREATE INDEX access_grants_user ON access_grants(user_id, vault_id);
+  `,
+  `
+  -- early access for designated heirs while the owner is still around, e.g. a medical emergency
+  ALTER TABLE vaults ADD COLUMN emergency_veto_days INTEGER NOT NULL DEFAULT 7;
+  ALTER TABLE heirs ADD COLUMN emergency_access INTEGER NOT NULL DEFAULT 0;
+
+  CREATE TABLE emergency_requests (
+    id          TEXT PRIMARY KEY,
+    vault_id    TEXT NOT NULL REFERENCES vaults(id) ON DELETE CASCADE,
+    heir_id     TEXT NOT NULL REFERENCES heirs(id) ON DELETE CASCADE,
+    reason      TEXT NOT NULL,
+    status      TEXT NOT NULL DEFAULT 'pending',
+    veto_until  TEXT NOT NULL,   -- granted automatically from here unless the owner acts
+    note        TEXT,            -- the owner's, when denying or revoking
+    created_at  TEXT NOT NULL,
+    resolved_at TEXT,
+    resolved_by TEXT             -- owner | system | heir
+  );
+  CREATE INDEX emergency_requests_vault ON emergency_requests(vault_id, created_at);
+  CREATE INDEX emergency_requests_pending ON emergency_requests(status, veto_until);
+  `,
+  `
+  -- outbound notices; each is rendered once and delivered per channel with retries
+  CREATE TABLE notifications (
+    id         TEXT PRIMARY KEY,
+    user_id    TEXT REFERENCES users(id),   -- null for an address with no account yet (heir invitations)
+    template   TEXT NOT NULL,
+    category   TEXT NOT NULL,
+    subject    TEXT NOT NULL,
+    body       TEXT NOT NULL,               -- emptied once delivered when it carries a secret
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX notifications_user ON notifications(user_id, created_at);
+
+  CREATE TABLE notification_deliveries (
+    id              INTEGER PRIMARY KEY AUTOINCREMENT,
+    notification_id TEXT NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+    channel         TEXT NOT NULL,            -- email | webhook
+    address         TEXT NOT NULL,            -- email address or webhook URL
+    status          TEXT NOT NULL DEFAULT 'pending',
+    attempts        INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TEXT NOT NULL,            -- also pushed ahead while a worker holds it
+    last_error      TEXT,
+    sent_at         TEXT
+  );
+  CREATE INDEX notification_deliveries_due ON notification_deliveries(status, next_attempt_at);
+
+  CREATE TABLE notification_preferences (
+    user_id     TEXT PRIMARY KEY REFERENCES users(id),
+    email       INTEGER NOT NULL DEFAULT 1,
+    webhook_url TEXT,
+    muted       TEXT NOT NULL DEFAULT '[]',   -- JSON array of categories
+    updated_at  TEXT NOT NULL
+  );
+  `,
+  `
+  -- JSON EncryptionParams when the client encrypted the session's files; null when stored as uploaded
+  ALTER TABLE upload_sessions ADD COLUMN encryption TEXT;
+  `,
+  `
+  -- published X25519 keys, one per user; vault owners wrap data keys for them
+  CREATE TABLE user_keys (
+    user_id    TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+    public_key TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  `,
+  `
+  -- "dual" vaults keep a second copy of every object on the mirror backend (MIRROR_STORAGE_DRIVER)
+  ALTER TABLE vaults ADD COLUMN redundancy TEXT NOT NULL DEFAULT 'single';
+  -- one row per object of a dual vault; verified once both copies hashed to upload_files.sha256
+  CREATE TABLE replicas (
+    file_id         INTEGER PRIMARY KEY REFERENCES upload_files(id) ON DELETE CASCADE,
+    status          TEXT NOT NULL DEFAULT 'pending',  -- pending | verified | failed
+    attempts        INTEGER NOT NULL DEFAULT 0,
+    next_attempt_at TEXT NOT NULL,
+    last_error      TEXT,
+    verified_at     TEXT,
+    updated_at      TEXT NOT NULL
+  );
+  CREATE INDEX replicas_due ON replicas (status, next_attempt_at);
+  `,
+  `
+  -- when the fixity scrubber last re-hashed the object; the least recently checked go first
+  ALTER TABLE upload_files ADD COLUMN fixity_checked_at TEXT;
+  -- PREMIS-style preservation event log, append-only
+  CREATE TABLE preservation_events (
+    id          TEXT PRIMARY KEY,
+    file_id     INTEGER NOT NULL REFERENCES upload_files(id) ON DELETE CASCADE,
+    event_type  TEXT NOT NULL,  -- fixity check | replication | repair
+    copy        TEXT NOT NULL,  -- primary | mirror
+    outcome     TEXT NOT NULL,  -- pass | fail
+    detail      TEXT,
+    agent       TEXT NOT NULL,
+    at          TEXT NOT NULL
+  );
+  CREATE INDEX preservation_events_file ON preservation_events (file_id, at);
+  `,
+  `
+  -- server-priced offers for a sealed session; signature is an HMAC over the row (lib/quotes)
+  CREATE TABLE quotes (
+    id           TEXT PRIMARY KEY,
+    user_id      TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    session_id   TEXT NOT NULL REFERENCES upload_sessions(id) ON DELETE CASCADE,
+    price_book   TEXT NOT NULL,
+    product      TEXT NOT NULL,
+    escrow_years INTEGER,
+    redundancy   TEXT NOT NULL,
+    bytes        INTEGER NOT NULL,
+    price_json   TEXT NOT NULL,
+    created_at   TEXT NOT NULL,
+    expires_at   TEXT NOT NULL,
+    signature    TEXT NOT NULL
+  );
+  -- the quote the vault was checked out with; its price is copied into price_json
+  ALTER TABLE vaults ADD COLUMN quote_id TEXT REFERENCES quotes(id);
+  `,
+  `
+  -- every USD->ETH conversion the server locked for an endowment, with the rate's provenance
+  CREATE TABLE rate_locks (
+    id          TEXT PRIMARY KEY,
+    user_id     TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    usd         REAL NOT NULL,
+    eth         REAL NOT NULL,
+    usd_per_eth REAL NOT NULL,
+    source      TEXT NOT NULL,
+    as_of       TEXT NOT NULL,
+    locked_at   TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE ledger_entries (
+    id            TEXT PRIMARY KEY,
+    vault_id      TEXT NOT NULL REFERENCES vaults(id) ON DELETE CASCADE,
+    kind          TEXT NOT NULL,
+    period        INTEGER,
+    memo          TEXT NOT NULL,
+    rate_lock_id  TEXT REFERENCES rate_locks(id),
+    effective_at  TEXT NOT NULL,
+    recorded_at   TEXT NOT NULL
+  );
+  CREATE INDEX ledger_entries_vault ON ledger_entries (vault_id, effective_at);
+  CREATE UNIQUE INDEX ledger_entries_opening ON ledger_entries (vault_id) WHERE kind = 'endowment';
+  CREATE UNIQUE INDEX ledger_entries_period ON ledger_entries (vault_id, kind, period) WHERE period IS NOT NULL;
+  CREATE TABLE ledger_postings (
+    id            INTEGER PRIMARY KEY AUTOINCREMENT,
+    entry_id      TEXT NOT NULL REFERENCES ledger_entries(id) ON DELETE CASCADE,
+    account       TEXT NOT NULL,
+    amount_cents  INTEGER NOT NULL
+  );
+  CREATE INDEX ledger_postings_entry ON ledger_postings (entry_id);
+  ALTER TABLE vaults ADD COLUMN ledger_period INTEGER;
+  ALTER TABLE vaults ADD COLUMN endowment_exhausted_at TEXT;
+  `,
+  `
+  CREATE TABLE payments (
+    id              TEXT PRIMARY KEY,
+    user_id         TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    quote_id        TEXT NOT NULL REFERENCES quotes(id),
+    provider        TEXT NOT NULL,
+    provider_ref    TEXT,
+    amount_cents    INTEGER NOT NULL,
+    currency        TEXT NOT NULL DEFAULT 'USD',
+    status          TEXT NOT NULL,
+    failure_reason  TEXT,
+    refund_ref      TEXT,
+    created_at      TEXT NOT NULL,
+    captured_at     TEXT,
+    refunded_at     TEXT,
+    updated_at      TEXT NOT NULL
+  );
+  -- at most one live payment per quote, so a retried checkout can't authorize twice
+  CREATE UNIQUE INDEX payments_live ON payments (quote_id) WHERE status IN ('requires_capture', 'captured');
+  CREATE TABLE receipts (
+    id            INTEGER PRIMARY KEY AUTOINCREMENT,
+    payment_id    TEXT NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+    kind          TEXT NOT NULL,
+    amount_cents  INTEGER NOT NULL,
+    lines_json    TEXT NOT NULL,
+    issued_at     TEXT NOT NULL,
+    UNIQUE (payment_id, kind)
+  );
+  `,
+  `
+  -- payments also buy endowment top-ups, which have no quote: rebuilt so quote_id may be null
+  -- (receipts is rebuilt alongside, since dropping payments would cascade into it)
+  CREATE TABLE payments_next (
+    id              TEXT PRIMARY KEY,
+    user_id         TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    purpose         TEXT NOT NULL DEFAULT 'checkout',  -- checkout | top_up
+    quote_id        TEXT REFERENCES quotes(id),        -- checkout
+    vault_id        TEXT REFERENCES vaults(id),        -- top_up
+    endowment_json  TEXT,                              -- the endowment charged, at its locked rate
+    provider        TEXT NOT NULL,
+    provider_ref    TEXT,
+    amount_cents    INTEGER NOT NULL,
+    currency        TEXT NOT NULL DEFAULT 'USD',
+    status          TEXT NOT NULL,
+    failure_reason  TEXT,
+    refund_ref      TEXT,
+    created_at      TEXT NOT NULL,
+    captured_at     TEXT,
+    refunded_at     TEXT,
+    updated_at      TEXT NOT NULL
+  );
+  INSERT INTO payments_next (id, user_id, quote_id, provider, provider_ref, amount_cents, currency, status,
+    failure_reason, refund_ref, created_at, captured_at, refunded_at, updated_at)
+  SELECT id, user_id, quote_id, provider, provider_ref, amount_cents, currency, status,
+    failure_reason, refund_ref, created_at, captured_at, refunded_at, updated_at
+  FROM payments;
+  CREATE TABLE receipts_next (
+    id            INTEGER PRIMARY KEY AUTOINCREMENT,
+    payment_id    TEXT NOT NULL REFERENCES payments_next(id) ON DELETE CASCADE,
+    kind          TEXT NOT NULL,
+    amount_cents  INTEGER NOT NULL,
+    lines_json    TEXT NOT NULL,
+    issued_at     TEXT NOT NULL,
+    UNIQUE (payment_id, kind)
+  );
+  INSERT INTO receipts_next SELECT * FROM receipts;
+  DROP TABLE receipts;
+  DROP TABLE payments;
+  ALTER TABLE payments_next RENAME TO payments;
+  ALTER TABLE receipts_next RENAME TO receipts;
+  CREATE UNIQUE INDEX payments_live ON payments (quote_id) WHERE status IN ('requires_capture', 'captured');
+  CREATE INDEX payments_vault ON payments (vault_id);
+  `,
+  `
+  -- a payment is claimed for each provider call, so concurrent requests can't repeat one
+  ALTER TABLE payments ADD COLUMN idempotency_key TEXT;   -- sent with every call for this payment
+  ALTER TABLE payments ADD COLUMN operation TEXT;         -- authorize | capture | refund, while in flight
+  ALTER TABLE payments ADD COLUMN operation_at TEXT;
+  UPDATE payments SET idempotency_key = id;
+  DROP INDEX payments_live;
+  CREATE UNIQUE INDEX payments_live ON payments (quote_id) WHERE status IN ('processing', 'requires_capture', 'captured');
+  `,
+  `
+  -- a top-up that pays off unpaid storage restores a vault its exhausted endowment lapsed
+  ALTER TABLE vaults ADD COLUMN endowment_restored_at TEXT;
+  `,
+];
+
+function migrate() {
+  const current = db.pragma("user_version", { simple: true }) as number;
+  for (let v = current; v < MIGRATIONS.length; v++) {
+    db.transaction(() => {
+      db.exec(MIGRATIONS[v]);
+      db.pragma(`user_version = ${v + 1}`);
+    })();
+  }
+}
+
+migrate();
+
+export default db;
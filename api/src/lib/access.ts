@@ -0,0 +1,32 @@
+import db from "../db";
+import { getSession, type UploadSession } from "./sessions";
+import { getVaultBySession } from "./vaults";
+
+export type GrantReason = "claim" | "emergency";
+
+export function grantAccess(vaultId: string, userId: string, reason: GrantReason, sourceId: string, at: string) {
+  db.prepare(
+    "INSERT INTO access_grants (vault_id, user_id, reason, source_id, granted_at) VALUES (?, ?, ?, ?, ?)"
+  ).run(vaultId, userId, reason, sourceId, at);
+}
+
+/** Withdraws whatever the given claim or request granted. */
+export function revokeGrant(sourceId: string) {
+  db.prepare("DELETE FROM access_grants WHERE source_id = ?").run(sourceId);
+}
+
+export function hasGrant(vaultId: string, userId: string): boolean {
+  return !!db.prepare("SELECT 1 FROM access_grants WHERE vault_id = ? AND user_id = ?").get(vaultId, userId);
+}
+
+/**
+ * A session whose files the user may read: their own, or one behind a vault
+ * they were granted access to. Missing and forbidden sessions look the same.
+ */
+export function getReadableSession(sessionId: string, userId: string): UploadSession | null {
+  const session = getSession(sessionId);
+  if (!session) return null;
+  if (session.ownerId === userId) return session;
+  const vault = getVaultBySession(session.id);
+  return vault && hasGrant(vault.id, userId) ? session : null;
+}
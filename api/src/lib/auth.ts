@@ -0,0 +1,131 @@
+import crypto from "crypto";
+import { promisify } from "util";
+import db from "../db";
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+// N=2^15, r=8 needs 32 MiB, just over Node's default maxmem
+const SCRYPT = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+const KEY_LEN = 64;
+
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export type User = {
+  id: string;
+  email: string;
+  displayName: string | null;
+  createdAt: string;
+};
+
+type UserRow = {
+  id: string;
+  email: string;
+  password_hash: string;
+  display_name: string | null;
+  created_at: string;
+};
+
+function toUser(r: UserRow): User {
+  return { id: r.id, email: r.email, displayName: r.display_name, createdAt: r.created_at };
+}
+
+// ---- passwords ----
+
+// Stored as scrypt$N$r$p$salt$hash so parameters can be raised without breaking old hashes
+export async function hashPassword(password: string) {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, KEY_LEN, SCRYPT);
+  return ["scrypt", SCRYPT.N, SCRYPT.r, SCRYPT.p, salt.toString("base64"), hash.toString("base64")].join("$");
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [alg, n, r, p, salt, hash] = stored.split("$");
+  if (alg !== "scrypt") return false;
+  const expected = Buffer.from(hash, "base64");
+  const got = await scrypt(password, Buffer.from(salt, "base64"), expected.length, {
+    N: Number(n),
+    r: Number(r),
+    p: Number(p),
+    maxmem: SCRYPT.maxmem,
+  });
+  return crypto.timingSafeEqual(got, expected);
+}
+
+// Compared against when the email is unknown, so both paths cost one scrypt
+const dummyHash = hashPassword(crypto.randomBytes(16).toString("hex"));
+
+// ---- users ----
+
+export function getUser(id: string): User | null {
+  const row = db.prepare("SELECT * FROM users WHERE id = ?").get(id) as UserRow | undefined;
+  return row ? toUser(row) : null;
+}
+
+export function findUserByEmail(email: string): User | null {
+  const row = db.prepare("SELECT * FROM users WHERE email = ?").get(email) as UserRow | undefined;
+  return row ? toUser(row) : null;
+}
+
+/** Null when the email is already registered. */
+export async function createUser(u: { email: string; password: string; displayName?: string }): Promise<User | null> {
+  const passwordHash = await hashPassword(u.password);
+  const id = crypto.randomUUID();
+  const res = db
+    .prepare(
+      `INSERT INTO users (id, email, password_hash, display_name, created_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(email) DO NOTHING`
+    )
+    .run(id, u.email, passwordHash, u.displayName ?? null, new Date().toISOString());
+  return res.changes ? getUser(id) : null;
+}
+
+/** The user for these credentials, or null; takes the same time either way. */
+export async function authenticate(email: string, password: string): Promise<User | null> {
+  const row = db.prepare("SELECT * FROM users WHERE email = ?").get(email) as UserRow | undefined;
+  const ok = await verifyPassword(password, row?.password_hash ?? (await dummyHash));
+  return row && ok ? toUser(row) : null;
+}
+
+// ---- login sessions ----
+
+// Also used for other bearer secrets (heir invitations, claim codes): only the hash is stored
+export function tokenHash(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/** Starts a login session; the returned token goes in the cookie and is never stored. */
+export function createAuthSession(userId: string) {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const now = Date.now();
+  const expiresAt = new Date(now + SESSION_TTL_MS);
+  db.prepare("INSERT INTO auth_sessions (token_hash, user_id, created_at, expires_at) VALUES (?, ?, ?, ?)").run(
+    tokenHash(token),
+    userId,
+    new Date(now).toISOString(),
+    expiresAt.toISOString()
+  );
+  return { token, expiresAt };
+}
+
+export function userForToken(token: string): User | null {
+  const row = db
+    .prepare(
+      `SELECT u.* FROM auth_sessions s JOIN users u ON u.id = s.user_id
+       WHERE s.token_hash = ? AND s.expires_at > ?`
+    )
+    .get(tokenHash(token), new Date().toISOString()) as UserRow | undefined;
+  return row ? toUser(row) : null;
+}
+
+export function deleteAuthSession(token: string) {
+  db.prepare("DELETE FROM auth_sessions WHERE token_hash = ?").run(tokenHash(token));
+}
+
+export function purgeExpiredAuthSessions() {
+  db.prepare("DELETE FROM auth_sessions WHERE expires_at <= ?").run(new Date().toISOString());
+}
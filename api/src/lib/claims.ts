@@ -0,0 +1,231 @@
+import crypto from "crypto";
+import type { Claim, ClaimEvent, ClaimResolution, ClaimStatus } from "@fawv/shared";
+import db from "../db";
+import { grantAccess } from "./access";
+import { tokenHash } from "./auth";
+import type { HeirParty } from "./heirs";
+import { systemClock, type Clock } from "./lifecycle";
+import { endLifecycle, type Vault } from "./vaults";
+
+export const CHALLENGE_TTL_MS = 15 * 60 * 1000;
+export const MAX_CHALLENGE_ATTEMPTS = 5; // wrong answers over the whole claim, whatever code they were for
+export const MAX_CHALLENGES = 3; // codes sent for one claim, the first included
+export const CLAIM_COOLDOWN_DAYS = 7; // before an heir whose claim failed its challenge may open another
+
+const OPEN: ClaimStatus[] = ["challenge_sent", "waiting"];
+
+type ClaimActor = ClaimEvent["actor"];
+
+type ClaimRow = {
+  id: string;
+  vault_id: string;
+  heir_id: string;
+  status: ClaimStatus;
+  challenge_hash: string | null;
+  challenge_expires_at: string | null;
+  challenge_attempts: number;
+  waiting_until: string | null;
+  created_at: string;
+  updated_at: string;
+  resolved_at: string | null;
+};
+
+function toClaim(r: ClaimRow): Claim {
+  return {
+    id: r.id,
+    vaultId: r.vault_id,
+    heirId: r.heir_id,
+    status: r.status,
+    waitingUntil: r.waiting_until,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+    resolvedAt: r.resolved_at,
+  };
+}
+
+function getRow(id: string) {
+  return db.prepare("SELECT * FROM claims WHERE id = ?").get(id) as ClaimRow | undefined;
+}
+
+export function getClaim(id: string): Claim | null {
+  const row = getRow(id);
+  return row ? toClaim(row) : null;
+}
+
+export function isOpen(claim: Claim) {
+  return OPEN.includes(claim.status);
+}
+
+export function listClaims(vaultId: string): Claim[] {
+  const rows = db.prepare("SELECT * FROM claims WHERE vault_id = ? ORDER BY created_at DESC").all(vaultId) as ClaimRow[];
+  return rows.map(toClaim);
+}
+
+export function latestClaimOf(heirId: string): Claim | null {
+  const row = db
+    .prepare("SELECT * FROM claims WHERE heir_id = ? ORDER BY created_at DESC LIMIT 1")
+    .get(heirId) as ClaimRow | undefined;
+  return row ? toClaim(row) : null;
+}
+
+function logEvent(claimId: string, at: string, actor: ClaimActor, actorId: string | null, event: string, detail?: string) {
+  db.prepare("INSERT INTO claim_events (claim_id, at, actor, actor_id, event, detail) VALUES (?, ?, ?, ?, ?, ?)").run(
+    claimId,
+    at,
+    actor,
+    actorId,
+    event,
+    detail ?? null
+  );
+}
+
+export function listClaimEvents(claimId: string): ClaimEvent[] {
+  return db
+    .prepare("SELECT at, actor, event, detail FROM claim_events WHERE claim_id = ? ORDER BY id")
+    .all(claimId) as ClaimEvent[];
+}
+
+function setStatus(claimId: string, status: ClaimStatus, at: string, resolved = false) {
+  db.prepare(
+    "UPDATE claims SET status = ?, updated_at = ?, resolved_at = CASE WHEN ? THEN ? ELSE resolved_at END WHERE id = ?"
+  ).run(status, at, resolved ? 1 : 0, at, claimId);
+}
+
+// A new code keeps the claim's count of wrong answers, so reissuing doesn't buy more guesses
+function newChallenge(claimId: string, now: Date) {
+  const code = String(crypto.randomInt(0, 1_000_000)).padStart(6, "0");
+  db.prepare("UPDATE claims SET challenge_hash = ?, challenge_expires_at = ?, updated_at = ? WHERE id = ?").run(
+    tokenHash(code),
+    new Date(now.getTime() + CHALLENGE_TTL_MS).toISOString(),
+    now.toISOString(),
+    claimId
+  );
+  logEvent(claimId, now.toISOString(), "system", null, "challenge_sent");
+  return code;
+}
+
+/** Opens a claim for a verified heir and returns the challenge code to send to their address. */
+export function startClaim(vault: Vault, heir: HeirParty, clock: Clock = systemClock): { claim: Claim; code: string } {
+  const now = clock.now();
+  const id = crypto.randomUUID();
+  return db.transaction(() => {
+    db.prepare(
+      "INSERT INTO claims (id, vault_id, heir_id, status, created_at, updated_at) VALUES (?, ?, ?, 'challenge_sent', ?, ?)"
+    ).run(id, vault.id, heir.id, now.toISOString(), now.toISOString());
+    logEvent(id, now.toISOString(), "heir", heir.userId, "opened");
+    const code = newChallenge(id, now);
+    return { claim: getClaim(id)!, code };
+  })();
+}
+
+function challengesSent(claimId: string): number {
+  const row = db
+    .prepare("SELECT COUNT(*) AS n FROM claim_events WHERE claim_id = ? AND event = 'challenge_sent'")
+    .get(claimId) as { n: number };
+  return row.n;
+}
+
+/**
+ * A fresh code for a claim still at the challenge step, or null once
+ * MAX_CHALLENGES have been sent: asking for more rejects the claim.
+ */
+export function reissueChallenge(claim: Claim, clock: Clock = systemClock): string | null {
+  const now = clock.now();
+  return db.transaction(() => {
+    if (challengesSent(claim.id) < MAX_CHALLENGES) return newChallenge(claim.id, now);
+    setStatus(claim.id, "rejected", now.toISOString(), true);
+    logEvent(claim.id, now.toISOString(), "system", null, "rejected", "too many challenge codes requested");
+    return null;
+  })();
+}
+
+/**
+ * When the heir may open another claim after this one, if it ended in a way
+ * that has to be waited out: rejected, or cancelled by the heir after a wrong
+ * answer. Null if they may right away.
+ */
+export function reopensAt(claim: Claim): Date | null {
+  const row = getRow(claim.id)!;
+  const failed =
+    claim.status === "rejected" ||
+    (claim.status === "cancelled" && row.challenge_attempts > 0 && row.challenge_hash !== null);
+  if (!failed || !claim.resolvedAt) return null;
+  return new Date(new Date(claim.resolvedAt).getTime() + CLAIM_COOLDOWN_DAYS * 24 * 60 * 60 * 1000);
+}
+
+export type ChallengeResult = "passed" | "invalid" | "expired" | "rejected";
+
+/**
+ * Checks the heir's answer. A correct code starts the waiting period; too many
+ * wrong answers reject the claim outright.
+ */
+export function answerChallenge(
+  claim: Claim,
+  code: string,
+  vault: Vault,
+  actorId: string,
+  clock: Clock = systemClock
+): ChallengeResult {
+  const row = getRow(claim.id)!;
+  const now = clock.now();
+  const at = now.toISOString();
+
+  return db.transaction((): ChallengeResult => {
+    if (!row.challenge_expires_at || new Date(row.challenge_expires_at) <= now) {
+      logEvent(claim.id, at, "heir", actorId, "challenge_expired");
+      return "expired";
+    }
+    if (row.challenge_hash !== tokenHash(code)) {
+      const attempts = row.challenge_attempts + 1;
+      db.prepare("UPDATE claims SET challenge_attempts = ?, updated_at = ? WHERE id = ?").run(attempts, at, claim.id);
+      logEvent(claim.id, at, "heir", actorId, "challenge_failed", `attempt ${attempts} of ${MAX_CHALLENGE_ATTEMPTS}`);
+      if (attempts < MAX_CHALLENGE_ATTEMPTS) return "invalid";
+      setStatus(claim.id, "rejected", at, true);
+      logEvent(claim.id, at, "system", null, "rejected", "too many failed challenges");
+      return "rejected";
+    }
+
+    const waitingUntil = new Date(now.getTime() + vault.claimWaitingDays * 24 * 60 * 60 * 1000).toISOString();
+    db.prepare(
+      "UPDATE claims SET status = 'waiting', challenge_hash = NULL, waiting_until = ?, updated_at = ? WHERE id = ?"
+    ).run(waitingUntil, at, claim.id);
+    logEvent(claim.id, at, "heir", actorId, "challenge_passed", `waiting until ${waitingUntil}`);
+    return "passed";
+  })();
+}
+
+/**
+ * Resolves a claim whose waiting period is over: the heir gets read access, or
+ * the vault passes into custodial stewardship. Either way the vault's lifecycle
+ * ends and any other open claim on it is superseded.
+ */
+export function completeClaim(
+  claim: Claim,
+  resolution: ClaimResolution,
+  heir: HeirParty,
+  clock: Clock = systemClock
+): Claim {
+  const at = clock.now().toISOString();
+  db.transaction(() => {
+    const status = resolution === "access" ? "granted" : "stewardship";
+    setStatus(claim.id, status, at, true);
+    logEvent(claim.id, at, "heir", heir.userId, status);
+    if (resolution === "access") grantAccess(claim.vaultId, heir.userId!, "claim", claim.id, at);
+    endLifecycle(claim.vaultId, resolution === "access" ? "inherited" : "in_stewardship", at);
+
+    for (const other of listClaims(claim.vaultId).filter((c) => c.id !== claim.id && isOpen(c))) {
+      setStatus(other.id, "superseded", at, true);
+      logEvent(other.id, at, "system", null, "superseded", `claim ${claim.id} completed`);
+    }
+  })();
+  return getClaim(claim.id)!;
+}
+
+export function cancelClaim(claim: Claim, actor: ClaimActor, actorId: string, clock: Clock = systemClock): Claim {
+  const at = clock.now().toISOString();
+  db.transaction(() => {
+    setStatus(claim.id, "cancelled", at, true);
+    logEvent(claim.id, at, actor, actorId, "cancelled");
+  })();
+  return getClaim(claim.id)!;
+}
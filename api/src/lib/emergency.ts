@@ -0,0 +1,175 @@
+import crypto from "crypto";
+import type { EmergencyRequest, EmergencyStatus } from "@fawv/shared";
+import db from "../db";
+import { notify } from "../notify";
+import { grantAccess, revokeGrant } from "./access";
+import { getHeir } from "./heirs";
+import { FINAL_STATES, systemClock, type Clock } from "./lifecycle";
+import { getVault, syncLifecycle, type Vault } from "./vaults";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Resolver = NonNullable<EmergencyRequest["resolvedBy"]>;
+
+type EmergencyRow = {
+  id: string;
+  vault_id: string;
+  heir_id: string;
+  reason: string;
+  status: EmergencyStatus;
+  veto_until: string;
+  note: string | null;
+  created_at: string;
+  resolved_at: string | null;
+  resolved_by: Resolver | null;
+};
+
+function toRequest(r: EmergencyRow): EmergencyRequest {
+  return {
+    id: r.id,
+    vaultId: r.vault_id,
+    heirId: r.heir_id,
+    reason: r.reason,
+    status: r.status,
+    vetoUntil: r.veto_until,
+    note: r.note,
+    createdAt: r.created_at,
+    resolvedAt: r.resolved_at,
+    resolvedBy: r.resolved_by,
+  };
+}
+
+export function getEmergencyRequest(id: string): EmergencyRequest | null {
+  const row = db.prepare("SELECT * FROM emergency_requests WHERE id = ?").get(id) as EmergencyRow | undefined;
+  return row ? toRequest(row) : null;
+}
+
+export function listEmergencyRequests(vaultId: string): EmergencyRequest[] {
+  const rows = db
+    .prepare("SELECT * FROM emergency_requests WHERE vault_id = ? ORDER BY created_at DESC")
+    .all(vaultId) as EmergencyRow[];
+  return rows.map(toRequest);
+}
+
+export function latestEmergencyRequestOf(heirId: string): EmergencyRequest | null {
+  const row = db
+    .prepare("SELECT * FROM emergency_requests WHERE heir_id = ? ORDER BY created_at DESC LIMIT 1")
+    .get(heirId) as EmergencyRow | undefined;
+  return row ? toRequest(row) : null;
+}
+
+/** Whether the request currently gives its heir access. */
+export function isActiveGrant(r: EmergencyRequest) {
+  return r.status === "approved" || r.status === "granted";
+}
+
+export function createEmergencyRequest(
+  vault: Vault,
+  heirId: string,
+  reason: string,
+  clock: Clock = systemClock
+): EmergencyRequest {
+  const now = clock.now();
+  const id = crypto.randomUUID();
+  db.prepare(
+    `INSERT INTO emergency_requests (id, vault_id, heir_id, reason, veto_until, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(
+    id,
+    vault.id,
+    heirId,
+    reason,
+    new Date(now.getTime() + vault.emergencyVetoDays * DAY_MS).toISOString(),
+    now.toISOString()
+  );
+  return getEmergencyRequest(id)!;
+}
+
+/**
+ * Moves a request to its next status. Approving or auto-granting opens access
+ * for `heirUserId`; revoking closes it again.
+ */
+export function resolveEmergencyRequest(
+  r: EmergencyRequest,
+  status: Exclude<EmergencyStatus, "pending">,
+  by: Resolver,
+  opts: { heirUserId?: string; note?: string } = {},
+  clock: Clock = systemClock
+): EmergencyRequest {
+  const at = clock.now().toISOString();
+  db.transaction(() => {
+    db.prepare(
+      "UPDATE emergency_requests SET status = ?, resolved_at = ?, resolved_by = ?, note = COALESCE(?, note) WHERE id = ?"
+    ).run(status, at, by, opts.note ?? null, r.id);
+    if (status === "approved" || status === "granted") grantAccess(r.vaultId, opts.heirUserId!, "emergency", r.id, at);
+    if (status === "revoked") revokeGrant(r.id);
+  })();
+  return getEmergencyRequest(r.id)!;
+}
+
+/** Pending requests whose veto window has run out, oldest first. */
+export function dueEmergencyRequests(clock: Clock = systemClock): EmergencyRequest[] {
+  const rows = db
+    .prepare("SELECT * FROM emergency_requests WHERE status = 'pending' AND veto_until <= ? ORDER BY veto_until")
+    .all(clock.now().toISOString()) as EmergencyRow[];
+  return rows.map(toRequest);
+}
+
+/** Tells both the owner and the heir where a request now stands. */
+export function notifyEmergencyStep(r: EmergencyRequest) {
+  const vault = getVault(r.vaultId);
+  const heir = getHeir(r.heirId);
+  if (!vault || !heir) return;
+  const owner = { userId: vault.ownerId };
+  if (r.status === "pending") {
+    notify(owner, "emergency_requested", {
+      vaultName: vault.name,
+      heirName: heir.name,
+      heirEmail: heir.email,
+      reason: r.reason,
+      vetoUntil: r.vetoUntil,
+    });
+  } else {
+    notify(owner, "emergency_owner", {
+      vaultName: vault.name,
+      heirName: heir.name,
+      status: r.status,
+      note: r.note,
+    });
+  }
+  notify(heir.userId ? { userId: heir.userId } : { email: heir.email }, "emergency_heir", {
+    vaultName: vault.name,
+    status: r.status,
+    vetoUntil: r.vetoUntil,
+    note: r.note,
+  });
+}
+
+/**
+ * Grants every request whose veto window ran out without an answer; returns how
+ * many. Requests that can no longer be granted are cancelled instead, so none
+ * stays pending for good.
+ */
+export function autoGrantDue(clock: Clock = systemClock): number {
+  let granted = 0;
+  for (const r of dueEmergencyRequests(clock)) {
+    const cancel = (note: string) =>
+      notifyEmergencyStep(resolveEmergencyRequest(r, "cancelled", "system", { note }, clock));
+    const heir = getHeir(r.heirId);
+    // no longer designated: setEmergencyAccess cancels these, this covers any left behind
+    if (!heir?.userId || !heir.emergencyAccess) {
+      cancel("emergency access was withdrawn");
+      continue;
+    }
+    const vault = getVault(r.vaultId);
+    const state = vault && syncLifecycle(vault, clock).vault.lifecycleState;
+    // once the owner is gone, the claim process takes over
+    if (!state || FINAL_STATES.has(state)) {
+      cancel("the vault has passed to the claim process");
+      continue;
+    }
+    notifyEmergencyStep(resolveEmergencyRequest(r, "granted", "system", { heirUserId: heir.userId }, clock));
+    granted++;
+  }
+  return granted;
+}
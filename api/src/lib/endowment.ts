@@ -0,0 +1,43 @@
+import crypto from "crypto";
+import type { Endowment, RateLock } from "@fawv/shared";
+import db from "../db";
+import rates, { type RateProvider, type RateQuote } from "../rates";
+import { systemClock, type Clock } from "./lifecycle";
+
+/**
+ * Converts `usd` to ETH at the provider's current rate and records the lock, so
+ * the figure on the vault can later be traced to a source and observation time.
+ * Rejects with RateUnavailableError when no fresh enough rate can be had.
+ */
+export async function lockEndowment(
+  userId: string,
+  usd: number,
+  provider: RateProvider = rates,
+  clock: Clock = systemClock
+): Promise<Endowment> {
+  const rate = await provider.usdPerEth();
+  const eth = Number((usd / rate.usdPerEth).toFixed(9)); // to the gwei
+  const lock = recordRateLock(userId, usd, eth, rate, clock);
+  return { usd, eth, usdPerEth: rate.usdPerEth, lock };
+}
+
+/** Records the rate behind one conversion between `usd` and `eth`. */
+export function recordRateLock(
+  userId: string,
+  usd: number,
+  eth: number,
+  rate: RateQuote,
+  clock: Clock = systemClock
+): RateLock {
+  const lock = {
+    id: crypto.randomUUID(),
+    source: rate.source,
+    asOf: rate.asOf.toISOString(),
+    lockedAt: clock.now().toISOString(),
+  };
+  db.prepare(
+    `INSERT INTO rate_locks (id, user_id, usd, eth, usd_per_eth, source, as_of, locked_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(lock.id, userId, usd, eth, rate.usdPerEth, lock.source, lock.asOf, lock.lockedAt);
+  return lock;
+}
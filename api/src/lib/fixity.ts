@@ -0,0 +1,98 @@
+import type { ReplicaStatus, StorageCopy } from "@fawv/shared";
+import db from "../db";
+import type { StorageBackend } from "../storage";
+import { verifyObject } from "./integrity";
+import { systemClock, type Clock } from "./lifecycle";
+import { AGENTS, recordEvent } from "./preservation";
+import { requeueReplica } from "./replication";
+
+// How many objects one scrub re-hashes; the least recently checked go first,
+// so every object comes round once per (objects / sample) scrubs
+export const FIXITY_SAMPLE = Number(process.env.FIXITY_SAMPLE || 100);
+
+type AuditRow = {
+  id: number;
+  object_key: string;
+  size: number;
+  content_type: string;
+  sha256: string;
+  replica: ReplicaStatus | null;
+};
+
+// requeued: mirror copies handed back to the replication worker
+export type ScrubResult = { checked: number; failed: number; repaired: number; requeued: number };
+
+/** Re-hashes one copy and logs a "fixity check" event; read errors count as failures. */
+async function check(backend: StorageBackend, copy: StorageCopy, row: AuditRow, clock: Clock) {
+  let ok = false;
+  let detail: string;
+  try {
+    const v = await verifyObject(backend, row.object_key, row.sha256, { rehash: true });
+    ok = v.ok;
+    detail = v.ok ? "sha256 re-hashed, matches" : v.got ? `sha256 re-hashed to ${v.got}` : "object is missing";
+  } catch (err) {
+    detail = `could not read: ${err instanceof Error ? err.message : String(err)}`.slice(0, 500);
+  }
+  recordEvent(
+    { fileId: row.id, type: "fixity check", copy, outcome: ok ? "pass" : "fail", detail, agent: AGENTS.scrubber },
+    clock
+  );
+  return ok;
+}
+
+// Overwrites the damaged primary with the mirror's copy, which was just re-hashed
+async function repairPrimary(row: AuditRow, primary: StorageBackend, target: StorageBackend, clock: Clock) {
+  const event = { fileId: row.id, type: "repair", copy: "primary", agent: AGENTS.scrubber } as const;
+  try {
+    await primary.write(row.object_key, await target.read(row.object_key), {
+      size: row.size,
+      sha256: row.sha256,
+      contentType: row.content_type,
+    });
+    const v = await verifyObject(primary, row.object_key, row.sha256, { rehash: true });
+    if (!v.ok) throw new Error(v.got ? `restored copy hashes to ${v.got}` : "restored copy is missing");
+    recordEvent({ ...event, outcome: "pass", detail: "restored from the mirror; sha256 matches" }, clock);
+    return true;
+  } catch (err) {
+    recordEvent({ ...event, outcome: "fail", detail: (err instanceof Error ? err.message : String(err)).slice(0, 500) }, clock);
+    return false;
+  }
+}
+
+/**
+ * Re-hashes a rotating sample of sealed objects against the hashes recorded at
+ * upload, on the primary and, for verified replicas, on the mirror. A bad
+ * primary is restored from a good mirror copy; a bad mirror copy goes back to
+ * the replication worker, which rewrites it from the primary.
+ */
+export async function scrubFixity(
+  primary: StorageBackend,
+  target: StorageBackend | null,
+  clock: Clock = systemClock,
+  limit = FIXITY_SAMPLE
+): Promise<ScrubResult> {
+  const rows = db
+    .prepare(
+      `SELECT f.id, f.object_key, f.size, f.content_type, f.sha256, r.status AS replica
+       FROM upload_files f JOIN upload_sessions s ON s.id = f.session_id LEFT JOIN replicas r ON r.file_id = f.id
+       WHERE s.status = 'sealed' AND f.sha256 IS NOT NULL
+       ORDER BY f.fixity_checked_at IS NOT NULL, f.fixity_checked_at, f.id LIMIT ?`
+    )
+    .all(limit) as AuditRow[];
+
+  const result: ScrubResult = { checked: 0, failed: 0, repaired: 0, requeued: 0 };
+  for (const row of rows) {
+    db.prepare("UPDATE upload_files SET fixity_checked_at = ? WHERE id = ?").run(clock.now().toISOString(), row.id);
+    const primaryOk = await check(primary, "primary", row, clock);
+    const mirrorOk = target && row.replica === "verified" ? await check(target, "mirror", row, clock) : null;
+    result.checked++;
+    if (!primaryOk || mirrorOk === false) result.failed++;
+
+    if (!primaryOk && target && mirrorOk && (await repairPrimary(row, primary, target, clock))) result.repaired++;
+    if (mirrorOk === false) {
+      requeueReplica(row.id, clock);
+      result.requeued++;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,45 @@
+import type { Heartbeat, LifecycleState } from "@fawv/shared";
+import db from "../db";
+import { systemClock, type Clock, type Evaluation } from "./lifecycle";
+import { getVault, syncLifecycle, type Vault } from "./vaults";
+
+type HeartbeatRow = {
+  at: string;
+  state_before: LifecycleState;
+  next_heartbeat_at: string | null;
+};
+
+function toHeartbeat(r: HeartbeatRow): Heartbeat {
+  return { at: r.at, stateBefore: r.state_before, nextHeartbeat: r.next_heartbeat_at };
+}
+
+/**
+ * Records an owner check-in on a minted vault and restarts its schedule. The
+ * caller must have synced the vault first so an overdue vault is judged on the
+ * state it had actually reached, not the one last stored.
+ */
+export function recordHeartbeat(
+  vault: Vault,
+  userId: string,
+  clock: Clock = systemClock
+): { heartbeat: Heartbeat; lifecycle: Evaluation } {
+  const at = clock.now().toISOString();
+  const stateBefore = vault.lifecycleState!;
+
+  return db.transaction(() => {
+    db.prepare("UPDATE vaults SET last_attested_at = ? WHERE id = ?").run(at, vault.id);
+    const { lifecycle } = syncLifecycle(getVault(vault.id)!, clock);
+    const next = lifecycle!.nextHeartbeat?.toISOString() ?? null;
+    db.prepare(
+      "INSERT INTO heartbeats (vault_id, user_id, at, state_before, next_heartbeat_at) VALUES (?, ?, ?, ?, ?)"
+    ).run(vault.id, userId, at, stateBefore, next);
+    return { heartbeat: { at, stateBefore, nextHeartbeat: next }, lifecycle: lifecycle! };
+  })();
+}
+
+export function listHeartbeats(vaultId: string): Heartbeat[] {
+  const rows = db
+    .prepare("SELECT at, state_before, next_heartbeat_at FROM heartbeats WHERE vault_id = ? ORDER BY id DESC")
+    .all(vaultId) as HeartbeatRow[];
+  return rows.map(toHeartbeat);
+}
@@ -0,0 +1,160 @@
+import crypto from "crypto";
+import type { Heir, HeirStatus, Product, RecipientStanza } from "@fawv/shared";
+import db from "../db";
+import { tokenHash } from "./auth";
+import { getPublicKey } from "./keys";
+import { getSession } from "./sessions";
+
+export type HeirParty = Omit<Heir, "publicKey"> & {
+  vaultId: string;
+  userId: string | null; // set once the invitation is accepted
+};
+
+type HeirRow = {
+  id: string;
+  vault_id: string;
+  email: string;
+  name: string;
+  status: HeirStatus;
+  emergency_access: number;
+  user_id: string | null;
+  invited_at: string;
+  verified_at: string | null;
+};
+
+function toHeir(r: HeirRow): HeirParty {
+  return {
+    id: r.id,
+    vaultId: r.vault_id,
+    email: r.email,
+    name: r.name,
+    status: r.status,
+    emergencyAccess: r.emergency_access === 1,
+    userId: r.user_id,
+    invitedAt: r.invited_at,
+    verifiedAt: r.verified_at,
+  };
+}
+
+/** The public view; which account accepted stays private to the server. */
+export function heirView(h: HeirParty): Heir {
+  return {
+    id: h.id,
+    email: h.email,
+    name: h.name,
+    status: h.status,
+    emergencyAccess: h.emergencyAccess,
+    invitedAt: h.invitedAt,
+    verifiedAt: h.verifiedAt,
+    publicKey: h.userId ? (getPublicKey(h.userId)?.publicKey ?? null) : null,
+  };
+}
+
+export function getHeir(id: string): HeirParty | null {
+  const row = db.prepare("SELECT * FROM heirs WHERE id = ?").get(id) as HeirRow | undefined;
+  return row ? toHeir(row) : null;
+}
+
+export function listHeirs(vaultId: string): HeirParty[] {
+  const rows = db.prepare("SELECT * FROM heirs WHERE vault_id = ? ORDER BY invited_at").all(vaultId) as HeirRow[];
+  return rows.map(toHeir);
+}
+
+/**
+ * Which of `keys` an Heirloom vault's data key is wrapped to, out of
+ * `recipients` or else the stanzas stored with its upload. No single heir may
+ * open an Heirloom vault, they get key shares instead, so an heir's key must
+ * come out empty. Other products, and vaults without public-key encryption,
+ * always do.
+ */
+export function heirloomRecipients(
+  vault: { product: Product; sessionId: string },
+  keys: (string | null)[],
+  recipients?: RecipientStanza[]
+): string[] {
+  if (vault.product !== "Heirloom") return [];
+  if (!recipients) {
+    const encryption = getSession(vault.sessionId)?.encryption;
+    if (encryption?.mode !== "publicKey") return [];
+    recipients = encryption.recipients;
+  }
+  const wrapped = new Set(recipients.map((r) => r.publicKey));
+  return keys.filter((k): k is string => k !== null && wrapped.has(k));
+}
+
+/** The keys the vault's heirs have published; an heir still invited has none. */
+export function heirKeys(vaultId: string): (string | null)[] {
+  return listHeirs(vaultId).map((h) => heirView(h).publicKey);
+}
+
+/** Heir records the user has accepted, across every vault. */
+export function listHeirshipsOf(userId: string): HeirParty[] {
+  const rows = db
+    .prepare("SELECT * FROM heirs WHERE user_id = ? AND status = 'verified' ORDER BY verified_at DESC")
+    .all(userId) as HeirRow[];
+  return rows.map(toHeir);
+}
+
+export function getVerifiedHeir(vaultId: string, userId: string): HeirParty | null {
+  const row = db
+    .prepare("SELECT * FROM heirs WHERE vault_id = ? AND user_id = ? AND status = 'verified'")
+    .get(vaultId, userId) as HeirRow | undefined;
+  return row ? toHeir(row) : null;
+}
+
+/** Adds an heir and returns the invitation token to send them; null if the address is already invited. */
+export function inviteHeir(vaultId: string, h: { email: string; name: string }): { heir: HeirParty; token: string } | null {
+  const id = crypto.randomUUID();
+  const token = crypto.randomBytes(32).toString("base64url");
+  const res = db
+    .prepare(
+      `INSERT INTO heirs (id, vault_id, email, name, invite_token_hash, invited_at) VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(vault_id, email) DO NOTHING`
+    )
+    .run(id, vaultId, h.email, h.name, tokenHash(token), new Date().toISOString());
+  return res.changes ? { heir: getHeir(id)!, token } : null;
+}
+
+export function findHeirByInvite(token: string): HeirParty | null {
+  const row = db.prepare("SELECT * FROM heirs WHERE invite_token_hash = ?").get(tokenHash(token)) as
+    | HeirRow
+    | undefined;
+  return row ? toHeir(row) : null;
+}
+
+/** Marks the invited address as proven and ties it to the account that accepted. */
+export function verifyHeir(id: string, userId: string): HeirParty {
+  db.prepare("UPDATE heirs SET status = 'verified', user_id = ?, verified_at = ? WHERE id = ?").run(
+    userId,
+    new Date().toISOString(),
+    id
+  );
+  return getHeir(id)!;
+}
+
+/**
+ * Turning emergency access off also withdraws it: the heir's pending requests
+ * are cancelled and any access their requests opened is revoked.
+ */
+export function setEmergencyAccess(id: string, allowed: boolean): HeirParty {
+  db.transaction(() => {
+    db.prepare("UPDATE heirs SET emergency_access = ? WHERE id = ?").run(allowed ? 1 : 0, id);
+    if (allowed) return;
+    const at = new Date().toISOString();
+    db.prepare(
+      `UPDATE emergency_requests SET status = CASE status WHEN 'pending' THEN 'cancelled' ELSE 'revoked' END,
+         resolved_at = ?, resolved_by = 'owner'
+       WHERE heir_id = ? AND status IN ('pending', 'approved', 'granted')`
+    ).run(at, id);
+    db.prepare("DELETE FROM access_grants WHERE source_id IN (SELECT id FROM emergency_requests WHERE heir_id = ?)").run(id);
+  })();
+  return getHeir(id)!;
+}
+
+/** Removes an heir along with any access their emergency requests opened. */
+export function removeHeir(id: string) {
+  db.transaction(() => {
+    db.prepare("DELETE FROM access_grants WHERE source_id IN (SELECT id FROM emergency_requests WHERE heir_id = ?)").run(id);
+    db.prepare("DELETE FROM heirs WHERE id = ?").run(id);
+  })();
+}
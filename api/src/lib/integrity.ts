@@ -0,0 +1,36 @@
+import crypto from "crypto";
+import type { StorageBackend } from "../storage";
+
+export const SHA256_HEX = /^[a-f0-9]{64}$/;
+
+// Streams the object through SHA-256; never holds more than one chunk in memory
+export async function hashObject(storage: StorageBackend, key: string): Promise<string> {
+  const hash = crypto.createHash("sha256");
+  for await (const chunk of await storage.read(key)) hash.update(chunk as Buffer);
+  return hash.digest("hex");
+}
+
+export type Verification = {
+  ok: boolean;
+  got: string | null; // null when the object is missing
+  method: "checksum" | "rehash";
+};
+
+/**
+ * Checks a stored object against its expected SHA-256. A checksum the backend
+ * verified on write is trusted as-is unless `rehash` is set (fixity audits,
+ * which are about what is on disk now); anything else is re-hashed server-side.
+ */
+export async function verifyObject(
+  storage: StorageBackend,
+  key: string,
+  expectedHex: string,
+  opts: { rehash?: boolean } = {}
+): Promise<Verification> {
+  const expected = expectedHex.toLowerCase();
+  const head = await storage.head(key);
+  if (!head) return { ok: false, got: null, method: "checksum" };
+  if (head.sha256 && !opts.rehash) return { ok: head.sha256 === expected, got: head.sha256, method: "checksum" };
+  const got = await hashObject(storage, key);
+  return { ok: got === expected, got, method: "rehash" };
+}
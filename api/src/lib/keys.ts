@@ -0,0 +1,18 @@
+import type { UserPublicKey } from "@fawv/shared";
+import db from "../db";
+
+export function getPublicKey(userId: string): UserPublicKey | null {
+  const row = db.prepare("SELECT public_key, updated_at FROM user_keys WHERE user_id = ?").get(userId) as
+    | { public_key: string; updated_at: string }
+    | undefined;
+  return row ? { publicKey: row.public_key, updatedAt: row.updated_at } : null;
+}
+
+/** Replaces the user's key; vaults already wrapped for the old one keep it until their owner re-wraps. */
+export function setPublicKey(userId: string, publicKey: string): UserPublicKey {
+  db.prepare(
+    `INSERT INTO user_keys (user_id, public_key, updated_at) VALUES (?, ?, ?)
+     ON CONFLICT(user_id) DO UPDATE SET public_key = excluded.public_key, updated_at = excluded.updated_at`
+  ).run(userId, publicKey, new Date().toISOString());
+  return getPublicKey(userId)!;
+}
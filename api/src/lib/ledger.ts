@@ -0,0 +1,398 @@
+import crypto from "crypto";
+import {
+  LedgerAccount,
+  type Endowment,
+  type EndowmentLedger,
+  type LedgerEntry,
+  type LedgerEntryKind,
+  type LedgerPosting,
+  type Redundancy,
+} from "@fawv/shared";
+import db from "../db";
+import { APP_BASE_URL, notify } from "../notify";
+import rates, { RateUnavailableError, type RateProvider, type RateQuote } from "../rates";
+import { recordRateLock } from "./endowment";
+import { addMonths, systemClock, type Clock } from "./lifecycle";
+import { billedGB } from "./pricing";
+import { sessionTotals } from "./sessions";
+import { getVault, type Vault } from "./vaults";
+
+/**
+ * Double-entry ledger of each vault's endowment, in US cents. The ledger opens
+ * with the endowment locked at checkout once the vault is minted; every month
+ * after that is charged for storage and, when configured, credited with yield.
+ * Storage the fund can't cover is owed on `unpaid_storage` and flags the vault
+ * as exhausted, which lapses it (see ./lifecycle), until a top-up pays it off.
+ * The fund is held in ETH: once a month, and before each top-up, what it holds
+ * is valued at the current rate and the difference posted as a revaluation.
+ */
+
+// What keeping one GB for a month costs us, per rail; dual-rail vaults pay it twice
+const STORAGE_COST_PER_GB_MONTH = Number(process.env.STORAGE_COST_PER_GB_MONTH || 0.01);
+// Yearly rate the fund earns, credited monthly on the balance the month starts with; 0 leaves yield out
+const ENDOWMENT_YIELD_APR = Number(process.env.ENDOWMENT_YIELD_APR || 0);
+
+type EntryRow = {
+  id: string;
+  kind: LedgerEntryKind;
+  memo: string;
+  rate_lock_id: string | null;
+  lock_source: string | null;
+  lock_as_of: string | null;
+  lock_locked_at: string | null;
+  effective_at: string;
+  recorded_at: string;
+};
+
+type NewEntry = {
+  kind: LedgerEntryKind;
+  period?: number; // month since mint that a drawdown or yield covers
+  memo: string;
+  rateLockId?: string | null;
+  effectiveAt: string;
+  postings: LedgerPosting[];
+};
+
+function post(vaultId: string, e: NewEntry, clock: Clock) {
+  if (e.postings.reduce((sum, p) => sum + p.amountCents, 0) !== 0) throw new Error(`unbalanced ${e.kind} entry`);
+  const id = crypto.randomUUID();
+  db.prepare(
+    `INSERT INTO ledger_entries (id, vault_id, kind, period, memo, rate_lock_id, effective_at, recorded_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(id, vaultId, e.kind, e.period ?? null, e.memo, e.rateLockId ?? null, e.effectiveAt, clock.now().toISOString());
+  const insert = db.prepare("INSERT INTO ledger_postings (entry_id, account, amount_cents) VALUES (?, ?, ?)");
+  for (const p of e.postings) insert.run(id, p.account, p.amountCents);
+}
+
+function balances(vaultId: string): Record<LedgerAccount, number> {
+  const out = Object.fromEntries(LedgerAccount.options.map((a) => [a, 0])) as Record<LedgerAccount, number>;
+  const rows = db
+    .prepare(
+      `SELECT p.account, SUM(p.amount_cents) AS cents FROM ledger_postings p JOIN ledger_entries e ON e.id = p.entry_id
+       WHERE e.vault_id = ? GROUP BY p.account`
+    )
+    .all(vaultId) as { account: LedgerAccount; cents: number }[];
+  for (const r of rows) out[r.account] = r.cents;
+  return out;
+}
+
+// The fund's ETH and the rate it was last valued at: that of the latest entry
+// converted at a locked rate, else the endowment's; null if there is neither
+function holdings(v: Vault): { eth: number; usdPerEth: number } | null {
+  const row = db
+    .prepare(
+      `SELECT l.usd_per_eth FROM ledger_entries e JOIN rate_locks l ON l.id = e.rate_lock_id
+       WHERE e.vault_id = ? ORDER BY e.effective_at DESC, e.recorded_at DESC, e.rowid DESC LIMIT 1`
+    )
+    .get(v.id) as { usd_per_eth: number } | undefined;
+  const usdPerEth = row?.usd_per_eth ?? v.endowment?.usdPerEth;
+  if (!usdPerEth) return null;
+  return { eth: Math.max(balances(v.id).fund, 0) / 100 / usdPerEth, usdPerEth };
+}
+
+function usd(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+/** A month of storing `bytes`, in cents, fractions included; billed by the GB like the price. */
+export function storageCostCents(bytes: number, redundancy: Redundancy): number {
+  const rails = redundancy === "dual" ? 2 : 1;
+  return billedGB(bytes) * STORAGE_COST_PER_GB_MONTH * rails * 100;
+}
+
+export function monthlyCostCents(v: Vault): number {
+  return storageCostCents(sessionTotals(v.sessionId).bytes, v.redundancy);
+}
+
+// Whole months from `from` to `now`
+function monthsSince(from: Date, now: Date) {
+  let n = 0;
+  while (addMonths(from, n + 1) <= now) n++;
+  return n;
+}
+
+function ledgerPeriod(vaultId: string): number | null {
+  return (db.prepare("SELECT ledger_period FROM vaults WHERE id = ?").get(vaultId) as { ledger_period: number | null })
+    .ledger_period;
+}
+
+/** Posts the endowment locked at checkout as the fund's opening entry, once the vault is minted. */
+export function openLedger(v: Vault, clock: Clock = systemClock): boolean {
+  const endowment = v.endowment;
+  if (v.status !== "minted" || !v.mintedAt || !endowment) return false;
+  const cents = Math.round(endowment.usd * 100);
+  return db.transaction(() => {
+    if (db.prepare("SELECT 1 FROM ledger_entries WHERE vault_id = ? AND kind = 'endowment'").get(v.id)) return false;
+    post(
+      v.id,
+      {
+        kind: "endowment",
+        memo: `Endowment of ${usd(cents)} (${endowment.eth} ETH at $${endowment.usdPerEth.toFixed(2)}/ETH)`,
+        rateLockId: endowment.lock?.id ?? null,
+        effectiveAt: v.mintedAt!,
+        postings: [
+          { account: "fund", amountCents: cents },
+          { account: "contributions", amountCents: -cents },
+        ],
+      },
+      clock
+    );
+    // a vault topped up before its endowment was posted already has a period
+    db.prepare("UPDATE vaults SET ledger_period = COALESCE(ledger_period, 0) WHERE id = ?").run(v.id);
+    return true;
+  })();
+}
+
+/**
+ * Posts yield and storage for every month completed since the ledger was last
+ * brought up to date. Each month is charged its share of the running total, so
+ * fractions of a cent carry over instead of being lost. Returns whether the
+ * fund has just run out.
+ */
+function accrue(v: Vault, clock: Clock): boolean {
+  const from = ledgerPeriod(v.id);
+  if (from === null) return false;
+  const minted = new Date(v.mintedAt!);
+  const monthly = monthlyCostCents(v);
+  const through = monthsSince(minted, clock.now());
+  const wasExhausted = v.endowmentExhaustedAt !== null;
+  let exhaustedAt = v.endowmentExhaustedAt;
+
+  for (let n = from + 1; n <= through; n++) {
+    const effectiveAt = addMonths(minted, n).toISOString();
+    db.transaction(() => {
+      const before = balances(v.id);
+      const earned = Math.floor((Math.max(before.fund, 0) * ENDOWMENT_YIELD_APR) / 12);
+      if (earned > 0) {
+        post(
+          v.id,
+          {
+            kind: "yield",
+            period: n,
+            memo: `Yield for month ${n} at ${(ENDOWMENT_YIELD_APR * 100).toFixed(2)}% a year`,
+            effectiveAt,
+            postings: [
+              { account: "fund", amountCents: earned },
+              { account: "yield", amountCents: -earned },
+            ],
+          },
+          clock
+        );
+      }
+      const due = Math.round(n * monthly) - Math.round((n - 1) * monthly);
+      const paid = Math.min(due, Math.max(before.fund + earned, 0));
+      if (due > 0) {
+        post(
+          v.id,
+          {
+            kind: "drawdown",
+            period: n,
+            memo: `Storage for month ${n}` + (paid < due ? `; ${usd(due - paid)} unpaid` : ""),
+            effectiveAt,
+            postings: [
+              { account: "storage_costs", amountCents: due },
+              { account: "fund", amountCents: -paid },
+              { account: "unpaid_storage", amountCents: paid - due },
+            ].filter((p) => p.amountCents !== 0) as LedgerPosting[],
+          },
+          clock
+        );
+      }
+      exhaustedAt = balances(v.id).unpaid_storage < 0 ? exhaustedAt ?? effectiveAt : null;
+      db.prepare("UPDATE vaults SET ledger_period = ?, endowment_exhausted_at = ? WHERE id = ?").run(
+        n,
+        exhaustedAt,
+        v.id
+      );
+    })();
+  }
+  return !wasExhausted && exhaustedAt !== null;
+}
+
+/**
+ * Opens the vault's ledger if it is due to and posts every month up to
+ * `clock.now()`; tells the owner if the fund has just run out.
+ */
+export function syncEndowment(v: Vault, clock: Clock = systemClock): { vault: Vault; exhausted: boolean } {
+  openLedger(v, clock);
+  const exhausted = accrue(v, clock);
+  const vault = getVault(v.id)!;
+  if (exhausted) {
+    notify({ userId: vault.ownerId }, "endowment_exhausted", {
+      vaultName: vault.name,
+      exhaustedAt: vault.endowmentExhaustedAt!,
+      monthlyCost: usd(Math.ceil(monthlyCostCents(vault))),
+      link: APP_BASE_URL,
+    });
+  }
+  return { vault, exhausted };
+}
+
+// Values the fund's ETH at `usdPerEth`; the caller holds the transaction
+function revalue(
+  v: Vault,
+  usdPerEth: number,
+  rateLockId: string | null,
+  effectiveAt: string,
+  clock: Clock,
+  period?: number
+) {
+  const held = holdings(v);
+  if (!held || held.eth === 0) return;
+  const { fund } = balances(v.id);
+  const change = Math.round(held.eth * usdPerEth * 100) - fund;
+  if (change === 0) return;
+  post(
+    v.id,
+    {
+      kind: "revaluation",
+      period,
+      memo:
+        `${held.eth.toFixed(6)} ETH revalued from $${held.usdPerEth.toFixed(2)} to $${usdPerEth.toFixed(2)}/ETH, ` +
+        `${change > 0 ? "up" : "down"} ${usd(Math.abs(change))}`,
+      rateLockId,
+      effectiveAt,
+      postings: [
+        { account: "fund", amountCents: change },
+        { account: "revaluation", amountCents: -change },
+      ],
+    },
+    clock
+  );
+}
+
+// Values the fund at `rate` once in the ledger's current month
+function revalueEndowment(v: Vault, rate: RateQuote, clock: Clock) {
+  const period = ledgerPeriod(v.id);
+  if (period === null) return;
+  db.transaction(() => {
+    const done = db
+      .prepare("SELECT 1 FROM ledger_entries WHERE vault_id = ? AND kind = 'revaluation' AND period = ?")
+      .get(v.id, period);
+    if (done) return;
+    const held = holdings(v);
+    if (!held || held.eth === 0 || held.usdPerEth === rate.usdPerEth) return;
+    const lock = recordRateLock(v.ownerId, held.eth * rate.usdPerEth, Number(held.eth.toFixed(9)), rate, clock);
+    revalue(v, rate.usdPerEth, lock.id, clock.now().toISOString(), clock, period);
+  })();
+}
+
+/**
+ * Adds to a minted vault's fund at the rate locked for `endowment`, then pays
+ * off any storage the fund owed. Called as the top-up's payment is captured.
+ * A vault minted without an endowment starts its ledger here, and is charged
+ * from this month on. What the fund held already is revalued at the same rate
+ * first.
+ */
+export function topUpEndowment(v: Vault, endowment: Endowment, clock: Clock = systemClock) {
+  const cents = Math.round(endowment.usd * 100);
+  const now = clock.now();
+  db.transaction(() => {
+    if (ledgerPeriod(v.id) === null) {
+      db.prepare("UPDATE vaults SET ledger_period = ? WHERE id = ?").run(monthsSince(new Date(v.mintedAt!), now), v.id);
+    }
+    revalue(v, endowment.usdPerEth, endowment.lock?.id ?? null, now.toISOString(), clock);
+    post(
+      v.id,
+      {
+        kind: "top_up",
+        memo: `Top-up of ${usd(cents)} (${endowment.eth} ETH at $${endowment.usdPerEth.toFixed(2)}/ETH)`,
+        rateLockId: endowment.lock?.id ?? null,
+        effectiveAt: now.toISOString(),
+        postings: [
+          { account: "fund", amountCents: cents },
+          { account: "contributions", amountCents: -cents },
+        ],
+      },
+      clock
+    );
+    const { fund, unpaid_storage } = balances(v.id);
+    const settled = Math.min(-unpaid_storage, fund);
+    if (settled > 0) {
+      post(
+        v.id,
+        {
+          kind: "drawdown",
+          memo: `Unpaid storage of ${usd(settled)} paid`,
+          effectiveAt: now.toISOString(),
+          postings: [
+            { account: "unpaid_storage", amountCents: settled },
+            { account: "fund", amountCents: -settled },
+          ],
+        },
+        clock
+      );
+    }
+    if (settled === -unpaid_storage) {
+      // paying off what was owed is what restores a vault the exhausted fund lapsed
+      db.prepare(
+        `UPDATE vaults SET endowment_exhausted_at = NULL,
+         endowment_restored_at = CASE WHEN endowment_exhausted_at IS NULL THEN endowment_restored_at ELSE ? END
+         WHERE id = ?`
+      ).run(now.toISOString(), v.id);
+    }
+  })();
+}
+
+/** The vault's ledger with its balances and the latest `limit` entries, newest first. */
+export function endowmentLedger(v: Vault, limit = 240): EndowmentLedger {
+  const period = ledgerPeriod(v.id);
+  const accounts = balances(v.id);
+  const rows = db
+    .prepare(
+      `SELECT e.*, l.source AS lock_source, l.as_of AS lock_as_of, l.locked_at AS lock_locked_at
+       FROM ledger_entries e LEFT JOIN rate_locks l ON l.id = e.rate_lock_id
+       WHERE e.vault_id = ? ORDER BY e.effective_at DESC, e.recorded_at DESC, e.rowid DESC LIMIT ?`
+    )
+    .all(v.id, limit) as EntryRow[];
+  const postings = db.prepare("SELECT account, amount_cents FROM ledger_postings WHERE entry_id = ? ORDER BY id");
+  const entries: LedgerEntry[] = rows.map((r) => ({
+    id: r.id,
+    kind: r.kind,
+    effectiveAt: r.effective_at,
+    recordedAt: r.recorded_at,
+    memo: r.memo,
+    rateLock: r.rate_lock_id
+      ? { id: r.rate_lock_id, source: r.lock_source!, asOf: r.lock_as_of!, lockedAt: r.lock_locked_at! }
+      : null,
+    postings: (postings.all(r.id) as { account: LedgerAccount; amount_cents: number }[]).map((p) => ({
+      account: p.account,
+      amountCents: p.amount_cents,
+    })),
+  }));
+  return {
+    currency: "USD",
+    balanceCents: accounts.fund,
+    accounts,
+    monthlyCostCents: monthlyCostCents(v),
+    accruedThrough: period === null || !v.mintedAt ? null : addMonths(new Date(v.mintedAt), period).toISOString(),
+    exhaustedAt: v.endowmentExhaustedAt,
+    entries,
+  };
+}
+
+/**
+ * Brings every minted vault's ledger up to date and revalues each fund at the
+ * current ETH rate, if one can be had; returns how many endowments ran out.
+ */
+export async function accrueEndowments(provider: RateProvider = rates, clock: Clock = systemClock): Promise<number> {
+  let rate: RateQuote | null = null;
+  try {
+    rate = await provider.usdPerEth();
+  } catch (err) {
+    if (!(err instanceof RateUnavailableError)) throw err;
+    console.warn(`[endowment] no ETH rate, funds not revalued: ${err.message}`);
+  }
+  const ids = db
+    .prepare(
+      `SELECT id FROM vaults WHERE status = 'minted' AND (endowment_json IS NOT NULL OR ledger_period IS NOT NULL)`
+    )
+    .all() as { id: string }[];
+  let exhausted = 0;
+  for (const { id } of ids) {
+    const { vault, exhausted: ranOut } = syncEndowment(getVault(id)!, clock);
+    if (ranOut) exhausted++;
+    if (rate) revalueEndowment(vault, rate, clock);
+  }
+  return exhausted;
+}
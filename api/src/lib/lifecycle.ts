@@ -0,0 +1,184 @@
+import type { EscrowYears, LifecycleState, Product } from "@fawv/shared";
+
+/**
+ * Vault lifecycle rules. Pure: everything is computed from the plan, the last
+ * attestation and a clock, so the schedule can be checked at any instant.
+ *
+ * Permanence     active -> attestation_due -> lapsed -> orphaned -> released
+ * Permanence+    active -> attestation_due -> lapsed -> in_escrow (3/5/10y) -> orphaned -> released
+ * Heirloom       active (100y, no attestation) -> orphaned -> released
+ *
+ * An attestation (heartbeat) restarts the schedule from `active` while the vault
+ * is lapsed or in escrow. Orphaned and released are final for the owner: from
+ * there the vault belongs to the heir claim process or the market. A completed
+ * claim ends the lifecycle as inherited or in_stewardship.
+ *
+ * Storage has to be paid for too. Whatever the product, a vault lapses on the
+ * day its endowment first leaves storage unpaid, if that comes before its
+ * heartbeat deadline, and goes on from there as if it had missed a check-in:
+ * an exhausted Heirloom vault is orphaned after the cure period, not after 100
+ * years. Only the top-up that pays off the unpaid storage restores it; an
+ * attestation can't fund storage.
+ */
+
+export type Clock = { now(): Date };
+export const systemClock: Clock = { now: () => new Date() };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_HEARTBEAT_MONTHS = 12; // annual EAS at the least
+export const ATTESTATION_NOTICE_DAYS = 30; // "due" this long before the deadline (at most)
+export const CURE_PERIOD_DAYS = 90; // lapsed, but a late attestation still restores it
+export const CLAIM_WINDOW_DAYS = 180; // orphaned: heirs may claim before market release
+export const HEIRLOOM_GUARANTEE_YEARS = 100;
+
+const ORDER: LifecycleState[] = ["active", "attestation_due", "lapsed", "in_escrow", "orphaned", "released"];
+export const FINAL_STATES = new Set<LifecycleState>(["orphaned", "released", "inherited", "in_stewardship"]);
+
+export type LifecyclePlan = {
+  product: Product;
+  escrowYears: EscrowYears | null;
+  heartbeatMonths: number;
+  mintedAt: Date;
+};
+
+export type Segment = { state: LifecycleState; from: Date };
+
+/** The endowment's side of the schedule, as the ledger (./ledger) records it. */
+export type Funding = {
+  exhaustedAt: Date | null; // storage first went unpaid; cleared by a top-up
+  restoredAt: Date | null; // the last top-up that paid off unpaid storage
+};
+
+export const FUNDED: Funding = { exhaustedAt: null, restoredAt: null };
+
+function addDays(d: Date, days: number) {
+  return new Date(d.getTime() + days * DAY_MS);
+}
+
+export function addMonths(d: Date, months: number) {
+  const out = new Date(d);
+  out.setUTCMonth(out.getUTCMonth() + months);
+  return out;
+}
+
+function addYears(d: Date, years: number) {
+  return addMonths(d, years * 12);
+}
+
+export function requiresAttestation(product: Product) {
+  return product !== "Heirloom";
+}
+
+/** The next heartbeat deadline, counted from the last attestation (or the mint). */
+export function nextHeartbeat(plan: LifecyclePlan, lastAttestedAt: Date | null): Date | null {
+  if (!requiresAttestation(plan.product)) return null;
+  return addMonths(lastAttestedAt ?? plan.mintedAt, plan.heartbeatMonths);
+}
+
+/** What lapses the vault first: its heartbeat deadline or its endowment running out; null if neither ever does. */
+export function lapseOf(
+  plan: LifecyclePlan,
+  lastAttestedAt: Date | null,
+  exhaustedAt: Date | null
+): { at: Date; cause: "heartbeat" | "endowment" } | null {
+  const deadline = nextHeartbeat(plan, lastAttestedAt);
+  if (exhaustedAt && (!deadline || exhaustedAt < deadline)) return { at: exhaustedAt, cause: "endowment" };
+  return deadline ? { at: deadline, cause: "heartbeat" } : null;
+}
+
+/** Every state the vault will pass through if nobody attests or tops up again, in order. */
+export function schedule(plan: LifecyclePlan, lastAttestedAt: Date | null, exhaustedAt: Date | null = null): Segment[] {
+  const anchor = lastAttestedAt ?? plan.mintedAt;
+  const lapse = lapseOf(plan, lastAttestedAt, exhaustedAt);
+
+  if (!requiresAttestation(plan.product)) {
+    const guaranteeEnds = addYears(plan.mintedAt, HEIRLOOM_GUARANTEE_YEARS);
+    const cureEnds = lapse ? addDays(lapse.at, CURE_PERIOD_DAYS) : null;
+    const orphanedAt = cureEnds && cureEnds < guaranteeEnds ? cureEnds : guaranteeEnds;
+    return [
+      { state: "active", from: plan.mintedAt },
+      ...(lapse && lapse.at < orphanedAt ? [{ state: "lapsed" as const, from: lapse.at }] : []),
+      { state: "orphaned", from: orphanedAt },
+      { state: "released", from: addDays(orphanedAt, CLAIM_WINDOW_DAYS) },
+    ];
+  }
+
+  const deadline = nextHeartbeat(plan, lastAttestedAt)!;
+  const cureEnds = addDays(lapse!.at, CURE_PERIOD_DAYS);
+  // short heartbeat intervals get a proportionally shorter notice
+  const notice = Math.min(ATTESTATION_NOTICE_DAYS * DAY_MS, (deadline.getTime() - anchor.getTime()) / 4);
+  const dueAt = new Date(deadline.getTime() - notice);
+  // an endowment that ran out before the last attestation lapsed the vault all the same
+  const segments: Segment[] = [{ state: "active", from: anchor < lapse!.at ? anchor : lapse!.at }];
+  if (dueAt < lapse!.at) segments.push({ state: "attestation_due", from: dueAt });
+  segments.push({ state: "lapsed", from: lapse!.at });
+  let orphanedAt = cureEnds;
+  if (plan.product === "Permanence+") {
+    segments.push({ state: "in_escrow", from: cureEnds });
+    orphanedAt = addYears(cureEnds, plan.escrowYears ?? 3);
+  }
+  segments.push({ state: "orphaned", from: orphanedAt });
+  segments.push({ state: "released", from: addDays(orphanedAt, CLAIM_WINDOW_DAYS) });
+  return segments;
+}
+
+export type Evaluation = {
+  state: LifecycleState;
+  since: Date;
+  next: Segment | null;
+  nextHeartbeat: Date | null;
+  /** Segments entered after `current.since` up to now, oldest first; empty when nothing changed. */
+  transitions: Segment[];
+};
+
+/**
+ * Where the vault stands at `clock.now()`, given where it was last recorded.
+ * A final state is never left by the schedule, and the schedule never moves a
+ * vault backwards except through a newer attestation or a top-up that restored
+ * its funding.
+ */
+export function evaluate(
+  plan: LifecyclePlan,
+  current: { state: LifecycleState; since: Date },
+  lastAttestedAt: Date | null,
+  funding: Funding,
+  clock: Clock = systemClock
+): Evaluation {
+  const now = clock.now();
+  const segments = schedule(plan, lastAttestedAt, funding.exhaustedAt);
+  const deadline = nextHeartbeat(plan, lastAttestedAt);
+
+  if (FINAL_STATES.has(current.state)) {
+    // the claim window runs from the day the vault was orphaned, whatever happens after
+    const release: Segment | null =
+      current.state === "orphaned" ? { state: "released", from: addDays(current.since, CLAIM_WINDOW_DAYS) } : null;
+    const released = release !== null && release.from <= now;
+    return {
+      state: released ? release.state : current.state,
+      since: released ? release.from : current.since,
+      next: released ? null : release,
+      nextHeartbeat: null,
+      transitions: released ? [release] : [],
+    };
+  }
+
+  const passed = segments.filter((s) => s.from <= now);
+  const at = passed[passed.length - 1] ?? segments[0];
+  // the newest thing the owner did that can cure a lapse
+  const [restartedAt] = [lastAttestedAt, funding.restoredAt]
+    .filter((d): d is Date => d !== null && d > current.since)
+    .sort((a, b) => b.getTime() - a.getTime());
+  const restarted = restartedAt !== undefined && ORDER.indexOf(at.state) < ORDER.indexOf(current.state);
+  const transitions = restarted
+    ? [{ state: at.state, from: at.from > restartedAt ? at.from : restartedAt }]
+    : passed.filter((s) => s.from > current.since && ORDER.indexOf(s.state) > ORDER.indexOf(current.state));
+
+  return {
+    state: transitions.length ? at.state : current.state,
+    since: transitions.length ? transitions[transitions.length - 1].from : current.since,
+    next: segments.find((s) => s.from > now) ?? null,
+    nextHeartbeat: deadline,
+    transitions,
+  };
+}
@@ -0,0 +1,40 @@
+import { MANIFEST_VERSION, MERKLE_ALGORITHM, type Manifest } from "@fawv/shared";
+import type { UploadFile, UploadSession } from "./sessions";
+import { buildMerkle } from "./merkle";
+
+export function merkleEntries(files: UploadFile[]) {
+  return files.map((f) => ({ path: f.relPath, sha256: f.sha256! }));
+}
+
+// Server-side record of what a sealed session holds; shipped inside exports
+export function buildSessionManifest(session: UploadSession, files: UploadFile[]): Manifest {
+  const merkle = buildMerkle(merkleEntries(files));
+  return {
+    manifestVersion: MANIFEST_VERSION,
+    archiveId: session.id,
+    createdAt: session.createdAt,
+    sealedAt: session.sealedAt,
+    files: files.map((f) => ({
+      path: f.relPath,
+      sizeBytes: f.size,
+      sha256: f.sha256!,
+      mime: f.contentType,
+    })),
+    totals: {
+      files: files.length,
+      bytes: files.reduce((s, f) => s + f.size, 0),
+    },
+    // every leaf is listed so any single file can be checked against the root
+    merkle: {
+      algorithm: MERKLE_ALGORITHM,
+      root: session.merkleRoot ?? merkle.root, // sessions sealed before roots were stored
+      leaves: merkle.leaves,
+    },
+    encryption: session.encryption ?? undefined,
+  };
+}
+
+// `sha256sum -c` compatible listing
+export function checksumListing(files: { path: string; sha256: string | null }[]) {
+  return files.map((f) => `${f.sha256}  ${f.path}\n`).join("");
+}
@@ -0,0 +1,98 @@
+import { createHash } from "crypto";
+
+/**
+ * Archive hash for a vault: a binary Merkle tree over one leaf per file.
+ *
+ *   leaf = SHA-256(0x00 || utf8(path) || 0x00 || sha256(content))
+ *   node = SHA-256(0x01 || left || right)
+ *
+ * Leaves are ordered by the UTF-8 bytes of their path. An odd node at the end of
+ * a level is promoted unchanged rather than paired with itself, so no two file
+ * sets share a root. The prefixes keep a leaf from ever being read as a node.
+ * web/src/lib/merkle.ts implements the same scheme; change both or neither, and
+ * bump MERKLE_ALGORITHM in @fawv/shared when you do.
+ */
+
+export type MerkleEntry = { path: string; sha256: string };
+export type MerkleLeaf = MerkleEntry & { leaf: string };
+export type ProofStep = { position: "left" | "right"; hash: string };
+
+function sha256(...parts: Buffer[]) {
+  const h = createHash("sha256");
+  for (const p of parts) h.update(p);
+  return h.digest();
+}
+
+export function leafHash(e: MerkleEntry): Buffer {
+  return sha256(Buffer.from([0]), Buffer.from(e.path, "utf8"), Buffer.from([0]), Buffer.from(e.sha256, "hex"));
+}
+
+function nodeHash(left: Buffer, right: Buffer) {
+  return sha256(Buffer.from([1]), left, right);
+}
+
+function sortEntries(entries: MerkleEntry[]) {
+  return [...entries].sort((a, b) => Buffer.compare(Buffer.from(a.path, "utf8"), Buffer.from(b.path, "utf8")));
+}
+
+function levels(leaves: Buffer[]) {
+  const out = [leaves];
+  while (out[out.length - 1].length > 1) {
+    const prev = out[out.length - 1];
+    const next: Buffer[] = [];
+    for (let i = 0; i < prev.length; i += 2) {
+      next.push(i + 1 < prev.length ? nodeHash(prev[i], prev[i + 1]) : prev[i]);
+    }
+    out.push(next);
+  }
+  return out;
+}
+
+/** Root plus the ordered leaf list, as published in the manifest. */
+export function buildMerkle(entries: MerkleEntry[]): { root: string; leaves: MerkleLeaf[] } {
+  if (!entries.length) throw new Error("merkle tree needs at least one file");
+  const sorted = sortEntries(entries);
+  const leaves = sorted.map(leafHash);
+  const tree = levels(leaves);
+  return {
+    root: tree[tree.length - 1][0].toString("hex"),
+    leaves: sorted.map((e, i) => ({ path: e.path, sha256: e.sha256, leaf: leaves[i].toString("hex") })),
+  };
+}
+
+/**
+ * Sibling hashes from a file's leaf up to the root. Reveals nothing about the
+ * other files beyond opaque hashes, so one file can be proven on its own.
+ */
+export function inclusionProof(entries: MerkleEntry[], path: string) {
+  const sorted = sortEntries(entries);
+  let index = sorted.findIndex((e) => e.path === path);
+  if (index < 0) return null;
+
+  const tree = levels(sorted.map(leafHash));
+  const leafIndex = index;
+  const proof: ProofStep[] = [];
+  for (const level of tree.slice(0, -1)) {
+    const sibling = index ^ 1;
+    // a promoted odd node has no sibling at this level
+    if (sibling < level.length) {
+      proof.push({ position: sibling < index ? "left" : "right", hash: level[sibling].toString("hex") });
+    }
+    index >>= 1;
+  }
+  return {
+    index: leafIndex,
+    leafCount: sorted.length,
+    leaf: tree[0][leafIndex].toString("hex"),
+    proof,
+  };
+}
+
+export function verifyProof(entry: MerkleEntry, proof: ProofStep[], root: string) {
+  let h = leafHash(entry);
+  for (const step of proof) {
+    const sibling = Buffer.from(step.hash, "hex");
+    h = step.position === "left" ? nodeHash(sibling, h) : nodeHash(h, sibling);
+  }
+  return h.toString("hex") === root.toLowerCase();
+}
@@ -0,0 +1,414 @@
+import crypto from "crypto";
+import type {
+  Endowment,
+  Payment,
+  PaymentPurpose,
+  PaymentStatus,
+  Quote,
+  Receipt,
+  ReceiptKind,
+  ReceiptLine,
+} from "@fawv/shared";
+import db from "../db";
+import { notify } from "../notify";
+import payments, { PaymentDeclinedError, type PaymentProvider } from "../payments";
+import { lockEndowment } from "./endowment";
+import { topUpEndowment } from "./ledger";
+import { systemClock, type Clock } from "./lifecycle";
+import { getOwnedQuote } from "./quotes";
+import { sessionTotals } from "./sessions";
+import { getVault, type Vault } from "./vaults";
+
+/**
+ * Checkout: a quote's price, and the endowment the owner chose, is authorized,
+ * then captured, and may be refunded in full. Top-ups to a minted vault's
+ * endowment are paid the same way and posted to its ledger on capture. Each
+ * capture and refund issues a numbered receipt. Sealing an upload and minting
+ * its vault both need a captured payment for the quote (see sessionPaid and
+ * quotePaid in ./quotes).
+ *
+ * A payment is claimed before every provider call, so two requests racing on
+ * it can't authorize, capture or refund it twice; the loser gets
+ * PaymentInProgressError. Every call carries the payment's idempotency key,
+ * one per checkout attempt, so a call repeated after a crash is answered the
+ * same way by the provider.
+ */
+
+// A claim older than this was abandoned (the server stopped mid-call) and may be taken over
+const CLAIM_TIMEOUT_MS = 2 * 60 * 1000;
+
+/** Another request is talking to the provider about this payment right now. */
+export class PaymentInProgressError extends Error {
+  constructor(readonly paymentId: string) {
+    super(`payment ${paymentId} is in progress`);
+    this.name = "PaymentInProgressError";
+  }
+}
+
+type ProviderCall = "authorize" | "capture" | "refund";
+
+type PaymentRow = {
+  id: string;
+  user_id: string;
+  purpose: PaymentPurpose;
+  quote_id: string | null;
+  vault_id: string | null;
+  endowment_json: string | null;
+  provider: string;
+  provider_ref: string | null;
+  idempotency_key: string;
+  operation: ProviderCall | null;
+  amount_cents: number;
+  status: PaymentStatus;
+  failure_reason: string | null;
+  created_at: string;
+  captured_at: string | null;
+  refunded_at: string | null;
+};
+
+type ReceiptRow = { id: number; kind: ReceiptKind; amount_cents: number; lines_json: string; issued_at: string };
+
+function receiptNumber(id: number) {
+  return `FAWV-${String(id).padStart(6, "0")}`;
+}
+
+function receiptsOf(paymentId: string): Receipt[] {
+  const rows = db.prepare("SELECT * FROM receipts WHERE payment_id = ? ORDER BY id").all(paymentId) as ReceiptRow[];
+  return rows.map((r) => ({
+    number: receiptNumber(r.id),
+    kind: r.kind,
+    amountCents: r.amount_cents,
+    currency: "USD",
+    lines: JSON.parse(r.lines_json) as ReceiptLine[],
+    issuedAt: r.issued_at,
+  }));
+}
+
+function endowmentOf(r: PaymentRow): Endowment | null {
+  return r.endowment_json ? (JSON.parse(r.endowment_json) as Endowment) : null;
+}
+
+function toPayment(r: PaymentRow): Payment {
+  return {
+    id: r.id,
+    purpose: r.purpose,
+    quoteId: r.quote_id,
+    vaultId: r.vault_id,
+    endowment: endowmentOf(r),
+    provider: r.provider,
+    amountCents: r.amount_cents,
+    currency: "USD",
+    status: r.status,
+    failureReason: r.failure_reason,
+    createdAt: r.created_at,
+    capturedAt: r.captured_at,
+    refundedAt: r.refunded_at,
+    receipts: receiptsOf(r.id),
+  };
+}
+
+function paymentRow(id: string): PaymentRow {
+  return db.prepare("SELECT * FROM payments WHERE id = ?").get(id) as PaymentRow;
+}
+
+/** A payment the given user made, or null (missing and foreign payments look the same). */
+export function getOwnedPayment(id: string, userId: string): Payment | null {
+  const row = db.prepare("SELECT * FROM payments WHERE id = ? AND user_id = ?").get(id, userId) as PaymentRow | undefined;
+  return row ? toPayment(row) : null;
+}
+
+function endowmentLine(description: string, e: Endowment): ReceiptLine {
+  return {
+    description: `${description}, ${e.eth} ETH at $${e.usdPerEth.toFixed(2)}/ETH`,
+    amountCents: Math.round(e.usd * 100),
+  };
+}
+
+// What the payment charges for, line by line; its amount is their sum
+function chargeLines(q: Quote | null, endowment: Endowment | null): ReceiptLine[] {
+  const lines: ReceiptLine[] = [];
+  if (q) {
+    const plan =
+      q.product + (q.escrowYears ? ` (${q.escrowYears}-year escrow)` : "") + (q.redundancy === "dual" ? ", dual-rail" : "");
+    lines.push(
+      { description: `Tokenization, ${q.price.gb} GB`, amountCents: Math.round(q.price.tokenization * 100) },
+      {
+        description: `${plan} storage, ${q.price.gb} GB (price book ${q.priceBook})`,
+        amountCents: Math.round(q.price.storage * 100),
+      }
+    );
+  }
+  if (endowment) lines.push(endowmentLine(q ? "Endowment" : "Endowment top-up", endowment));
+  return lines;
+}
+
+function linesOf(r: PaymentRow): ReceiptLine[] {
+  return chargeLines(r.quote_id ? getOwnedQuote(r.quote_id, r.user_id) : null, endowmentOf(r));
+}
+
+function dollars(cents: number) {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+function issueReceipt(paymentId: string, kind: ReceiptKind, lines: ReceiptLine[], clock: Clock): Receipt {
+  const amountCents = Math.abs(lines.reduce((sum, l) => sum + l.amountCents, 0));
+  const issuedAt = clock.now().toISOString();
+  const { lastInsertRowid } = db
+    .prepare("INSERT INTO receipts (payment_id, kind, amount_cents, lines_json, issued_at) VALUES (?, ?, ?, ?, ?)")
+    .run(paymentId, kind, amountCents, JSON.stringify(lines), issuedAt);
+  return { number: receiptNumber(Number(lastInsertRowid)), kind, amountCents, currency: "USD", lines, issuedAt };
+}
+
+function sendReceipt(userId: string, r: Receipt) {
+  notify({ userId }, "payment_receipt", {
+    number: r.number,
+    kind: r.kind,
+    amount: dollars(r.amountCents),
+    lines: r.lines.map((l) => ({ description: l.description, amount: dollars(l.amountCents) })),
+    issuedAt: r.issuedAt,
+  });
+}
+
+// Takes the payment for one provider call, if it is still `from` and no one else holds it
+function claim(id: string, from: PaymentStatus, call: ProviderCall, clock: Clock): boolean {
+  const now = clock.now();
+  const stale = new Date(now.getTime() - CLAIM_TIMEOUT_MS).toISOString();
+  return (
+    db
+      .prepare(
+        `UPDATE payments SET operation = ?, operation_at = ?
+         WHERE id = ? AND status = ? AND (operation IS NULL OR operation_at < ?)`
+      )
+      .run(call, now.toISOString(), id, from, stale).changes === 1
+  );
+}
+
+function release(id: string) {
+  db.prepare("UPDATE payments SET operation = NULL, operation_at = NULL WHERE id = ?").run(id);
+}
+
+type Purchase = { purpose: PaymentPurpose; quoteId: string | null; vaultId: string | null; endowment: Endowment | null };
+
+// Records a payment the provider hasn't been asked about yet; the key defaults to its id
+function insertPayment(
+  userId: string,
+  what: Purchase,
+  lines: ReceiptLine[],
+  idempotencyKey: string | null,
+  provider: PaymentProvider,
+  clock: Clock
+): PaymentRow {
+  const id = crypto.randomUUID();
+  const now = clock.now().toISOString();
+  db.prepare(
+    `INSERT INTO payments (id, user_id, purpose, quote_id, vault_id, endowment_json, provider, idempotency_key,
+       amount_cents, status, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'processing', ?, ?)`
+  ).run(
+    id,
+    userId,
+    what.purpose,
+    what.quoteId,
+    what.vaultId,
+    what.endowment ? JSON.stringify(what.endowment) : null,
+    provider.name,
+    idempotencyKey ?? id,
+    lines.reduce((sum, l) => sum + l.amountCents, 0),
+    now,
+    now
+  );
+  return paymentRow(id);
+}
+
+// Asks the provider to hold the amount of a "processing" payment and records the outcome; a
+// decline is stored as "failed", any other error leaves it processing for a retry to pick up
+async function authorize(
+  row: PaymentRow,
+  description: string,
+  paymentMethod: string | undefined,
+  provider: PaymentProvider,
+  clock: Clock
+): Promise<Payment> {
+  if (!claim(row.id, "processing", "authorize", clock)) throw new PaymentInProgressError(row.id);
+  let ref: string | null = null;
+  let failure: string | null = null;
+  try {
+    ({ ref } = await provider.authorize({
+      amountCents: row.amount_cents,
+      currency: "USD",
+      paymentMethod,
+      idempotencyKey: row.idempotency_key,
+      description,
+    }));
+  } catch (err) {
+    if (!(err instanceof PaymentDeclinedError)) {
+      release(row.id);
+      throw err;
+    }
+    failure = err.reason;
+  }
+  db.prepare(
+    `UPDATE payments SET status = ?, provider_ref = ?, failure_reason = ?, operation = NULL, operation_at = NULL,
+       updated_at = ? WHERE id = ?`
+  ).run(failure ? "failed" : "requires_capture", ref, failure, clock.now().toISOString(), row.id);
+  return toPayment(paymentRow(row.id));
+}
+
+function livePayment(quoteId: string): PaymentRow | undefined {
+  return db
+    .prepare("SELECT * FROM payments WHERE quote_id = ? AND status IN ('processing', 'requires_capture', 'captured')")
+    .get(quoteId) as PaymentRow | undefined;
+}
+
+/**
+ * Authorizes the quote's price plus `endowmentUsd`, converted at a rate locked
+ * now. Asking again for a quote that already has a live or captured payment
+ * returns that payment, so a retried checkout never charges twice; the caller
+ * compares its endowment with the one asked for. A decline is recorded and
+ * returned with status "failed", and the next attempt gets a new key. Rejects
+ * with RateUnavailableError when the endowment can't be locked.
+ */
+export async function createPayment(
+  userId: string,
+  quote: Quote,
+  opts: { endowmentUsd?: number; paymentMethod?: string } = {},
+  provider: PaymentProvider = payments,
+  clock: Clock = systemClock
+): Promise<Payment> {
+  let row = livePayment(quote.id);
+  if (!row) {
+    const endowment = opts.endowmentUsd ? await lockEndowment(userId, opts.endowmentUsd, undefined, clock) : null;
+    row = db.transaction(() => {
+      // another request may have started paying while the rate was locked
+      const existing = livePayment(quote.id);
+      if (existing) return existing;
+      const { attempts } = db.prepare("SELECT COUNT(*) AS attempts FROM payments WHERE quote_id = ?").get(quote.id) as {
+        attempts: number;
+      };
+      const what = { purpose: "checkout" as const, quoteId: quote.id, vaultId: null, endowment };
+      return insertPayment(userId, what, chargeLines(quote, endowment), `checkout_${quote.id}_${attempts + 1}`, provider, clock);
+    })();
+  }
+  if (row.status !== "processing") return toPayment(row);
+  return authorize(row, `FAWV ${quote.product} vault, quote ${quote.id}`, opts.paymentMethod, provider, clock);
+}
+
+/** Authorizes adding `endowment` to a minted vault's fund; capturing it posts the top-up to the ledger. */
+export function createTopUp(
+  userId: string,
+  v: Vault,
+  endowment: Endowment,
+  paymentMethod?: string,
+  provider: PaymentProvider = payments,
+  clock: Clock = systemClock
+): Promise<Payment> {
+  const what = { purpose: "top_up" as const, quoteId: null, vaultId: v.id, endowment };
+  const row = insertPayment(userId, what, chargeLines(null, endowment), null, provider, clock);
+  return authorize(row, `FAWV endowment top-up, vault ${v.id}`, paymentMethod, provider, clock);
+}
+
+/**
+ * Takes an authorized payment and issues its receipt; capturing twice is a
+ * no-op. A top-up is posted to its vault's ledger in the same transaction, so
+ * the fund only ever holds money that was taken.
+ */
+export async function capturePayment(
+  p: Payment,
+  userId: string,
+  provider: PaymentProvider = payments,
+  clock: Clock = systemClock
+): Promise<Payment> {
+  if (p.status === "captured") return p;
+  if (!claim(p.id, "requires_capture", "capture", clock)) {
+    const current = toPayment(paymentRow(p.id));
+    if (current.status === "captured") return current;
+    throw new PaymentInProgressError(p.id);
+  }
+  const row = paymentRow(p.id);
+  try {
+    await provider.capture(row.provider_ref!, row.amount_cents, `${row.idempotency_key}_capture`);
+  } catch (err) {
+    release(p.id);
+    throw err;
+  }
+  const now = clock.now().toISOString();
+  const receipt = db.transaction(() => {
+    db.prepare(
+      `UPDATE payments SET status = 'captured', captured_at = ?, operation = NULL, operation_at = NULL, updated_at = ?
+       WHERE id = ?`
+    ).run(now, now, p.id);
+    if (row.purpose === "top_up") topUpEndowment(getVault(row.vault_id!)!, endowmentOf(row)!, clock);
+    return issueReceipt(p.id, "payment", linesOf(row), clock);
+  })();
+  sendReceipt(userId, receipt);
+  return toPayment(paymentRow(p.id));
+}
+
+/** Gives a captured payment back in full and issues a refund receipt. */
+export async function refundPayment(
+  p: Payment,
+  userId: string,
+  reason: string | undefined,
+  provider: PaymentProvider = payments,
+  clock: Clock = systemClock
+): Promise<Payment> {
+  if (!claim(p.id, "captured", "refund", clock)) throw new PaymentInProgressError(p.id);
+  const row = paymentRow(p.id);
+  let ref: string;
+  try {
+    ({ ref } = await provider.refund(row.provider_ref!, row.amount_cents, `${row.idempotency_key}_refund`));
+  } catch (err) {
+    release(p.id);
+    throw err;
+  }
+  const now = clock.now().toISOString();
+  const original = p.receipts.find((r) => r.kind === "payment");
+  const description = `Refund${original ? ` of ${original.number}` : ""}${reason ? `: ${reason}` : ""}`;
+  const receipt = db.transaction(() => {
+    db.prepare(
+      `UPDATE payments SET status = 'refunded', refund_ref = ?, refunded_at = ?, operation = NULL, operation_at = NULL,
+         updated_at = ? WHERE id = ?`
+    ).run(ref, now, now, p.id);
+    return issueReceipt(p.id, "refund", [{ description, amountCents: -p.amountCents }], clock);
+  })();
+  sendReceipt(userId, receipt);
+  return toPayment(paymentRow(p.id));
+}
+
+/** The endowment paid for with the quote, or null if the payment had none (or isn't captured). */
+export function paidEndowment(quoteId: string): Endowment | null {
+  const row = db.prepare("SELECT * FROM payments WHERE quote_id = ? AND status = 'captured'").get(quoteId) as
+    | PaymentRow
+    | undefined;
+  return row ? endowmentOf(row) : null;
+}
+
+/** Whether a minted vault was bought with the quote; its payment can no longer be refunded. */
+export function quoteMinted(quoteId: string): boolean {
+  return !!db.prepare("SELECT 1 FROM vaults WHERE quote_id = ? AND status = 'minted'").get(quoteId);
+}
+
+/**
+ * Whether the session may be sealed: a payment (other than `except`) was
+ * captured for one of its quotes, and that quote priced exactly the bytes the
+ * session now holds.
+ */
+export function sessionPaid(sessionId: string, except = ""): boolean {
+  const { bytes } = sessionTotals(sessionId);
+  return !!db
+    .prepare(
+      `SELECT 1 FROM payments p JOIN quotes q ON q.id = p.quote_id
+       WHERE q.session_id = ? AND q.bytes = ? AND p.status = 'captured' AND p.id != ?`
+    )
+    .get(sessionId, bytes, except);
+}
+
+/** Whether the payment is all that pays for its sealed upload, so refunding it would leave stored files unpaid. */
+export function paysForSeal(p: Payment): boolean {
+  const sealed = db
+    .prepare(
+      `SELECT s.id FROM quotes q JOIN upload_sessions s ON s.id = q.session_id WHERE q.id = ? AND s.status = 'sealed'`
+    )
+    .get(p.quoteId) as { id: string } | undefined;
+  return !!sealed && sessionPaid(sealed.id) && !sessionPaid(sealed.id, p.id);
+}
@@ -0,0 +1,78 @@
+import crypto from "crypto";
+import type {
+  FixityHistory,
+  PreservationEvent,
+  PreservationEventOutcome,
+  PreservationEventType,
+  StorageCopy,
+} from "@fawv/shared";
+import db from "../db";
+import { systemClock, type Clock } from "./lifecycle";
+
+// PREMIS linkingAgent values: which part of the API acted on the object
+export const AGENTS = {
+  scrubber: "fawv-api/fixity-scrubber",
+  replication: "fawv-api/replication",
+} as const;
+
+type EventRow = {
+  id: string;
+  event_type: PreservationEventType;
+  copy: StorageCopy;
+  outcome: PreservationEventOutcome;
+  detail: string | null;
+  agent: string;
+  at: string;
+  rel_path: string;
+  sha256: string;
+};
+
+function toEvent(r: EventRow): PreservationEvent {
+  return {
+    eventIdentifier: r.id,
+    eventType: r.event_type,
+    eventDateTime: r.at,
+    eventOutcome: r.outcome,
+    eventOutcomeDetail: r.detail,
+    linkingObject: { path: r.rel_path, sha256: r.sha256, copy: r.copy },
+    linkingAgent: r.agent,
+  };
+}
+
+export function recordEvent(
+  e: {
+    fileId: number;
+    type: PreservationEventType;
+    copy: StorageCopy;
+    outcome: PreservationEventOutcome;
+    detail?: string;
+    agent: string;
+  },
+  clock: Clock = systemClock
+) {
+  db.prepare(
+    `INSERT INTO preservation_events (id, file_id, event_type, copy, outcome, detail, agent, at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(crypto.randomUUID(), e.fileId, e.type, e.copy, e.outcome, e.detail ?? null, e.agent, clock.now().toISOString());
+}
+
+/** A session's preservation log, newest first, with how much of it the scrubber has covered. */
+export function fixityHistory(sessionId: string, limit = 200): FixityHistory {
+  const objects = db
+    .prepare(
+      `SELECT COUNT(*) AS total, COUNT(fixity_checked_at) AS checked, MAX(fixity_checked_at) AS lastCheckedAt
+       FROM upload_files WHERE session_id = ?`
+    )
+    .get(sessionId) as { total: number; checked: number; lastCheckedAt: string | null };
+  const rows = db
+    .prepare(
+      `SELECT e.*, f.rel_path, f.sha256 FROM preservation_events e JOIN upload_files f ON f.id = e.file_id
+       WHERE f.session_id = ? ORDER BY e.at DESC, e.rowid DESC LIMIT ?`
+    )
+    .all(sessionId, limit) as EventRow[];
+  return {
+    objects: { total: objects.total, checked: objects.checked },
+    lastCheckedAt: objects.lastCheckedAt,
+    events: rows.map(toEvent),
+  };
+}
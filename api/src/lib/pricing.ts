@@ -0,0 +1,69 @@
+import type { EscrowYears, PriceBook, Product, Redundancy, VaultPrice } from "@fawv/shared";
+import { systemClock, type Clock } from "./lifecycle";
+
+// Published price books, oldest first. Never edit one that quotes may point at;
+// append a new version with a later effectiveFrom instead.
+export const PRICE_BOOKS: readonly PriceBook[] = [
+  {
+    version: "2025-01",
+    effectiveFrom: "2025-01-01T00:00:00.000Z",
+    currency: "USD",
+    tokenizationPerGB: 0.1,
+    dualRailFactor: 1.6,
+    products: {
+      Permanence: { storagePerGB: 0.6, annualEAS: 20 },
+      "Permanence+": { storagePerGBBase: 0.5, perYearAdderPerGB: 0.2 },
+      Heirloom: { storagePerGB: 1.2 }, // 100-year guarantee, no EAS required
+    },
+  },
+];
+
+export type Plan = { product: Product; escrowYears: EscrowYears | null; redundancy: Redundancy };
+
+/** The book in force at the clock's time. */
+export function currentPriceBook(clock: Clock = systemClock): PriceBook {
+  const now = clock.now().toISOString();
+  const book = PRICE_BOOKS.filter((b) => b.effectiveFrom <= now).at(-1);
+  if (!book) throw new Error("no price book in force");
+  return book;
+}
+
+export function getPriceBook(version: string): PriceBook | null {
+  return PRICE_BOOKS.find((b) => b.version === version) ?? null;
+}
+
+// Billed in whole GB, at least one
+export function billedGB(bytes: number) {
+  return Math.max(1, Math.ceil(bytes / 1024 ** 3));
+}
+
+function cents(usd: number) {
+  return Math.round(usd * 100) / 100;
+}
+
+/** Prices storing `bytes` under the plan; amounts are rounded to cents. */
+export function priceFor(book: PriceBook, plan: Plan, bytes: number): VaultPrice {
+  const gb = billedGB(bytes);
+  const tokenization = cents(gb * book.tokenizationPerGB);
+  let perGB: number;
+  let notes: string;
+  if (plan.product === "Permanence") {
+    const p = book.products.Permanence;
+    perGB = p.storagePerGB;
+    notes = `Requires annual Evidence of Active Stewardship (EAS) — $${p.annualEAS.toFixed(2)}/yr.`;
+  } else if (plan.product === "Permanence+") {
+    const p = book.products["Permanence+"];
+    const years = plan.escrowYears ?? 3;
+    perGB = p.storagePerGBBase + years * p.perYearAdderPerGB;
+    notes = `${years}-year escrow window with grace; annual EAS still required.`;
+  } else {
+    perGB = book.products.Heirloom.storagePerGB;
+    notes = "100-year guarantee. No annual EAS required.";
+  }
+  if (plan.redundancy === "dual") {
+    perGB *= book.dualRailFactor;
+    notes += " Dual-rail: every object is kept and checked on two independent storage backends.";
+  }
+  const storage = cents(gb * perGB);
+  return { gb, tokenization, storage, subtotal: cents(tokenization + storage), notes };
+}
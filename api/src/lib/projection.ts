@@ -0,0 +1,118 @@
+import type { EndowmentProjection, ProjectEndowmentBody, VolatilityScenario } from "@fawv/shared";
+import { storageCostCents } from "./ledger";
+import { HEIRLOOM_GUARANTEE_YEARS } from "./lifecycle";
+import { billedGB } from "./pricing";
+
+/**
+ * Endowment sufficiency simulator. Pure and seeded: the same request always
+ * gets the same answer, so a projection shown at checkout can be reproduced.
+ *
+ * Every simulated year starts by paying that year's storage from the fund (at
+ * the ledger's cost, billed by the GB like the price); what is left then grows
+ * by the discount rate, swung up or down by the scenario's volatility. A path
+ * fails the first year the fund can't pay. Storage costs what the ledger
+ * charges, the same every year, unless the request asks what happens if it
+ * gets cheaper by a decline rate.
+ */
+
+export const PROJECTION_PATHS = 2000;
+
+export const DEFAULT_SCENARIOS: readonly VolatilityScenario[] = [
+  { name: "low", volatility: 0.2 },
+  { name: "medium", volatility: 0.5 },
+  { name: "high", volatility: 0.8 },
+];
+
+// mulberry32: small and seedable, plenty for a simulation
+function prng(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal draw (Box-Muller)
+function normal(random: () => number) {
+  const u = 1 - random(); // in (0, 1], so the log is finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+function dollars(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+function percentile(sorted: Float64Array, p: number) {
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+export function projectEndowment(body: ProjectEndowmentBody, paths = PROJECTION_PATHS): EndowmentProjection {
+  const redundancy = body.redundancy ?? "single";
+  const horizon = body.horizonYears ?? HEIRLOOM_GUARANTEE_YEARS;
+  const decline = body.storageCostDecline ?? 0;
+  const rate = body.discountRate ?? 0.02;
+  const seed = body.seed ?? 1;
+  const firstYear = (storageCostCents(body.bytes, redundancy) * 12) / 100;
+  const cost = (year: number) => firstYear * (1 - decline) ** year;
+
+  let required = 0;
+  for (let t = 0; t < horizon; t++) required += cost(t) / (1 + rate) ** t;
+
+  const scenarios = (body.scenarios ?? DEFAULT_SCENARIOS).map((s) => {
+    // every scenario draws the same numbers, so they differ only by their volatility
+    const random = prng(seed);
+    // the median path grows slower than the mean: this keeps the mean return at `rate`
+    const drift = Math.log(1 + rate) - s.volatility ** 2 / 2;
+    const values = Array.from({ length: horizon + 1 }, () => new Float64Array(paths));
+    let covered = 0;
+    for (let p = 0; p < paths; p++) {
+      let fund = body.endowmentUsd;
+      let paying = true;
+      values[0][p] = fund;
+      for (let t = 0; t < horizon; t++) {
+        const z = normal(random);
+        if (paying) {
+          fund -= cost(t);
+          if (fund < 0) {
+            fund = 0;
+            paying = false;
+          } else {
+            fund *= Math.exp(drift + s.volatility * z);
+          }
+        }
+        values[t + 1][p] = fund;
+      }
+      if (paying) covered++;
+    }
+    return {
+      ...s,
+      probability: covered / paths,
+      years: values.map((column, year) => {
+        column.sort();
+        return {
+          year,
+          p10: dollars(percentile(column, 0.1)),
+          p50: dollars(percentile(column, 0.5)),
+          p90: dollars(percentile(column, 0.9)),
+        };
+      }),
+    };
+  });
+
+  return {
+    billedGB: billedGB(body.bytes),
+    redundancy,
+    endowmentUsd: body.endowmentUsd,
+    horizonYears: horizon,
+    storageCostDecline: decline,
+    discountRate: rate,
+    firstYearCostUsd: dollars(firstYear),
+    requiredUsd: dollars(required),
+    paths,
+    seed,
+    scenarios,
+  };
+}
@@ -0,0 +1,162 @@
+import crypto from "crypto";
+import type { EscrowYears, Product, Quote, Redundancy, VaultPrice } from "@fawv/shared";
+import db from "../db";
+import { systemClock, type Clock } from "./lifecycle";
+import { currentPriceBook, priceFor, type Plan } from "./pricing";
+import { sessionTotals } from "./sessions";
+
+const QUOTE_TTL_MS = Number(process.env.QUOTE_TTL_MINUTES || 30) * 60 * 1000;
+// without a fixed secret, quotes issued before a restart stop validating
+const SECRET = process.env.QUOTE_SIGNING_SECRET || crypto.randomBytes(32).toString("hex");
+
+type QuoteRow = {
+  id: string;
+  user_id: string;
+  session_id: string;
+  price_book: string;
+  product: Product;
+  escrow_years: EscrowYears | null;
+  redundancy: Redundancy;
+  bytes: number;
+  price_json: string;
+  created_at: string;
+  expires_at: string;
+  signature: string;
+};
+
+function toQuote(r: QuoteRow): Quote {
+  return {
+    id: r.id,
+    priceBook: r.price_book,
+    sessionId: r.session_id,
+    product: r.product,
+    escrowYears: r.escrow_years,
+    redundancy: r.redundancy,
+    bytes: r.bytes,
+    price: JSON.parse(r.price_json) as VaultPrice,
+    createdAt: r.created_at,
+    expiresAt: r.expires_at,
+    signature: r.signature,
+  };
+}
+
+// Covers every term of the offer, so an edited row no longer validates
+function sign(userId: string, q: Omit<Quote, "signature">) {
+  const terms = [
+    q.id,
+    userId,
+    q.sessionId,
+    q.priceBook,
+    q.product,
+    q.escrowYears,
+    q.redundancy,
+    q.bytes,
+    q.price,
+    q.createdAt,
+    q.expiresAt,
+  ];
+  return crypto.createHmac("sha256", SECRET).update(JSON.stringify(terms)).digest("base64url");
+}
+
+/** Prices the session's stored bytes under the plan with the current book and signs the result. */
+export function createQuote(userId: string, sessionId: string, plan: Plan, clock: Clock = systemClock): Quote {
+  const book = currentPriceBook(clock);
+  const { bytes } = sessionTotals(sessionId);
+  const now = clock.now();
+  const terms = {
+    id: crypto.randomUUID(),
+    priceBook: book.version,
+    sessionId,
+    product: plan.product,
+    escrowYears: plan.product === "Permanence+" ? plan.escrowYears : null,
+    redundancy: plan.redundancy,
+    bytes,
+    price: priceFor(book, plan, bytes),
+    createdAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + QUOTE_TTL_MS).toISOString(),
+  };
+  const quote = { ...terms, signature: sign(userId, terms) };
+  db.prepare(
+    `INSERT INTO quotes (id, user_id, session_id, price_book, product, escrow_years, redundancy, bytes, price_json,
+       created_at, expires_at, signature)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    quote.id,
+    userId,
+    quote.sessionId,
+    quote.priceBook,
+    quote.product,
+    quote.escrowYears,
+    quote.redundancy,
+    quote.bytes,
+    JSON.stringify(quote.price),
+    quote.createdAt,
+    quote.expiresAt,
+    quote.signature
+  );
+  return quote;
+}
+
+/** A quote the given user asked for, or null (missing and foreign quotes look the same). */
+export function getOwnedQuote(id: string, userId: string): Quote | null {
+  const row = db.prepare("SELECT * FROM quotes WHERE id = ? AND user_id = ?").get(id, userId) as QuoteRow | undefined;
+  return row ? toQuote(row) : null;
+}
+
+/** Whether a captured payment covers the quote; see lib/payments. */
+export function quotePaid(quoteId: string): boolean {
+  return !!db.prepare("SELECT 1 FROM payments WHERE quote_id = ? AND status = 'captured'").get(quoteId);
+}
+
+export type QuoteCheck =
+  | { ok: true; quote: Quote }
+  | { ok: false; status: number; error: string; fields?: string[] };
+
+/**
+ * Whether `quoteId` is the user's own quote with its signature intact and
+ * still open. A paid quote doesn't expire: its offer was taken up.
+ */
+export function validQuote(quoteId: string, userId: string, clock: Clock = systemClock): QuoteCheck {
+  const quote = getOwnedQuote(quoteId, userId);
+  if (!quote) return { ok: false, status: 404, error: "unknown_quote" };
+  const { signature, ...terms } = quote;
+  const expected = sign(userId, terms);
+  if (signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    return { ok: false, status: 409, error: "quote_invalid" };
+  }
+  if (new Date(quote.expiresAt) <= clock.now() && !quotePaid(quote.id)) {
+    return { ok: false, status: 409, error: "quote_expired" };
+  }
+  return { ok: true, quote };
+}
+
+/**
+ * Whether `quoteId` may pay for `plan` on the session: a valid quote for
+ * exactly these terms and the session's current size, and not already taken
+ * by another vault. `vaultId` is the vault being re-priced, if any.
+ */
+export function checkQuote(
+  quoteId: string,
+  userId: string,
+  sessionId: string,
+  plan: Plan,
+  vaultId: string | null,
+  clock: Clock = systemClock
+): QuoteCheck {
+  const valid = validQuote(quoteId, userId, clock);
+  if (!valid.ok) return valid;
+  const { quote } = valid;
+
+  const differs = [
+    quote.sessionId !== sessionId && "sessionId",
+    quote.bytes !== sessionTotals(sessionId).bytes && "bytes",
+    quote.product !== plan.product && "product",
+    quote.escrowYears !== (plan.product === "Permanence+" ? plan.escrowYears : null) && "escrowYears",
+    quote.redundancy !== plan.redundancy && "redundancy",
+  ].filter((f): f is string => !!f);
+  if (differs.length) return { ok: false, status: 409, error: "quote_mismatch", fields: differs };
+
+  const taken = db.prepare("SELECT id FROM vaults WHERE quote_id = ?").get(quoteId) as { id: string } | undefined;
+  if (taken && taken.id !== vaultId) return { ok: false, status: 409, error: "quote_used" };
+  return { ok: true, quote };
+}
@@ -0,0 +1,24 @@
+import type { ByteRange } from "../storage";
+
+/**
+ * Parses a single-range `Range: bytes=...` header against an object size.
+ * Returns null when there is no usable range (serve the whole object) and
+ * "unsatisfiable" when the range lies outside the object (answer 416).
+ */
+export function parseRange(header: string | undefined, size: number): ByteRange | null | "unsatisfiable" {
+  if (!header) return null;
+  const m = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!m || (!m[1] && !m[2])) return null; // multi-range or malformed: ignore, per RFC 9110
+
+  if (!m[1]) {
+    // suffix range: the last N bytes
+    const n = Number(m[2]);
+    if (n === 0) return "unsatisfiable";
+    return { start: Math.max(0, size - n), end: size - 1 };
+  }
+
+  const start = Number(m[1]);
+  const end = m[2] ? Math.min(Number(m[2]), size - 1) : size - 1;
+  if (start >= size || start > end) return "unsatisfiable";
+  return { start, end };
+}
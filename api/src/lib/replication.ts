@@ -0,0 +1,209 @@
+import type { Replication, ReplicaStatus } from "@fawv/shared";
+import db from "../db";
+import storage, { mirror, type StorageBackend } from "../storage";
+import { verifyObject } from "./integrity";
+import { systemClock, type Clock } from "./lifecycle";
+import { AGENTS, recordEvent } from "./preservation";
+import type { Vault } from "./vaults";
+
+// A failed copy is retried after 1, 2, 4, ... minutes, at most every 6 hours; never given up
+const RETRY_BASE_MS = 60 * 1000;
+const MAX_RETRY_MS = 6 * 60 * 60 * 1000;
+// Copies can be large; long enough that a slow one isn't picked up twice
+const LEASE_MS = 30 * 60 * 1000;
+const BATCH_SIZE = 20;
+
+type DueRow = {
+  file_id: number;
+  attempts: number;
+  next_attempt_at: string;
+  object_key: string;
+  size: number;
+  content_type: string;
+  sha256: string;
+};
+
+/** Adds a pending replica for every object of a dual vault that doesn't have one yet. */
+export function enqueueReplicas(clock: Clock = systemClock): number {
+  const now = clock.now().toISOString();
+  return db
+    .prepare(
+      `INSERT INTO replicas (file_id, next_attempt_at, updated_at)
+       SELECT f.id, @now, @now FROM upload_files f JOIN vaults v ON v.session_id = f.session_id
+       WHERE v.redundancy = 'dual' AND f.sha256 IS NOT NULL
+       ON CONFLICT (file_id) DO NOTHING`
+    )
+    .run({ now }).changes;
+}
+
+/** Forgets a session's replicas and removes the mirror's copies (best effort), e.g. when a draft goes back to single. */
+export function dropReplicas(sessionId: string) {
+  const keys = db
+    .prepare(
+      `SELECT f.object_key FROM replicas r JOIN upload_files f ON f.id = r.file_id WHERE f.session_id = ?`
+    )
+    .all(sessionId) as { object_key: string }[];
+  db.prepare("DELETE FROM replicas WHERE file_id IN (SELECT id FROM upload_files WHERE session_id = ?)").run(sessionId);
+  const target = mirror;
+  if (!target) return;
+  for (const { object_key } of keys) {
+    target.delete(object_key).catch((err) => console.error("[replication]", err));
+  }
+}
+
+/** Sends a replica back through the worker, e.g. after the scrubber found the mirror's copy damaged. */
+export function requeueReplica(fileId: number, clock: Clock = systemClock) {
+  const now = clock.now().toISOString();
+  db.prepare("UPDATE replicas SET status = 'pending', next_attempt_at = ?, updated_at = ? WHERE file_id = ?").run(
+    now,
+    now,
+    fileId
+  );
+}
+
+export function replicaStatuses(sessionId: string): Map<number, ReplicaStatus> {
+  const rows = db
+    .prepare("SELECT r.file_id, r.status FROM replicas r JOIN upload_files f ON f.id = r.file_id WHERE f.session_id = ?")
+    .all(sessionId) as { file_id: number; status: ReplicaStatus }[];
+  return new Map(rows.map((r) => [r.file_id, r.status]));
+}
+
+/** Whether both rails hold every object of the vault; null for single-rail vaults. */
+export function replicationStatus(v: Vault): Replication | null {
+  if (v.redundancy !== "dual") return null;
+  const counts = db
+    .prepare(
+      `SELECT COUNT(*) AS total,
+              COALESCE(SUM(r.status = 'verified'), 0) AS verified,
+              COALESCE(SUM(r.status = 'failed'), 0) AS failed,
+              MAX(r.verified_at) AS lastVerifiedAt
+       FROM upload_files f LEFT JOIN replicas r ON r.file_id = f.id
+       WHERE f.session_id = ?`
+    )
+    .get(v.sessionId) as { total: number; verified: number; failed: number; lastVerifiedAt: string | null };
+  // objects without a row yet are about to be queued, so they count as pending
+  const pending = counts.total - counts.verified - counts.failed;
+  const state = !mirror ? "not_configured" : counts.failed ? "degraded" : pending ? "syncing" : "in_sync";
+  return {
+    state,
+    objects: { total: counts.total, verified: counts.verified, pending, failed: counts.failed },
+    lastVerifiedAt: counts.lastVerifiedAt,
+  };
+}
+
+// Takes the replica unless another worker got there first
+function lease(row: DueRow, clock: Clock) {
+  const until = new Date(clock.now().getTime() + LEASE_MS).toISOString();
+  const res = db
+    .prepare(
+      "UPDATE replicas SET next_attempt_at = ? WHERE file_id = ? AND status != 'verified' AND next_attempt_at = ?"
+    )
+    .run(until, row.file_id, row.next_attempt_at);
+  return res.changes === 1;
+}
+
+function settle(row: DueRow, error: string | null, clock: Clock) {
+  const now = clock.now();
+  const attempts = row.attempts + 1;
+  if (!error) {
+    db.prepare(
+      `UPDATE replicas SET status = 'verified', attempts = ?, last_error = NULL, verified_at = ?, updated_at = ?
+       WHERE file_id = ?`
+    ).run(attempts, now.toISOString(), now.toISOString(), row.file_id);
+  } else {
+    const delay = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), MAX_RETRY_MS);
+    db.prepare(
+      `UPDATE replicas SET status = 'failed', attempts = ?, last_error = ?, next_attempt_at = ?, updated_at = ?
+       WHERE file_id = ?`
+    ).run(attempts, error, new Date(now.getTime() + delay).toISOString(), now.toISOString(), row.file_id);
+  }
+}
+
+/**
+ * Copies one object to the mirror. The primary is checked against the hash
+ * recorded at upload first, so a damaged original is never replicated; the
+ * mirror's copy is then checked the same way. A good copy already there is kept.
+ */
+async function replicate(row: DueRow, primary: StorageBackend, target: StorageBackend) {
+  const source = await verifyObject(primary, row.object_key, row.sha256);
+  if (!source.ok) {
+    throw new Error(source.got ? `primary copy hashes to ${source.got}, expected ${row.sha256}` : "primary copy is missing");
+  }
+  // re-hashed: this may be the scrubber sending back a copy whose stored checksum no longer tells the truth
+  if ((await verifyObject(target, row.object_key, row.sha256, { rehash: true })).ok) return;
+
+  await target.write(row.object_key, await primary.read(row.object_key), {
+    size: row.size,
+    sha256: row.sha256,
+    contentType: row.content_type,
+  });
+  const copy = await verifyObject(target, row.object_key, row.sha256);
+  if (!copy.ok) throw new Error(copy.got ? `mirror copy hashes to ${copy.got}, expected ${row.sha256}` : "mirror copy is missing");
+}
+
+/** Copies one batch of due replicas to the mirror; returns how each went. */
+export async function replicateDue(
+  primary: StorageBackend,
+  target: StorageBackend,
+  clock: Clock = systemClock
+): Promise<{ verified: number; failed: number; due: number }> {
+  const rows = db
+    .prepare(
+      `SELECT r.file_id, r.attempts, r.next_attempt_at, f.object_key, f.size, f.content_type, f.sha256
+       FROM replicas r JOIN upload_files f ON f.id = r.file_id
+       WHERE r.status != 'verified' AND r.next_attempt_at <= ?
+       ORDER BY r.next_attempt_at LIMIT ?`
+    )
+    .all(clock.now().toISOString(), BATCH_SIZE) as DueRow[];
+
+  let verified = 0;
+  let failed = 0;
+  for (const row of rows) {
+    if (!lease(row, clock)) continue;
+    const event = { fileId: row.file_id, type: "replication", copy: "mirror", agent: AGENTS.replication } as const;
+    try {
+      await replicate(row, primary, target);
+      settle(row, null, clock);
+      recordEvent({ ...event, outcome: "pass", detail: "copied; the mirror's copy matches the recorded sha256" }, clock);
+      verified++;
+    } catch (err) {
+      const error = (err instanceof Error ? err.message : String(err)).slice(0, 500);
+      settle(row, error, clock);
+      recordEvent({ ...event, outcome: "fail", detail: error }, clock);
+      failed++;
+    }
+  }
+  return { verified, failed, due: rows.length };
+}
+
+let draining: Promise<{ verified: number; failed: number }> | null = null;
+let rerun = false;
+
+/**
+ * Queues new objects of dual vaults and copies everything due. Calls made while
+ * a run is in progress share it, and it goes round once more to pick up their work.
+ */
+export function drainReplication(): Promise<{ verified: number; failed: number }> {
+  const target = mirror;
+  if (!target) return Promise.resolve({ verified: 0, failed: 0 });
+  if (draining) {
+    rerun = true;
+    return draining;
+  }
+  draining = (async () => {
+    const total = { verified: 0, failed: 0 };
+    let due: number;
+    do {
+      rerun = false;
+      enqueueReplicas();
+      const batch = await replicateDue(storage, target);
+      total.verified += batch.verified;
+      total.failed += batch.failed;
+      due = batch.due;
+    } while (rerun || due > 0);
+    return total;
+  })().finally(() => {
+    draining = null;
+  });
+  return draining;
+}
@@ -0,0 +1,32 @@
+// In-process background jobs. One API instance is assumed; a job never overlaps
+// itself, and a failed run is logged and retried on the next tick.
+
+export type Job = {
+  name: string;
+  intervalMs: number;
+  run: () => unknown | Promise<unknown>;
+};
+
+export function startJob(job: Job): () => void {
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await job.run();
+    } catch (err) {
+      console.error(`[${job.name}]`, err);
+    } finally {
+      running = false;
+    }
+  };
+  const timer = setInterval(tick, job.intervalMs);
+  timer.unref(); // never keeps the process alive on its own
+  void tick();
+  return () => clearInterval(timer);
+}
+
+// SCHEDULER_DISABLED=true turns every job off, e.g. for a second API replica
+export function schedulerEnabled() {
+  return process.env.SCHEDULER_DISABLED !== "true";
+}
@@ -0,0 +1,190 @@
+import type { EncryptionParams } from "@fawv/shared";
+import db from "../db";
+
+export type SessionStatus = "open" | "sealed";
+export type FileState = "presigned" | "uploaded" | "abandoned" | "mismatch";
+
+export type UploadSession = {
+  id: string;
+  ownerId: string | null; // null only for sessions created before accounts existed
+  status: SessionStatus;
+  createdAt: string;
+  updatedAt: string;
+  sealedAt: string | null;
+  merkleRoot: string | null; // archive hash, fixed at seal (see lib/merkle)
+  encryption: EncryptionParams | null; // set by the first upload/start; the server only ever holds ciphertext
+};
+
+export type UploadFile = {
+  id: number;
+  sessionId: string;
+  relPath: string;
+  objectKey: string;
+  size: number;
+  contentType: string;
+  sha256: string | null; // as declared by the client at presign time
+  state: FileState;
+  uploadId: string | null;
+  presignedAt: string;
+  uploadedAt: string | null;
+  verifiedAt: string | null;
+};
+
+type SessionRow = {
+  id: string;
+  owner_id: string | null;
+  status: SessionStatus;
+  created_at: string;
+  updated_at: string;
+  sealed_at: string | null;
+  merkle_root: string | null;
+  encryption: string | null;
+};
+type FileRow = {
+  id: number;
+  session_id: string;
+  rel_path: string;
+  object_key: string;
+  size: number;
+  content_type: string;
+  sha256: string | null;
+  state: FileState;
+  upload_id: string | null;
+  presigned_at: string;
+  uploaded_at: string | null;
+  verified_at: string | null;
+};
+
+function toSession(r: SessionRow): UploadSession {
+  return {
+    id: r.id,
+    ownerId: r.owner_id,
+    status: r.status,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+    sealedAt: r.sealed_at,
+    merkleRoot: r.merkle_root,
+    encryption: r.encryption ? (JSON.parse(r.encryption) as EncryptionParams) : null,
+  };
+}
+
+function toFile(r: FileRow): UploadFile {
+  return {
+    id: r.id,
+    sessionId: r.session_id,
+    relPath: r.rel_path,
+    objectKey: r.object_key,
+    size: r.size,
+    contentType: r.content_type,
+    sha256: r.sha256,
+    state: r.state,
+    uploadId: r.upload_id,
+    presignedAt: r.presigned_at,
+    uploadedAt: r.uploaded_at,
+    verifiedAt: r.verified_at,
+  };
+}
+
+export function getSession(id: string): UploadSession | null {
+  const row = db.prepare("SELECT * FROM upload_sessions WHERE id = ?").get(id) as SessionRow | undefined;
+  return row ? toSession(row) : null;
+}
+
+/** A session the given user owns, or null (missing and foreign sessions look the same). */
+export function getOwnedSession(id: string, ownerId: string): UploadSession | null {
+  const session = getSession(id);
+  return session?.ownerId === ownerId ? session : null;
+}
+
+/** Creates the session for `ownerId` if it's new; null if someone else already owns the id. */
+export function ensureSession(id: string, ownerId: string): UploadSession | null {
+  const now = new Date().toISOString();
+  db.prepare(
+    "INSERT INTO upload_sessions (id, owner_id, created_at, updated_at) VALUES (?, ?, ?, ?) ON CONFLICT(id) DO NOTHING"
+  ).run(id, ownerId, now, now);
+  return getOwnedSession(id, ownerId);
+}
+
+export function setSessionEncryption(id: string, encryption: EncryptionParams) {
+  db.prepare("UPDATE upload_sessions SET encryption = ? WHERE id = ?").run(JSON.stringify(encryption), id);
+  return getSession(id)!;
+}
+
+function touchSession(id: string) {
+  db.prepare("UPDATE upload_sessions SET updated_at = ? WHERE id = ?").run(new Date().toISOString(), id);
+}
+
+export function listFiles(sessionId: string): UploadFile[] {
+  const rows = db
+    .prepare("SELECT * FROM upload_files WHERE session_id = ? ORDER BY rel_path")
+    .all(sessionId) as FileRow[];
+  return rows.map(toFile);
+}
+
+export function sessionTotals(sessionId: string): { files: number; bytes: number } {
+  return db
+    .prepare("SELECT COUNT(*) AS files, COALESCE(SUM(size), 0) AS bytes FROM upload_files WHERE session_id = ?")
+    .get(sessionId) as { files: number; bytes: number };
+}
+
+export function getFile(sessionId: string, relPath: string): UploadFile | null {
+  const row = db
+    .prepare("SELECT * FROM upload_files WHERE session_id = ? AND rel_path = ?")
+    .get(sessionId, relPath) as FileRow | undefined;
+  return row ? toFile(row) : null;
+}
+
+export function getFileByKey(objectKey: string): UploadFile | null {
+  const row = db.prepare("SELECT * FROM upload_files WHERE object_key = ?").get(objectKey) as FileRow | undefined;
+  return row ? toFile(row) : null;
+}
+
+// Records (or re-records) a presigned file; a re-presign resets it to "presigned".
+export function recordPresigned(
+  sessionId: string,
+  f: { relPath: string; objectKey: string; size: number; contentType: string; sha256: string; uploadId?: string }
+): UploadFile {
+  const now = new Date().toISOString();
+  db.prepare(
+    `INSERT INTO upload_files (session_id, rel_path, object_key, size, content_type, sha256, upload_id, presigned_at)
+     VALUES (@sessionId, @relPath, @objectKey, @size, @contentType, @sha256, @uploadId, @now)
+     ON CONFLICT(session_id, rel_path) DO UPDATE SET
+       size = excluded.size,
+       content_type = excluded.content_type,
+       sha256 = excluded.sha256,
+       upload_id = excluded.upload_id,
+       state = 'presigned',
+       presigned_at = excluded.presigned_at,
+       uploaded_at = NULL,
+       verified_at = NULL`
+  ).run({ ...f, uploadId: f.uploadId ?? null, sessionId, now });
+  touchSession(sessionId);
+  return getFile(sessionId, f.relPath)!;
+}
+
+export function setFileState(file: UploadFile, state: FileState) {
+  const now = new Date().toISOString();
+  db.prepare("UPDATE upload_files SET state = ?, uploaded_at = ? WHERE id = ?").run(
+    state,
+    state === "uploaded" ? now : state === "mismatch" ? file.uploadedAt : null,
+    file.id
+  );
+  touchSession(file.sessionId);
+}
+
+export function markVerified(file: UploadFile) {
+  db.prepare("UPDATE upload_files SET verified_at = ? WHERE id = ?").run(new Date().toISOString(), file.id);
+}
+
+export function sealSession(id: string, merkleRoot: string) {
+  const now = new Date().toISOString();
+  db.prepare(
+    "UPDATE upload_sessions SET status = 'sealed', sealed_at = ?, merkle_root = ?, updated_at = ? WHERE id = ?"
+  ).run(now, merkleRoot, now, id);
+  return getSession(id)!;
+}
+
+// Keeps an in-progress multipart file from being reported as abandoned
+export function touchFile(file: UploadFile) {
+  db.prepare("UPDATE upload_files SET presigned_at = ? WHERE id = ?").run(new Date().toISOString(), file.id);
+}
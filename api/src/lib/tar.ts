@@ -0,0 +1,61 @@
+// Minimal POSIX tar (ustar + PAX) writer for streaming exports.
+// Only regular files: every entry is a header, its bytes, and zero padding to 512.
+
+const BLOCK = 512;
+const MAX_OCTAL_SIZE = 0o77777777777; // 11 octal digits, ~8 GiB
+
+export const TAR_END = Buffer.alloc(BLOCK * 2);
+
+function octal(n: number, width: number) {
+  return n.toString(8).padStart(width - 1, "0") + "\0";
+}
+
+function ustarHeader(name: string, size: number, mtime: Date, type: "0" | "x") {
+  const h = Buffer.alloc(BLOCK);
+  // Anything that doesn't fit here travels in a preceding PAX header instead
+  h.write(name.slice(0, 100), 0, "ascii");
+  h.write(octal(0o644, 8), 100, "ascii");
+  h.write(octal(0, 8), 108, "ascii");
+  h.write(octal(0, 8), 116, "ascii");
+  h.write(octal(Math.min(size, MAX_OCTAL_SIZE), 12), 124, "ascii");
+  h.write(octal(Math.floor(mtime.getTime() / 1000), 12), 136, "ascii");
+  h.write("        ", 148, "ascii"); // checksum is computed with this field as spaces
+  h.write(type, 156, "ascii");
+  h.write("ustar\0", 257, "ascii");
+  h.write("00", 263, "ascii");
+  let sum = 0;
+  for (const b of h) sum += b;
+  h.write(octal(sum, 7) + " ", 148, "ascii");
+  return h;
+}
+
+// "<len> <key>=<value>\n", where <len> counts the whole record including itself
+function paxRecord(key: string, value: string) {
+  const body = ` ${key}=${value}\n`;
+  const bodyLen = Buffer.byteLength(body);
+  let len = bodyLen + String(bodyLen).length;
+  if (String(len).length > String(bodyLen).length) len++;
+  return `${len}${body}`;
+}
+
+export function padding(size: number) {
+  const rem = size % BLOCK;
+  return rem ? Buffer.alloc(BLOCK - rem) : Buffer.alloc(0);
+}
+
+/** Header block(s) for one file entry; adds a PAX header for long/non-ASCII paths or huge files. */
+export function fileHeader(name: string, size: number, mtime = new Date()): Buffer {
+  const needsPax = Buffer.byteLength(name) > 100 || /[^\x20-\x7e]/.test(name) || size > MAX_OCTAL_SIZE;
+  if (!needsPax) return ustarHeader(name, size, mtime, "0");
+
+  let records = paxRecord("path", name);
+  if (size > MAX_OCTAL_SIZE) records += paxRecord("size", String(size));
+  const pax = Buffer.from(records, "utf8");
+  const safeName = name.replace(/[^\x20-\x7e]/g, "_");
+  return Buffer.concat([
+    ustarHeader(`PaxHeader/${safeName}`.slice(0, 100), pax.length, mtime, "x"),
+    pax,
+    padding(pax.length),
+    ustarHeader(safeName, size, mtime, "0"),
+  ]);
+}
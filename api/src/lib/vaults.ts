@@ -0,0 +1,358 @@
+import crypto from "crypto";
+import type {
+  ClaimWaitingDays,
+  EmergencyVetoDays,
+  Endowment,
+  EscrowYears,
+  HeartbeatMonths,
+  LifecycleEvent,
+  LifecycleState,
+  Product,
+  Redundancy,
+  UpdateVaultBody,
+  VaultPrice,
+  VaultStatus,
+  VaultToken,
+  Visibility,
+} from "@fawv/shared";
+import db from "../db";
+import { APP_BASE_URL, notify } from "../notify";
+import { getUser } from "./auth";
+import { listHeirs } from "./heirs";
+import {
+  DEFAULT_HEARTBEAT_MONTHS,
+  evaluate,
+  lapseOf,
+  schedule,
+  systemClock,
+  type Clock,
+  type Evaluation,
+  type Funding,
+  type LifecyclePlan,
+} from "./lifecycle";
+
+export type Vault = {
+  id: string;
+  ownerId: string;
+  sessionId: string; // the sealed upload session holding its files
+  name: string;
+  product: Product;
+  escrowYears: EscrowYears | null;
+  heartbeatMonths: HeartbeatMonths;
+  claimWaitingDays: ClaimWaitingDays;
+  custodialStewardship: boolean; // heirs may hand the vault to custodial care instead of taking it
+  emergencyVetoDays: EmergencyVetoDays;
+  redundancy: Redundancy;
+  visibility: Visibility | null; // chosen on the manifest step
+  manifestText: string | null;
+  price: VaultPrice | null;
+  quoteId: string | null; // the quote the price came from
+  endowment: Endowment | null;
+  token: VaultToken | null;
+  status: VaultStatus;
+  createdAt: string;
+  updatedAt: string;
+  mintedAt: string | null;
+  lifecycleState: LifecycleState | null; // null while a draft
+  lifecycleSince: string | null;
+  lastAttestedAt: string | null;
+  endowmentExhaustedAt: string | null; // set by the endowment ledger (./ledger) while storage goes unpaid
+  endowmentRestoredAt: string | null; // the last top-up that paid off unpaid storage
+};
+
+type VaultRow = {
+  id: string;
+  owner_id: string;
+  session_id: string;
+  name: string;
+  product: Product;
+  escrow_years: EscrowYears | null;
+  heartbeat_months: HeartbeatMonths;
+  claim_waiting_days: ClaimWaitingDays;
+  custodial_stewardship: number;
+  emergency_veto_days: EmergencyVetoDays;
+  redundancy: Redundancy;
+  visibility: Visibility | null;
+  manifest_text: string | null;
+  price_json: string | null;
+  quote_id: string | null;
+  endowment_json: string | null;
+  token_json: string | null;
+  status: VaultStatus;
+  created_at: string;
+  updated_at: string;
+  minted_at: string | null;
+  lifecycle_state: LifecycleState | null;
+  lifecycle_since: string | null;
+  last_attested_at: string | null;
+  endowment_exhausted_at: string | null;
+  endowment_restored_at: string | null;
+};
+
+function json<T>(s: string | null): T | null {
+  return s === null ? null : (JSON.parse(s) as T);
+}
+
+function toVault(r: VaultRow): Vault {
+  return {
+    id: r.id,
+    ownerId: r.owner_id,
+    sessionId: r.session_id,
+    name: r.name,
+    product: r.product,
+    escrowYears: r.escrow_years,
+    heartbeatMonths: r.heartbeat_months,
+    claimWaitingDays: r.claim_waiting_days,
+    custodialStewardship: r.custodial_stewardship === 1,
+    emergencyVetoDays: r.emergency_veto_days,
+    redundancy: r.redundancy,
+    visibility: r.visibility,
+    manifestText: r.manifest_text,
+    price: json(r.price_json),
+    quoteId: r.quote_id,
+    endowment: json(r.endowment_json),
+    token: json(r.token_json),
+    status: r.status,
+    createdAt: r.created_at,
+    updatedAt: r.updated_at,
+    mintedAt: r.minted_at,
+    lifecycleState: r.lifecycle_state,
+    lifecycleSince: r.lifecycle_since,
+    lastAttestedAt: r.last_attested_at,
+    endowmentExhaustedAt: r.endowment_exhausted_at,
+    endowmentRestoredAt: r.endowment_restored_at,
+  };
+}
+
+export function getVault(id: string): Vault | null {
+  const row = db.prepare("SELECT * FROM vaults WHERE id = ?").get(id) as VaultRow | undefined;
+  return row ? toVault(row) : null;
+}
+
+/** A vault the given user owns, or null (missing and foreign vaults look the same). */
+export function getOwnedVault(id: string, ownerId: string): Vault | null {
+  const vault = getVault(id);
+  return vault?.ownerId === ownerId ? vault : null;
+}
+
+export function getVaultBySession(sessionId: string): Vault | null {
+  const row = db.prepare("SELECT * FROM vaults WHERE session_id = ?").get(sessionId) as VaultRow | undefined;
+  return row ? toVault(row) : null;
+}
+
+export function listVaults(ownerId: string): Vault[] {
+  const rows = db
+    .prepare("SELECT * FROM vaults WHERE owner_id = ? ORDER BY created_at DESC")
+    .all(ownerId) as VaultRow[];
+  return rows.map(toVault);
+}
+
+export function createVault(
+  ownerId: string,
+  v: {
+    sessionId: string;
+    name: string;
+    product: Product;
+    escrowYears?: EscrowYears;
+    heartbeatMonths?: HeartbeatMonths;
+    redundancy?: Redundancy;
+    price: VaultPrice;
+    quoteId: string;
+    endowment?: Endowment | null;
+  }
+): Vault {
+  const id = crypto.randomUUID();
+  const now = new Date().toISOString();
+  db.prepare(
+    `INSERT INTO vaults (id, owner_id, session_id, name, product, escrow_years, heartbeat_months, redundancy, price_json,
+       quote_id, endowment_json, created_at, updated_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    id,
+    ownerId,
+    v.sessionId,
+    v.name,
+    v.product,
+    v.product === "Permanence+" ? v.escrowYears ?? null : null,
+    v.heartbeatMonths ?? DEFAULT_HEARTBEAT_MONTHS,
+    v.redundancy ?? "single",
+    JSON.stringify(v.price),
+    v.quoteId,
+    v.endowment ? JSON.stringify(v.endowment) : null,
+    now,
+    now
+  );
+  return getVault(id)!;
+}
+
+// A validated PATCH body with the server's figures in place of the client's:
+// the price its quote carries and the endowment at the rate locked for it
+export type VaultPatch = Omit<UpdateVaultBody, "endowmentUsd"> & { price?: VaultPrice; endowment?: Endowment | null };
+
+// Field -> column for PATCH; JSON-valued fields are serialised on the way in
+const COLUMNS: Record<keyof VaultPatch, [string, boolean]> = {
+  name: ["name", false],
+  product: ["product", false],
+  escrowYears: ["escrow_years", false],
+  heartbeatMonths: ["heartbeat_months", false],
+  claimWaitingDays: ["claim_waiting_days", false],
+  custodialStewardship: ["custodial_stewardship", false],
+  emergencyVetoDays: ["emergency_veto_days", false],
+  redundancy: ["redundancy", false],
+  price: ["price_json", true],
+  quoteId: ["quote_id", false],
+  endowment: ["endowment_json", true],
+  visibility: ["visibility", false],
+  manifestText: ["manifest_text", false],
+  token: ["token_json", true],
+};
+
+/** Applies a validated patch. Recording a token marks the vault minted and starts its lifecycle. */
+export function updateVault(id: string, patch: VaultPatch): Vault {
+  const now = new Date().toISOString();
+  const sets = ["updated_at = @updatedAt"];
+  const params: Record<string, unknown> = { id, updatedAt: now };
+  for (const [field, value] of Object.entries(patch) as [keyof VaultPatch, unknown][]) {
+    if (value === undefined) continue;
+    const [column, isJson] = COLUMNS[field];
+    sets.push(`${column} = @${field}`);
+    if (isJson && value !== null) params[field] = JSON.stringify(value);
+    else params[field] = typeof value === "boolean" ? Number(value) : value; // SQLite has no booleans
+  }
+  const minting = !!patch.token;
+  if (minting) {
+    sets.push(
+      "status = 'minted'",
+      "minted_at = @updatedAt",
+      "lifecycle_state = 'active'",
+      "lifecycle_since = @updatedAt"
+    );
+  }
+  db.transaction(() => {
+    db.prepare(`UPDATE vaults SET ${sets.join(", ")} WHERE id = @id`).run(params);
+    if (minting) logTransition(id, null, "active", now, now);
+  })();
+  return getVault(id)!;
+}
+
+function logTransition(vaultId: string, from: LifecycleState | null, to: LifecycleState, at: string, recordedAt: string) {
+  db.prepare(
+    "INSERT INTO lifecycle_events (vault_id, from_state, to_state, at, recorded_at) VALUES (?, ?, ?, ?, ?)"
+  ).run(vaultId, from, to, at, recordedAt);
+}
+
+function planOf(v: Vault): LifecyclePlan {
+  return {
+    product: v.product,
+    escrowYears: v.escrowYears,
+    heartbeatMonths: v.heartbeatMonths,
+    mintedAt: new Date(v.mintedAt!),
+  };
+}
+
+function fundingOf(v: Vault): Funding {
+  return {
+    exhaustedAt: v.endowmentExhaustedAt ? new Date(v.endowmentExhaustedAt) : null,
+    restoredAt: v.endowmentRestoredAt ? new Date(v.endowmentRestoredAt) : null,
+  };
+}
+
+function lifecycleOf(v: Vault, clock: Clock): Evaluation | null {
+  if (v.status !== "minted" || !v.mintedAt || !v.lifecycleState || !v.lifecycleSince) return null;
+  return evaluate(
+    planOf(v),
+    { state: v.lifecycleState, since: new Date(v.lifecycleSince) },
+    v.lastAttestedAt ? new Date(v.lastAttestedAt) : null,
+    fundingOf(v),
+    clock
+  );
+}
+
+// Warns whoever has to act on the state a vault just reached: the owner while a
+// check-in can still save it, the heirs once it is theirs to claim
+function announceLifecycle(v: Vault, lifecycle: Evaluation) {
+  const owner = { userId: v.ownerId };
+  const link = APP_BASE_URL;
+  if (lifecycle.state === "attestation_due") {
+    notify(owner, "heartbeat_due", { vaultName: v.name, deadline: lifecycle.next!.from.toISOString(), link });
+  } else if (lifecycle.state === "lapsed" || lifecycle.state === "in_escrow") {
+    const lastAttestedAt = v.lastAttestedAt ? new Date(v.lastAttestedAt) : null;
+    const { exhaustedAt } = fundingOf(v);
+    const orphaned = schedule(planOf(v), lastAttestedAt, exhaustedAt).find((s) => s.state === "orphaned");
+    notify(owner, "vault_lapsed", {
+      vaultName: v.name,
+      state: lifecycle.state,
+      cause: lapseOf(planOf(v), lastAttestedAt, exhaustedAt)?.cause ?? "heartbeat",
+      until: orphaned?.from.toISOString() ?? null,
+      link,
+    });
+  } else if (lifecycle.state === "orphaned") {
+    const user = getUser(v.ownerId);
+    const ownerName = user?.displayName ?? user?.email ?? "The owner";
+    for (const heir of listHeirs(v.id)) {
+      notify(heir.userId ? { userId: heir.userId } : { email: heir.email }, "vault_orphaned", {
+        vaultName: v.name,
+        ownerName,
+        claimBy: lifecycle.next!.from.toISOString(),
+        link,
+      });
+    }
+  }
+}
+
+/**
+ * Brings a minted vault's stored lifecycle state up to `clock.now()`, logging
+ * each state it passed through and notifying on the one it lands in. Drafts are
+ * returned untouched with a null evaluation.
+ */
+export function syncLifecycle(v: Vault, clock: Clock = systemClock): { vault: Vault; lifecycle: Evaluation | null } {
+  const lifecycle = lifecycleOf(v, clock);
+  if (!lifecycle?.transitions.length) return { vault: v, lifecycle };
+
+  const recordedAt = clock.now().toISOString();
+  db.transaction(() => {
+    let from = v.lifecycleState;
+    for (const t of lifecycle.transitions) {
+      logTransition(v.id, from, t.state, t.from.toISOString(), recordedAt);
+      from = t.state;
+    }
+    db.prepare("UPDATE vaults SET lifecycle_state = ?, lifecycle_since = ? WHERE id = ?").run(
+      lifecycle.state,
+      lifecycle.since.toISOString(),
+      v.id
+    );
+  })();
+  announceLifecycle(v, lifecycle);
+  return { vault: getVault(v.id)!, lifecycle };
+}
+
+/** Syncs every minted vault that can still change state; returns how many moved. */
+export function sweepLifecycles(clock: Clock = systemClock): number {
+  const rows = db
+    .prepare(
+      `SELECT * FROM vaults WHERE status = 'minted'
+       AND lifecycle_state NOT IN ('released', 'inherited', 'in_stewardship')`
+    )
+    .all() as VaultRow[];
+  let moved = 0;
+  for (const row of rows) {
+    if (syncLifecycle(toVault(row), clock).lifecycle?.transitions.length) moved++;
+  }
+  return moved;
+}
+
+/** Ends an orphaned vault's lifecycle through a completed heir claim. */
+export function endLifecycle(vaultId: string, to: "inherited" | "in_stewardship", at: string) {
+  const v = getVault(vaultId)!;
+  db.transaction(() => {
+    logTransition(vaultId, v.lifecycleState, to, at, at);
+    db.prepare("UPDATE vaults SET lifecycle_state = ?, lifecycle_since = ? WHERE id = ?").run(to, at, vaultId);
+  })();
+}
+
+export function listLifecycleEvents(vaultId: string): LifecycleEvent[] {
+  const rows = db
+    .prepare("SELECT from_state, to_state, at, recorded_at FROM lifecycle_events WHERE vault_id = ? ORDER BY id")
+    .all(vaultId) as { from_state: LifecycleState | null; to_state: LifecycleState; at: string; recorded_at: string }[];
+  return rows.map((r) => ({ from: r.from_state, to: r.to_state, at: r.at, recordedAt: r.recorded_at }));
+}
@@ -0,0 +1,63 @@
+import type { RequestHandler, Response } from "express";
+import { SESSION_TTL_MS, userForToken, type User } from "../lib/auth";
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: User;
+      authToken?: string;
+    }
+  }
+}
+
+export const SESSION_COOKIE = "fawv_session";
+
+// Set SESSION_COOKIE_SECURE=false only for plain-http local development
+const SECURE = process.env.SESSION_COOKIE_SECURE !== "false";
+
+// A value that isn't valid percent-encoding is treated as if the cookie weren't sent
+function readCookie(header: string | undefined, name: string) {
+  for (const part of header?.split(";") ?? []) {
+    const eq = part.indexOf("=");
+    if (eq <= 0 || part.slice(0, eq).trim() !== name) continue;
+    try {
+      return decodeURIComponent(part.slice(eq + 1).trim());
+    } catch (err) {
+      if (err instanceof URIError) return undefined;
+      throw err;
+    }
+  }
+  return undefined;
+}
+
+export function setSessionCookie(res: Response, token: string) {
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: SECURE,
+    sameSite: "lax",
+    path: "/api",
+    maxAge: SESSION_TTL_MS,
+  });
+}
+
+export function clearSessionCookie(res: Response) {
+  res.clearCookie(SESSION_COOKIE, { httpOnly: true, secure: SECURE, sameSite: "lax", path: "/api" });
+}
+
+// Resolves the session cookie (if any) to req.user; never rejects on its own
+export const loadUser: RequestHandler = (req, _res, next) => {
+  const token = readCookie(req.headers.cookie, SESSION_COOKIE);
+  if (token) {
+    const user = userForToken(token);
+    if (user) {
+      req.user = user;
+      req.authToken = token;
+    }
+  }
+  next();
+};
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.user) return res.status(401).json({ error: "unauthenticated" });
+  next();
+};
@@ -0,0 +1,16 @@
+import type { RequestHandler } from "express";
+import { validate, type Schema } from "@fawv/shared";
+
+/**
+ * Rejects a request whose JSON body doesn't match `schema` with
+ * 400 { error: "invalid_body", fields: [{ path, message }] }. On success the
+ * parsed (and normalised) value replaces req.body.
+ */
+export function validateBody(schema: Schema): RequestHandler {
+  return (req, res, next) => {
+    const result = validate(schema, req.body);
+    if (!result.ok) return res.status(400).json({ error: "invalid_body", fields: result.fields });
+    req.body = result.data;
+    next();
+  };
+}
@@ -0,0 +1,26 @@
+import fs from "fs";
+import path from "path";
+import type { Message, Transport } from "./types";
+
+/** Appends each message as a JSON line, so tests and local runs can read what was sent. */
+export class FileTransport implements Transport {
+  readonly name = "file";
+
+  constructor(private readonly file: string) {
+    fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  }
+
+  async send(message: Message) {
+    const line = JSON.stringify({ ...message, sentAt: new Date().toISOString() });
+    await fs.promises.appendFile(this.file, line + "\n");
+  }
+}
+
+/** Writes messages to the server log. */
+export class ConsoleTransport implements Transport {
+  readonly name = "console";
+
+  async send(message: Message) {
+    console.log(`[notify] to=${message.to} subject=${JSON.stringify(message.subject)}\n${message.text}`);
+  }
+}
@@ -0,0 +1,110 @@
+import type { NotificationChannel } from "@fawv/shared";
+import { findUserByEmail, getUser } from "../lib/auth";
+import { ConsoleTransport, FileTransport } from "./file";
+import { getPreferences } from "./preferences";
+import { deliverDue, enqueue } from "./queue";
+import { SmtpTransport } from "./smtp";
+import { TEMPLATES, type Template, type TemplateData, type TemplateName } from "./templates";
+import type { Transport } from "./types";
+import { WebhookTransport } from "./webhook";
+
+export type { Message, Transport } from "./types";
+export type { TemplateData, TemplateName } from "./templates";
+export { getPreferences, updatePreferences } from "./preferences";
+export { listNotifications, MAX_ATTEMPTS } from "./queue";
+export { ConsoleTransport, FileTransport, SmtpTransport, TEMPLATES, WebhookTransport };
+
+// Where links in notices point; the web app's origin
+export const APP_BASE_URL = process.env.APP_BASE_URL || "http://localhost:5173";
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// NOTIFY_TRANSPORT=console (default), file, smtp or webhook: how the email channel is sent
+export function createTransport(): Transport {
+  const driver = process.env.NOTIFY_TRANSPORT || "console";
+
+  if (driver === "console") return new ConsoleTransport();
+
+  if (driver === "file") return new FileTransport(process.env.NOTIFY_FILE || "data/notifications.jsonl");
+
+  if (driver === "smtp") {
+    const url = process.env.SMTP_URL;
+    if (!url) throw new Error("SMTP_URL must be set for NOTIFY_TRANSPORT=smtp");
+    return new SmtpTransport({ url, from: process.env.NOTIFY_FROM || "FAWV <no-reply@fawvv.com>" });
+  }
+
+  // hands mail to a relay that takes JSON, e.g. a transactional email API
+  if (driver === "webhook") {
+    const url = process.env.NOTIFY_WEBHOOK_URL;
+    if (!url) throw new Error("NOTIFY_WEBHOOK_URL must be set for NOTIFY_TRANSPORT=webhook");
+    return new WebhookTransport({ url, secret: process.env.NOTIFY_WEBHOOK_SECRET, timeoutMs: WEBHOOK_TIMEOUT_MS });
+  }
+
+  throw new Error(`Unknown NOTIFY_TRANSPORT: ${driver}`);
+}
+
+const transports: Record<NotificationChannel, Transport> = {
+  email: createTransport(),
+  // users' own endpoints, from their preferences
+  webhook: new WebhookTransport({ secret: process.env.NOTIFY_WEBHOOK_SECRET, timeoutMs: WEBHOOK_TIMEOUT_MS }),
+};
+
+let draining: Promise<{ sent: number; failed: number }> | null = null;
+let rerun = false;
+
+/**
+ * Delivers everything that is due, batch by batch. Calls made while a drain is
+ * running share it, and it goes round once more so nothing enqueued meanwhile waits.
+ */
+export function drainQueue(): Promise<{ sent: number; failed: number }> {
+  if (draining) {
+    rerun = true;
+    return draining;
+  }
+  draining = (async () => {
+    const total = { sent: 0, failed: 0 };
+    let due: number;
+    do {
+      rerun = false;
+      const batch = await deliverDue(transports);
+      total.sent += batch.sent;
+      total.failed += batch.failed;
+      due = batch.due;
+    } while (rerun || due > 0);
+    return total;
+  })().finally(() => {
+    draining = null;
+  });
+  return draining;
+}
+
+// A user account, or a bare address for someone who may not have one yet
+export type Recipient = { userId: string } | { email: string };
+
+/**
+ * Renders a template for the recipient and queues it on each channel their
+ * preferences allow. Returns the notification id, or null when nothing was queued.
+ */
+export function notify<T extends TemplateName>(to: Recipient, template: T, data: TemplateData[T]): string | null {
+  const user = "userId" in to ? getUser(to.userId) : findUserByEmail(to.email);
+  const email = "email" in to ? to.email : user?.email;
+  if (!email) return null;
+
+  const t = TEMPLATES[template] as Template<TemplateData[T]>;
+  const prefs = user ? getPreferences(user.id) : null;
+  if (prefs?.muted.includes(t.category) && !t.essential) return null;
+
+  const deliveries: { channel: NotificationChannel; address: string }[] = [];
+  if (!prefs || prefs.email) deliveries.push({ channel: "email", address: email });
+  if (prefs?.webhookUrl) deliveries.push({ channel: "webhook", address: prefs.webhookUrl });
+  if (!deliveries.length) {
+    if (!t.essential) return null;
+    deliveries.push({ channel: "email", address: email });
+  }
+
+  const { subject, text } = t.render(data);
+  const id = enqueue({ userId: user?.id ?? null, template, category: t.category, subject, text, deliveries });
+  // deliver right away; the notifications job retries whatever fails
+  setImmediate(() => drainQueue().catch((err) => console.error("[notify]", err)));
+  return id;
+}
@@ -0,0 +1,31 @@
+import type { NotificationCategory, NotificationPreferences, UpdateNotificationPreferencesBody } from "@fawv/shared";
+import db from "../db";
+
+// Until a user changes anything: email only, nothing muted
+const DEFAULTS: NotificationPreferences = { email: true, webhookUrl: null, muted: [] };
+
+type PreferencesRow = {
+  user_id: string;
+  email: number;
+  webhook_url: string | null;
+  muted: string;
+  updated_at: string;
+};
+
+export function getPreferences(userId: string): NotificationPreferences {
+  const row = db.prepare("SELECT * FROM notification_preferences WHERE user_id = ?").get(userId) as
+    | PreferencesRow
+    | undefined;
+  if (!row) return DEFAULTS;
+  return { email: row.email === 1, webhookUrl: row.webhook_url, muted: JSON.parse(row.muted) as NotificationCategory[] };
+}
+
+export function updatePreferences(userId: string, patch: UpdateNotificationPreferencesBody): NotificationPreferences {
+  const next = { ...getPreferences(userId), ...patch };
+  db.prepare(
+    `INSERT INTO notification_preferences (user_id, email, webhook_url, muted, updated_at) VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(user_id) DO UPDATE SET
+       email = excluded.email, webhook_url = excluded.webhook_url, muted = excluded.muted, updated_at = excluded.updated_at`
+  ).run(userId, next.email ? 1 : 0, next.webhookUrl, JSON.stringify([...new Set(next.muted)]), new Date().toISOString());
+  return getPreferences(userId);
+}
@@ -0,0 +1,155 @@
+import crypto from "crypto";
+import type {
+  DeliveryStatus,
+  NotificationCategory,
+  NotificationChannel,
+  NotificationDelivery,
+  NotificationRecord,
+} from "@fawv/shared";
+import db from "../db";
+import { systemClock, type Clock } from "../lib/lifecycle";
+import { TEMPLATES, type TemplateName } from "./templates";
+import type { Transport } from "./types";
+
+// A failed delivery is retried after 1, 2, 4, 8 and 16 minutes, then given up
+export const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 60 * 1000;
+// How long a worker holds a delivery before another may pick it up again
+const LEASE_MS = 5 * 60 * 1000;
+const BATCH_SIZE = 50;
+
+export type Outgoing = {
+  userId: string | null;
+  template: TemplateName;
+  category: NotificationCategory;
+  subject: string;
+  text: string;
+  deliveries: { channel: NotificationChannel; address: string }[];
+};
+
+type DeliveryRow = {
+  id: number;
+  notification_id: string;
+  channel: NotificationChannel;
+  address: string;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  sent_at: string | null;
+};
+
+type DueRow = DeliveryRow & { template: TemplateName; category: NotificationCategory; subject: string; body: string };
+
+function toDelivery(r: DeliveryRow): NotificationDelivery {
+  return { channel: r.channel, status: r.status, attempts: r.attempts, lastError: r.last_error, sentAt: r.sent_at };
+}
+
+export function enqueue(n: Outgoing, clock: Clock = systemClock): string {
+  const id = crypto.randomUUID();
+  const now = clock.now().toISOString();
+  db.transaction(() => {
+    db.prepare(
+      `INSERT INTO notifications (id, user_id, template, category, subject, body, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).run(id, n.userId, n.template, n.category, n.subject, n.text, now);
+    const insert = db.prepare(
+      "INSERT INTO notification_deliveries (notification_id, channel, address, next_attempt_at) VALUES (?, ?, ?, ?)"
+    );
+    for (const d of n.deliveries) insert.run(id, d.channel, d.address, now);
+  })();
+  return id;
+}
+
+/** The user's most recent notices with how each delivery went; bodies stay server-side. */
+export function listNotifications(userId: string, limit = 50): NotificationRecord[] {
+  const rows = db
+    .prepare("SELECT * FROM notifications WHERE user_id = ? ORDER BY created_at DESC LIMIT ?")
+    .all(userId, limit) as { id: string; template: string; category: NotificationCategory; subject: string; created_at: string }[];
+  const deliveries = db.prepare("SELECT * FROM notification_deliveries WHERE notification_id = ? ORDER BY id");
+  return rows.map((r) => ({
+    id: r.id,
+    template: r.template,
+    category: r.category,
+    subject: r.subject,
+    createdAt: r.created_at,
+    deliveries: (deliveries.all(r.id) as DeliveryRow[]).map(toDelivery),
+  }));
+}
+
+// Takes the delivery unless another worker got there first
+function lease(row: DueRow, clock: Clock) {
+  const until = new Date(clock.now().getTime() + LEASE_MS).toISOString();
+  const res = db
+    .prepare(
+      "UPDATE notification_deliveries SET next_attempt_at = ? WHERE id = ? AND status = 'pending' AND next_attempt_at = ?"
+    )
+    .run(until, row.id, row.next_attempt_at);
+  return res.changes === 1;
+}
+
+function settle(row: DueRow, error: string | null, clock: Clock) {
+  const now = clock.now();
+  const attempts = row.attempts + 1;
+  if (!error) {
+    db.prepare(
+      "UPDATE notification_deliveries SET status = 'sent', attempts = ?, last_error = NULL, sent_at = ? WHERE id = ?"
+    ).run(attempts, now.toISOString(), row.id);
+  } else if (attempts >= MAX_ATTEMPTS) {
+    db.prepare("UPDATE notification_deliveries SET status = 'failed', attempts = ?, last_error = ? WHERE id = ?").run(
+      attempts,
+      error,
+      row.id
+    );
+  } else {
+    const retryAt = new Date(now.getTime() + RETRY_BASE_MS * 2 ** (attempts - 1)).toISOString();
+    db.prepare(
+      "UPDATE notification_deliveries SET attempts = ?, last_error = ?, next_attempt_at = ? WHERE id = ?"
+    ).run(attempts, error, retryAt, row.id);
+  }
+
+  // invitation links and claim codes are only kept while they may still need sending
+  if (TEMPLATES[row.template]?.sensitive) {
+    db.prepare(
+      `UPDATE notifications SET body = '' WHERE id = ? AND NOT EXISTS
+         (SELECT 1 FROM notification_deliveries WHERE notification_id = ? AND status = 'pending')`
+    ).run(row.notification_id, row.notification_id);
+  }
+}
+
+/** Sends one batch of due deliveries through the channel's transport; returns how each went. */
+export async function deliverDue(
+  transports: Record<NotificationChannel, Transport>,
+  clock: Clock = systemClock
+): Promise<{ sent: number; failed: number; due: number }> {
+  const rows = db
+    .prepare(
+      `SELECT d.*, n.template, n.category, n.subject, n.body FROM notification_deliveries d
+       JOIN notifications n ON n.id = d.notification_id
+       WHERE d.status = 'pending' AND d.next_attempt_at <= ?
+       ORDER BY d.next_attempt_at LIMIT ?`
+    )
+    .all(clock.now().toISOString(), BATCH_SIZE) as DueRow[];
+
+  let sent = 0;
+  let failed = 0;
+  for (const row of rows) {
+    if (!lease(row, clock)) continue;
+    try {
+      await transports[row.channel].send({
+        id: row.notification_id,
+        to: row.address,
+        template: row.template,
+        category: row.category,
+        subject: row.subject,
+        text: row.body,
+      });
+      settle(row, null, clock);
+      sent++;
+    } catch (err) {
+      settle(row, (err instanceof Error ? err.message : String(err)).slice(0, 500), clock);
+      failed++;
+    }
+  }
+  return { sent, failed, due: rows.length };
+}
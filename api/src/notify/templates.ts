@@ -0,0 +1,243 @@
+import type { EmergencyStatus, NotificationCategory } from "@fawv/shared";
+
+// What each template needs to render
+export type TemplateData = {
+  heir_invite: { inviter: string; vaultName: string; link: string };
+  claim_code: { vaultName: string; code: string; minutes: number };
+  claim_opened: { vaultName: string; heirName: string; heirEmail: string };
+  claim_verified: { vaultName: string; heirName: string; heirEmail: string; waitingUntil: string };
+  claim_completed: { vaultName: string; heirName: string; heirEmail: string; resolution: "access" | "stewardship" };
+  claim_cancelled: { vaultName: string };
+  claim_withdrawn: { vaultName: string; heirName: string };
+  vault_orphaned: { vaultName: string; ownerName: string; claimBy: string; link: string };
+  emergency_requested: { vaultName: string; heirName: string; heirEmail: string; reason: string; vetoUntil: string };
+  emergency_owner: { vaultName: string; heirName: string; status: Exclude<EmergencyStatus, "pending">; note: string | null };
+  emergency_heir: { vaultName: string; status: EmergencyStatus; vetoUntil: string; note: string | null };
+  heartbeat_due: { vaultName: string; deadline: string; link: string };
+  vault_lapsed: {
+    vaultName: string;
+    state: "lapsed" | "in_escrow";
+    cause: "heartbeat" | "endowment";
+    until: string | null;
+    link: string;
+  };
+  endowment_exhausted: { vaultName: string; exhaustedAt: string; monthlyCost: string; link: string };
+  upload_receipt: { sessionId: string; files: number; bytes: number; merkleRoot: string; sealedAt: string };
+  payment_receipt: {
+    number: string;
+    kind: "payment" | "refund";
+    amount: string;
+    lines: { description: string; amount: string }[];
+    issuedAt: string;
+  };
+  test: { name: string };
+};
+
+export type TemplateName = keyof TemplateData;
+
+export type Template<D> = {
+  category: NotificationCategory;
+  // Delivered even if the category is muted or every channel is off: the recipient has a deadline to act on
+  essential?: boolean;
+  // The body holds a secret (invite link, claim code); it is erased once delivery is settled
+  sensitive?: boolean;
+  render: (data: D) => { subject: string; text: string };
+};
+
+function bytes(n: number) {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let i = 0;
+  while (n >= 1024 && i < units.length - 1) {
+    n /= 1024;
+    i++;
+  }
+  return `${i ? n.toFixed(1) : n} ${units[i]}`;
+}
+
+const EMERGENCY_OWNER: Record<TemplateData["emergency_owner"]["status"], (d: TemplateData["emergency_owner"]) => string> = {
+  approved: (d) => `You approved ${d.heirName}'s emergency access to "${d.vaultName}".`,
+  denied: (d) => `You denied ${d.heirName}'s emergency access to "${d.vaultName}".`,
+  granted: (d) =>
+    `The veto window passed, so ${d.heirName} now has emergency access to "${d.vaultName}". You can revoke it at any time.`,
+  cancelled: (d) =>
+    d.note
+      ? `${d.heirName}'s emergency access request for "${d.vaultName}" was cancelled: ${d.note}.`
+      : `${d.heirName} withdrew their emergency access request for "${d.vaultName}".`,
+  revoked: (d) => `You revoked ${d.heirName}'s emergency access to "${d.vaultName}".`,
+};
+
+const EMERGENCY_HEIR: Record<EmergencyStatus, (d: TemplateData["emergency_heir"]) => string> = {
+  pending: (d) => `Your request for emergency access to "${d.vaultName}" was sent. The owner has until ${d.vetoUntil} to respond.`,
+  approved: (d) => `Your emergency access to "${d.vaultName}" was approved.`,
+  denied: (d) => `Your emergency access request for "${d.vaultName}" was denied.${d.note ? ` Note: ${d.note}` : ""}`,
+  granted: (d) => `Your emergency access to "${d.vaultName}" has been granted.`,
+  cancelled: (d) =>
+    d.note
+      ? `Your emergency access request for "${d.vaultName}" was cancelled: ${d.note}.`
+      : `You withdrew your emergency access request for "${d.vaultName}".`,
+  revoked: (d) => `Your emergency access to "${d.vaultName}" was revoked.${d.note ? ` Note: ${d.note}` : ""}`,
+};
+
+export const TEMPLATES: { [K in TemplateName]: Template<TemplateData[K]> } = {
+  heir_invite: {
+    category: "heirs",
+    essential: true,
+    sensitive: true,
+    render: (d) => ({
+      subject: `${d.inviter} named you an heir`,
+      text:
+        `You have been named an heir of the vault "${d.vaultName}". Sign in or create an account with this ` +
+        `address, then confirm it here:\n${d.link}`,
+    }),
+  },
+  claim_code: {
+    category: "heirs",
+    essential: true,
+    sensitive: true,
+    render: (d) => ({
+      subject: `Your claim code for "${d.vaultName}"`,
+      text: `Enter ${d.code} to confirm your claim. It expires in ${d.minutes} minutes.`,
+    }),
+  },
+  claim_opened: {
+    category: "heirs",
+    essential: true,
+    render: (d) => ({
+      subject: `A claim was opened on "${d.vaultName}"`,
+      text: `${d.heirName} (${d.heirEmail}) has started a claim.`,
+    }),
+  },
+  claim_verified: {
+    category: "heirs",
+    essential: true,
+    render: (d) => ({
+      subject: `A claim on "${d.vaultName}" was verified`,
+      text:
+        `${d.heirName} (${d.heirEmail}) passed verification. Unless the claim is cancelled it can complete after ` +
+        `${d.waitingUntil}.`,
+    }),
+  },
+  claim_completed: {
+    category: "heirs",
+    render: (d) => ({
+      subject: `The claim on "${d.vaultName}" completed`,
+      text:
+        d.resolution === "access"
+          ? `${d.heirName} (${d.heirEmail}) now has access to the vault.`
+          : `At ${d.heirName}'s request the vault has passed into custodial stewardship.`,
+    }),
+  },
+  claim_cancelled: {
+    category: "heirs",
+    render: (d) => ({
+      subject: `Your claim on "${d.vaultName}" was cancelled`,
+      text: "The vault's owner cancelled the claim.",
+    }),
+  },
+  claim_withdrawn: {
+    category: "heirs",
+    render: (d) => ({
+      subject: `A claim on "${d.vaultName}" was withdrawn`,
+      text: `${d.heirName} withdrew the claim.`,
+    }),
+  },
+  vault_orphaned: {
+    category: "heirs",
+    essential: true,
+    render: (d) => ({
+      subject: `You can now claim "${d.vaultName}"`,
+      text:
+        `${d.ownerName} has not checked in on the vault "${d.vaultName}", which names you as an heir. ` +
+        `You can claim it until ${d.claimBy}:\n${d.link}`,
+    }),
+  },
+  emergency_requested: {
+    category: "emergency",
+    essential: true,
+    render: (d) => ({
+      subject: `Emergency access to "${d.vaultName}": pending`,
+      text:
+        `${d.heirName} (${d.heirEmail}) asked for emergency access to "${d.vaultName}": "${d.reason}". ` +
+        `Approve or deny it before ${d.vetoUntil}, or access is granted automatically.`,
+    }),
+  },
+  emergency_owner: {
+    category: "emergency",
+    render: (d) => ({
+      subject: `Emergency access to "${d.vaultName}": ${d.status}`,
+      text: EMERGENCY_OWNER[d.status](d),
+    }),
+  },
+  emergency_heir: {
+    category: "emergency",
+    render: (d) => ({
+      subject: `Emergency access to "${d.vaultName}": ${d.status}`,
+      text: EMERGENCY_HEIR[d.status](d),
+    }),
+  },
+  heartbeat_due: {
+    category: "reminders",
+    render: (d) => ({
+      subject: `Time to check in on "${d.vaultName}"`,
+      text: `Please confirm you still look after "${d.vaultName}" before ${d.deadline}:\n${d.link}`,
+    }),
+  },
+  vault_lapsed: {
+    category: "reminders",
+    essential: true,
+    render: (d) => ({
+      subject:
+        d.cause === "endowment" ? `"${d.vaultName}" lapsed with its storage unpaid` : `"${d.vaultName}" missed its check-in`,
+      text:
+        (d.cause === "endowment"
+          ? d.state === "lapsed"
+            ? `"${d.vaultName}" has lapsed because its endowment no longer pays for its storage.`
+            : `"${d.vaultName}" has moved into escrow because its endowment no longer pays for its storage.`
+          : d.state === "lapsed"
+            ? `You did not check in on "${d.vaultName}" in time.`
+            : `"${d.vaultName}" has moved into escrow after a missed check-in.`) +
+        (d.until
+          ? d.cause === "endowment"
+            ? ` Top up the endowment before ${d.until} or your heirs will be able to claim it.`
+            : ` Check in before ${d.until} or your heirs will be able to claim it.`
+          : "") +
+        `\n${d.link}`,
+    }),
+  },
+  endowment_exhausted: {
+    category: "reminders",
+    essential: true,
+    render: (d) => ({
+      subject: `The endowment for "${d.vaultName}" has run out`,
+      text:
+        `Since ${d.exhaustedAt} the endowment no longer covers storing "${d.vaultName}" (about ${d.monthlyCost} a month).` +
+        ` A top-up pays what is outstanding and keeps it funded.\n${d.link}`,
+    }),
+  },
+  upload_receipt: {
+    category: "receipts",
+    render: (d) => ({
+      subject: `Upload ${d.sessionId} is sealed`,
+      text:
+        `${d.files} file(s), ${bytes(d.bytes)}, were verified and sealed at ${d.sealedAt}.\n` +
+        `Merkle root: ${d.merkleRoot}`,
+    }),
+  },
+  payment_receipt: {
+    category: "receipts",
+    render: (d) => ({
+      subject: `Receipt ${d.number}: ${d.kind === "refund" ? "refund of" : "paid"} ${d.amount}`,
+      text:
+        d.lines.map((l) => `${l.description}: ${l.amount}`).join("\n") +
+        `\n${d.kind === "refund" ? "Refunded" : "Total paid"}: ${d.amount} USD, ${d.issuedAt}`,
+    }),
+  },
+  test: {
+    category: "receipts",
+    essential: true,
+    render: (d) => ({
+      subject: "Test notification",
+      text: `Hello ${d.name}, notifications reach you here.`,
+    }),
+  },
+};
@@ -0,0 +1,18 @@
+import type { NotificationCategory } from "@fawv/shared";
+
+// One rendered notice on its way to one address
+export type Message = {
+  id: string; // the notification's, so receivers can drop duplicates after a retry
+  to: string; // email address, or a webhook URL
+  template: string;
+  category: NotificationCategory;
+  subject: string;
+  text: string;
+};
+
+export interface Transport {
+  readonly name: "smtp" | "webhook" | "file" | "console";
+
+  // Resolves once the message is handed off; a rejection is retried later
+  send(message: Message): Promise<void>;
+}
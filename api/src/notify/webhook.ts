@@ -0,0 +1,113 @@
+import crypto from "crypto";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import type { Message, Transport } from "./types";
+
+export type WebhookTransportConfig = {
+  // Fixed endpoint for every message; without one, each message goes to its own `to` URL
+  url?: string;
+  secret?: string;
+  timeoutMs: number;
+};
+
+// Addresses a user's webhook URL may not reach: loopback, private, link-local,
+// shared, multicast and reserved ranges. IPv4-mapped IPv6 addresses match the IPv4 rules.
+const NON_PUBLIC = new net.BlockList();
+for (const [prefix, bits] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  NON_PUBLIC.addSubnet(prefix, bits, "ipv4");
+}
+for (const [prefix, bits] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96], // NAT64, which can lead back to an IPv4 range above
+  ["2002::", 16], // 6to4, likewise
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  NON_PUBLIC.addSubnet(prefix, bits, "ipv6");
+}
+
+function isPublic(address: string) {
+  return !NON_PUBLIC.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+}
+
+// Resolves as usual but fails the connection if any address isn't public. Checking
+// here rather than before the request means a name can't pass the check and then
+// resolve somewhere else for the connection.
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+    if (!addresses.length || !addresses.every((a) => isPublic(a.address))) {
+      return callback(new Error(`webhook host ${hostname} is not a public address`), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/** POSTs `body` and resolves with the response status; redirects are not followed. */
+function post(url: URL, headers: Record<string, string>, body: string, timeoutMs: number, publicOnly: boolean) {
+  if (publicOnly) {
+    if (url.protocol !== "https:") return Promise.reject(new Error("webhook URL must use https"));
+    // IP literals skip the lookup, so check them here
+    const host = url.hostname.replace(/^\[|\]$/g, "");
+    if (net.isIP(host) && !isPublic(host)) return Promise.reject(new Error(`webhook host ${host} is not a public address`));
+  }
+  const request = url.protocol === "http:" ? http.request : https.request;
+  return new Promise<number>((resolve, reject) => {
+    const req = request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "content-length": Buffer.byteLength(body) },
+        lookup: publicOnly ? publicLookup : undefined,
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+      }
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+/**
+ * POSTs messages as JSON. With a secret, the `X-Fawv-Signature` header carries
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">` so receivers can
+ * check the sender and reject replays. Per-message URLs come from users, so
+ * they may only reach public addresses; the fixed endpoint is the operator's.
+ */
+export class WebhookTransport implements Transport {
+  readonly name = "webhook";
+
+  constructor(private readonly config: WebhookTransportConfig) {}
+
+  async send(message: Message) {
+    const body = JSON.stringify({ ...message, sentAt: new Date().toISOString() });
+    const headers: Record<string, string> = { "content-type": "application/json" };
+    if (this.config.secret) {
+      const t = Math.floor(Date.now() / 1000);
+      const mac = crypto.createHmac("sha256", this.config.secret).update(`${t}.${body}`).digest("hex");
+      headers["x-fawv-signature"] = `t=${t},v1=${mac}`;
+    }
+
+    const status = await post(new URL(this.config.url ?? message.to), headers, body, this.config.timeoutMs, !this.config.url);
+    if (status < 200 || status >= 300) throw new Error(`webhook responded ${status}`);
+  }
+}
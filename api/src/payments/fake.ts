@@ -0,0 +1,32 @@
+import crypto from "crypto";
+import { PaymentDeclinedError, type AuthorizeRequest, type PaymentProvider } from "./types";
+
+// Payment methods the fake turns down, so checkout failures can be exercised
+export const FAKE_DECLINES: Record<string, string> = {
+  fake_card_declined: "card_declined",
+  fake_insufficient_funds: "insufficient_funds",
+};
+
+/**
+ * Approves everything else without moving any money, for development and
+ * tests. Stateless, so references it issued still capture after a restart.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake";
+
+  async authorize(req: AuthorizeRequest): Promise<{ ref: string }> {
+    const declined = req.paymentMethod ? FAKE_DECLINES[req.paymentMethod] : undefined;
+    if (declined) throw new PaymentDeclinedError(declined);
+    // derived from the idempotency key, as a real provider would answer a retry
+    return { ref: `fake_pi_${crypto.createHash("sha256").update(req.idempotencyKey).digest("hex").slice(0, 24)}` };
+  }
+
+  async capture(ref: string): Promise<void> {
+    if (!ref.startsWith("fake_pi_")) throw new Error(`unknown payment ${ref}`);
+  }
+
+  async refund(ref: string): Promise<{ ref: string }> {
+    if (!ref.startsWith("fake_pi_")) throw new Error(`unknown payment ${ref}`);
+    return { ref: `fake_re_${ref.slice("fake_pi_".length)}` };
+  }
+}
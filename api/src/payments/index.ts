@@ -0,0 +1,20 @@
+import { FakePaymentProvider } from "./fake";
+import type { PaymentProvider } from "./types";
+
+export type { AuthorizeRequest, PaymentProvider } from "./types";
+export { FakePaymentProvider };
+export { FAKE_DECLINES } from "./fake";
+export { PaymentDeclinedError } from "./types";
+
+// PAYMENT_PROVIDER=fake (default; approves without charging anyone)
+export function createPaymentProvider(): PaymentProvider {
+  const driver = process.env.PAYMENT_PROVIDER || "fake";
+
+  if (driver === "fake") return new FakePaymentProvider();
+
+  throw new Error(`Unknown PAYMENT_PROVIDER: ${driver}`);
+}
+
+const payments: PaymentProvider = createPaymentProvider();
+
+export default payments;
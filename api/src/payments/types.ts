@@ -0,0 +1,24 @@
+export type AuthorizeRequest = {
+  amountCents: number;
+  currency: "USD";
+  paymentMethod?: string; // the provider's token for the card or account
+  idempotencyKey: string; // one per checkout attempt; retrying with it never authorizes twice
+  description: string;
+};
+
+export interface PaymentProvider {
+  readonly name: "fake";
+
+  // Holds the amount without taking it; rejects with PaymentDeclinedError if the provider says no
+  authorize(req: AuthorizeRequest): Promise<{ ref: string }>;
+  capture(ref: string, amountCents: number, idempotencyKey: string): Promise<void>;
+  // Returns the provider's id for the refund
+  refund(ref: string, amountCents: number, idempotencyKey: string): Promise<{ ref: string }>;
+}
+
+export class PaymentDeclinedError extends Error {
+  constructor(readonly reason: string) {
+    super(`payment declined: ${reason}`);
+    this.name = "PaymentDeclinedError";
+  }
+}
@@ -0,0 +1,50 @@
+import { systemClock, type Clock } from "../lib/lifecycle";
+import { RateUnavailableError, type RateProvider, type RateQuote } from "./types";
+
+export type RateCacheConfig = {
+  ttlMs: number; // how long a fetched rate is reused before asking again
+  maxAgeMs: number; // how old (by the provider's asOf) a rate may be and still be used
+};
+
+/**
+ * Wraps a provider so callers share one fetch per TTL. When a refresh fails the
+ * last rate keeps serving, but never once it is older than `maxAgeMs`: a lock
+ * at a stale rate is refused rather than recorded.
+ */
+export class CachedRateProvider implements RateProvider {
+  readonly name = "cached";
+  private last: { quote: RateQuote; fetchedAt: number } | null = null;
+  private inflight: Promise<void> | null = null;
+
+  constructor(
+    private readonly inner: RateProvider,
+    private readonly config: RateCacheConfig,
+    private readonly clock: Clock = systemClock
+  ) {}
+
+  private refresh() {
+    this.inflight ??= this.inner
+      .usdPerEth()
+      .then((quote) => {
+        this.last = { quote, fetchedAt: this.clock.now().getTime() };
+      })
+      .catch((err) => {
+        console.error(`[rates] ${this.inner.name}:`, err instanceof Error ? err.message : err);
+      })
+      .finally(() => {
+        this.inflight = null;
+      });
+    return this.inflight;
+  }
+
+  async usdPerEth(): Promise<RateQuote> {
+    if (!this.last || this.clock.now().getTime() - this.last.fetchedAt >= this.config.ttlMs) await this.refresh();
+    if (!this.last) throw new RateUnavailableError(`no rate from ${this.inner.name} yet`);
+
+    const ageMs = this.clock.now().getTime() - this.last.quote.asOf.getTime();
+    if (ageMs > this.config.maxAgeMs) {
+      throw new RateUnavailableError(`${this.inner.name} rate is ${Math.round(ageMs / 1000)}s old`);
+    }
+    return this.last.quote;
+  }
+}
@@ -0,0 +1,32 @@
+import { RateUnavailableError, type RateProvider, type RateQuote } from "./types";
+
+export type CoinGeckoConfig = {
+  baseUrl: string; // the public API, or the pro one with an API key
+  apiKey?: string;
+  timeoutMs: number;
+};
+
+type SimplePrice = { ethereum?: { usd?: number; last_updated_at?: number } };
+
+/** ETH/USD from CoinGecko's simple price endpoint, with the time CoinGecko last updated it. */
+export class CoinGeckoRateProvider implements RateProvider {
+  readonly name = "coingecko";
+
+  constructor(private readonly config: CoinGeckoConfig) {}
+
+  async usdPerEth(): Promise<RateQuote> {
+    const url = `${this.config.baseUrl}/simple/price?ids=ethereum&vs_currencies=usd&include_last_updated_at=true`;
+    const res = await fetch(url, {
+      headers: this.config.apiKey ? { "x-cg-pro-api-key": this.config.apiKey } : {},
+      signal: AbortSignal.timeout(this.config.timeoutMs),
+    });
+    if (!res.ok) throw new RateUnavailableError(`coingecko responded ${res.status}`);
+    const body = (await res.json()) as SimplePrice;
+    const usd = body.ethereum?.usd;
+    const updated = body.ethereum?.last_updated_at;
+    if (typeof usd !== "number" || !(usd > 0) || typeof updated !== "number") {
+      throw new RateUnavailableError("coingecko returned no ETH/USD price");
+    }
+    return { usdPerEth: usd, asOf: new Date(updated * 1000), source: "coingecko" };
+  }
+}
@@ -0,0 +1,18 @@
+import type { RateProvider, RateQuote } from "./types";
+
+export type FixtureRateConfig = {
+  usdPerEth: number;
+  // Fixed observation time, e.g. to exercise the staleness limit; otherwise always "now"
+  asOf?: Date;
+};
+
+/** Answers a configured rate without any network access, for development and offline tests. */
+export class FixtureRateProvider implements RateProvider {
+  readonly name = "fixture";
+
+  constructor(private readonly config: FixtureRateConfig) {}
+
+  async usdPerEth(): Promise<RateQuote> {
+    return { usdPerEth: this.config.usdPerEth, asOf: this.config.asOf ?? new Date(), source: "fixture" };
+  }
+}
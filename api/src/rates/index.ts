@@ -0,0 +1,37 @@
+import { CachedRateProvider } from "./cache";
+import { CoinGeckoRateProvider } from "./coingecko";
+import { FixtureRateProvider } from "./fixture";
+import type { RateProvider } from "./types";
+
+export type { RateProvider, RateQuote } from "./types";
+export { CachedRateProvider, CoinGeckoRateProvider, FixtureRateProvider };
+export { RateUnavailableError } from "./types";
+
+// RATE_PROVIDER=coingecko (default) or fixture
+export function createRateProvider(): RateProvider {
+  const driver = process.env.RATE_PROVIDER || "coingecko";
+
+  if (driver === "fixture") {
+    return new FixtureRateProvider({
+      usdPerEth: Number(process.env.RATE_FIXTURE_USD_PER_ETH || 2500),
+      asOf: process.env.RATE_FIXTURE_AS_OF ? new Date(process.env.RATE_FIXTURE_AS_OF) : undefined,
+    });
+  }
+
+  if (driver === "coingecko") {
+    return new CoinGeckoRateProvider({
+      baseUrl: process.env.COINGECKO_BASE_URL || "https://api.coingecko.com/api/v3",
+      apiKey: process.env.COINGECKO_API_KEY || undefined,
+      timeoutMs: 5000,
+    });
+  }
+
+  throw new Error(`Unknown RATE_PROVIDER: ${driver}`);
+}
+
+const rates: RateProvider = new CachedRateProvider(createRateProvider(), {
+  ttlMs: Number(process.env.RATE_CACHE_SECONDS || 60) * 1000,
+  maxAgeMs: Number(process.env.RATE_MAX_AGE_SECONDS || 15 * 60) * 1000,
+});
+
+export default rates;
@@ -0,0 +1,20 @@
+// One observation of the ETH price in USD, as the provider reported it
+export type RateQuote = {
+  usdPerEth: number;
+  asOf: Date; // when the provider says the price was current, not when we asked
+  source: string; // provider name, recorded with every lock
+};
+
+export interface RateProvider {
+  readonly name: "fixture" | "coingecko" | "cached";
+
+  // Rejects when no rate is available; callers treat that as "try again later"
+  usdPerEth(): Promise<RateQuote>;
+}
+
+export class RateUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RateUnavailableError";
+  }
+}
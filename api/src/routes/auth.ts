@@ -0,0 +1,55 @@
+import express from "express";
+import { LoginBody, RegisterBody } from "@fawv/shared";
+import {
+  authenticate,
+  createAuthSession,
+  createUser,
+  deleteAuthSession,
+  purgeExpiredAuthSessions,
+} from "../lib/auth";
+import { clearSessionCookie, requireAuth, setSessionCookie } from "../middleware/auth";
+import { validateBody } from "../middleware/validate";
+
+const router = express.Router();
+
+router.post("/auth/register", validateBody(RegisterBody), async (req, res) => {
+  try {
+    const { email, password, displayName } = req.body as RegisterBody;
+    const user = await createUser({ email, password, displayName });
+    if (!user) return res.status(409).json({ error: "email_taken" });
+
+    setSessionCookie(res, createAuthSession(user.id).token);
+    res.status(201).json({ user });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "register_failed" });
+  }
+});
+
+router.post("/auth/login", validateBody(LoginBody), async (req, res) => {
+  try {
+    const { email, password } = req.body as LoginBody;
+    const user = await authenticate(email, password);
+    // same answer for unknown email and wrong password
+    if (!user) return res.status(401).json({ error: "invalid_credentials" });
+
+    purgeExpiredAuthSessions();
+    setSessionCookie(res, createAuthSession(user.id).token);
+    res.json({ user });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "login_failed" });
+  }
+});
+
+router.post("/auth/logout", (req, res) => {
+  if (req.authToken) deleteAuthSession(req.authToken);
+  clearSessionCookie(res);
+  res.json({ ok: true });
+});
+
+router.get("/auth/me", requireAuth, (req, res) => {
+  res.json({ user: req.user });
+});
+
+export default router;
@@ -0,0 +1,87 @@
+import express from "express";
+import path from "path";
+import storage from "../storage";
+import { parseRange } from "../lib/range";
+import { getReadableSession } from "../lib/access";
+import { getFile } from "../lib/sessions";
+import { requireAuth } from "../middleware/auth";
+
+const router = express.Router();
+
+router.use("/download", requireAuth);
+
+const DOWNLOAD_URL_TTL_SECONDS = 300;
+
+// Only files of a sealed session can be read back, by its owner or someone granted access
+function findDownload(userId: string, sessionId: string, relPath: unknown) {
+  const session = getReadableSession(sessionId, userId);
+  if (!session || session.status !== "sealed" || typeof relPath !== "string") return null;
+  const file = getFile(session.id, relPath);
+  return file?.state === "uploaded" ? file : null;
+}
+
+// Short-lived direct URL, so large downloads don't flow through the API
+router.get("/download/:sessionId", async (req, res) => {
+  try {
+    const file = findDownload(req.user!.id, req.params.sessionId, req.query.path);
+    if (!file) return res.status(404).json({ error: "not_found" });
+
+    const url = await storage.presignGet(file.objectKey, {
+      expiresIn: DOWNLOAD_URL_TTL_SECONDS,
+      filename: path.posix.basename(file.relPath),
+    });
+    res.json({
+      relPath: file.relPath,
+      size: file.size,
+      sha256: file.sha256,
+      url,
+      expiresAt: new Date(Date.now() + DOWNLOAD_URL_TTL_SECONDS * 1000).toISOString(),
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "presign_failed" });
+  }
+});
+
+// Proxied stream with Range support, for resumable or partial reads
+router.get("/download/:sessionId/stream", async (req, res) => {
+  try {
+    const file = findDownload(req.user!.id, req.params.sessionId, req.query.path);
+    if (!file) return res.status(404).json({ error: "not_found" });
+
+    const range = parseRange(req.headers.range, file.size);
+    res.setHeader("Accept-Ranges", "bytes");
+    if (range === "unsatisfiable") {
+      res.setHeader("Content-Range", `bytes */${file.size}`);
+      return res.status(416).end();
+    }
+
+    res.setHeader("Content-Type", file.contentType);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename*=UTF-8''${encodeURIComponent(path.posix.basename(file.relPath))}`
+    );
+    if (file.sha256) res.setHeader("ETag", `"${file.sha256}"`);
+
+    if (range) {
+      res.status(206);
+      res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${file.size}`);
+      res.setHeader("Content-Length", String(range.end - range.start + 1));
+    } else {
+      res.setHeader("Content-Length", String(file.size));
+    }
+
+    const body = await storage.read(file.objectKey, range ?? undefined);
+    body.on("error", (err) => {
+      console.error(err);
+      res.destroy(err);
+    });
+    body.pipe(res);
+  } catch (err) {
+    console.error(err);
+    if (!res.headersSent) res.status(500).json({ error: "download_failed" });
+    else res.destroy();
+  }
+});
+
+export default router;
@@ -0,0 +1,159 @@
+import express from "express";
+import { EmergencyDecisionBody, RequestEmergencyBody } from "@fawv/shared";
+import {
+  autoGrantDue,
+  createEmergencyRequest,
+  getEmergencyRequest,
+  isActiveGrant,
+  latestEmergencyRequestOf,
+  listEmergencyRequests,
+  notifyEmergencyStep,
+  resolveEmergencyRequest,
+} from "../lib/emergency";
+import { getHeir, getVerifiedHeir } from "../lib/heirs";
+import { FINAL_STATES } from "../lib/lifecycle";
+import { getOwnedVault, getVault, syncLifecycle } from "../lib/vaults";
+import { requireAuth } from "../middleware/auth";
+import { validateBody } from "../middleware/validate";
+
+const router = express.Router();
+
+router.use(["/vaults", "/emergency"], requireAuth);
+
+// A request as seen by the signed-in user: they must be the requesting heir or the vault's owner.
+// Requests whose veto window has run out are granted first, so nobody acts on a stale status.
+function loadRequest(id: string, userId: string) {
+  autoGrantDue();
+  const request = getEmergencyRequest(id);
+  if (!request) return null;
+  const vault = getVault(request.vaultId)!;
+  const heir = getHeir(request.heirId)!;
+  if (heir.userId === userId) return { request, vault, heir, role: "heir" as const };
+  if (vault.ownerId === userId) return { request, vault, heir, role: "owner" as const };
+  return null;
+}
+
+router.get("/vaults/:id/emergency", (req, res) => {
+  try {
+    const vault = getOwnedVault(req.params.id, req.user!.id);
+    if (!vault) return res.status(404).json({ error: "not_found" });
+    autoGrantDue();
+    res.json({ requests: listEmergencyRequests(vault.id) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "read_failed" });
+  }
+});
+
+router.post("/emergency", validateBody(RequestEmergencyBody), (req, res) => {
+  try {
+    const { vaultId, reason } = req.body as RequestEmergencyBody;
+    const heir = getVerifiedHeir(vaultId, req.user!.id);
+    if (!heir) return res.status(404).json({ error: "not_found" });
+    if (!heir.emergencyAccess) return res.status(403).json({ error: "not_designated" });
+
+    const { vault } = syncLifecycle(getVault(vaultId)!);
+    if (vault.status !== "minted") return res.status(409).json({ error: "vault_not_minted" });
+    // once the owner is gone, the claim process takes over
+    if (FINAL_STATES.has(vault.lifecycleState!)) {
+      return res.status(409).json({ error: "vault_orphaned", state: vault.lifecycleState });
+    }
+    autoGrantDue();
+    const previous = latestEmergencyRequestOf(heir.id);
+    if (previous?.status === "pending") return res.status(409).json({ error: "request_pending", requestId: previous.id });
+    if (previous && isActiveGrant(previous)) {
+      return res.status(409).json({ error: "access_granted", requestId: previous.id });
+    }
+
+    const request = createEmergencyRequest(vault, heir.id, reason);
+    notifyEmergencyStep(request);
+    res.status(201).json(request);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "request_failed" });
+  }
+});
+
+router.get("/emergency/:id", (req, res) => {
+  try {
+    const found = loadRequest(req.params.id, req.user!.id);
+    if (!found) return res.status(404).json({ error: "not_found" });
+    res.json(found.request);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "read_failed" });
+  }
+});
+
+router.post("/emergency/:id/approve", (req, res) => {
+  try {
+    const found = loadRequest(req.params.id, req.user!.id);
+    if (!found || found.role !== "owner") return res.status(404).json({ error: "not_found" });
+    if (found.request.status !== "pending") {
+      return res.status(409).json({ error: "request_not_pending", status: found.request.status });
+    }
+
+    const approved = resolveEmergencyRequest(found.request, "approved", "owner", { heirUserId: found.heir.userId! });
+    notifyEmergencyStep(approved);
+    res.json(approved);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "approve_failed" });
+  }
+});
+
+router.post("/emergency/:id/deny", validateBody(EmergencyDecisionBody), (req, res) => {
+  try {
+    const found = loadRequest(req.params.id, req.user!.id);
+    if (!found || found.role !== "owner") return res.status(404).json({ error: "not_found" });
+    if (found.request.status !== "pending") {
+      return res.status(409).json({ error: "request_not_pending", status: found.request.status });
+    }
+
+    const { note } = req.body as EmergencyDecisionBody;
+    const denied = resolveEmergencyRequest(found.request, "denied", "owner", { note });
+    notifyEmergencyStep(denied);
+    res.json(denied);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "deny_failed" });
+  }
+});
+
+router.post("/emergency/:id/cancel", (req, res) => {
+  try {
+    const found = loadRequest(req.params.id, req.user!.id);
+    if (!found || found.role !== "heir") return res.status(404).json({ error: "not_found" });
+    if (found.request.status !== "pending") {
+      return res.status(409).json({ error: "request_not_pending", status: found.request.status });
+    }
+
+    const cancelled = resolveEmergencyRequest(found.request, "cancelled", "heir");
+    notifyEmergencyStep(cancelled);
+    res.json(cancelled);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "cancel_failed" });
+  }
+});
+
+// Emergency access lasts until the owner withdraws it
+router.post("/emergency/:id/revoke", validateBody(EmergencyDecisionBody), (req, res) => {
+  try {
+    const found = loadRequest(req.params.id, req.user!.id);
+    if (!found || found.role !== "owner") return res.status(404).json({ error: "not_found" });
+    if (!isActiveGrant(found.request)) {
+      return res.status(409).json({ error: "not_granted", status: found.request.status });
+    }
+
+    const { note } = req.body as EmergencyDecisionBody;
+    const revoked = resolveEmergencyRequest(found.request, "revoked", "owner", { note });
+    notifyEmergencyStep(revoked);
+    res.json(revoked);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "revoke_failed" });
+  }
+});
+
+export default router;
@@ -0,0 +1,69 @@
+import express from "express";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import storage from "../storage";
+import { getReadableSession } from "../lib/access";
+import { listFiles } from "../lib/sessions";
+import { buildSessionManifest, checksumListing } from "../lib/manifest";
+import { TAR_END, fileHeader, padding } from "../lib/tar";
+import { requireAuth } from "../middleware/auth";
+
+const router = express.Router();
+
+type Entry = { header: Buffer; size: number; body: Buffer | (() => Promise<Readable>) };
+
+// Whole-vault export as a streamed tar: manifest.json and SHA256SUMS at the root,
+// the vault's files under files/ with their folder structure. Nothing is buffered
+// beyond one chunk, and Content-Length is known up front from the sealed file list.
+router.get("/export/:sessionId", requireAuth, async (req, res) => {
+  const session = getReadableSession(req.params.sessionId, req.user!.id);
+  if (!session || session.status !== "sealed") return res.status(404).json({ error: "not_found" });
+
+  const files = listFiles(session.id);
+  const mtime = new Date(session.sealedAt!);
+  const manifest = Buffer.from(JSON.stringify(buildSessionManifest(session, files), null, 2));
+  const sums = Buffer.from(checksumListing(files.map((f) => ({ path: `files/${f.relPath}`, sha256: f.sha256 }))));
+
+  const entries: Entry[] = [
+    { header: fileHeader("manifest.json", manifest.length, mtime), size: manifest.length, body: manifest },
+    { header: fileHeader("SHA256SUMS", sums.length, mtime), size: sums.length, body: sums },
+    ...files.map((f) => ({
+      header: fileHeader(`files/${f.relPath}`, f.size, new Date(f.uploadedAt ?? mtime)),
+      size: f.size,
+      body: () => storage.read(f.objectKey),
+    })),
+  ];
+  const total = entries.reduce((s, e) => s + e.header.length + e.size + padding(e.size).length, TAR_END.length);
+
+  async function* archive() {
+    for (const e of entries) {
+      yield e.header;
+      if (Buffer.isBuffer(e.body)) {
+        yield e.body;
+      } else {
+        let sent = 0;
+        for await (const chunk of await e.body()) {
+          sent += (chunk as Buffer).length;
+          yield chunk as Buffer;
+        }
+        // a short object would silently corrupt every entry after it
+        if (sent !== e.size) throw new Error(`size changed during export: expected ${e.size}, got ${sent}`);
+      }
+      yield padding(e.size);
+    }
+    yield TAR_END;
+  }
+
+  res.setHeader("Content-Type", "application/x-tar");
+  res.setHeader("Content-Length", String(total));
+  res.setHeader("Content-Disposition", `attachment; filename="vault-${session.id}.tar"`);
+  try {
+    await pipeline(Readable.from(archive()), res);
+  } catch (err) {
+    // headers are long gone; all we can do is cut the connection so the client sees a failure
+    console.error("export failed", session.id, err);
+    res.destroy();
+  }
+});
+
+export default router;
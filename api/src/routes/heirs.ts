@@ -0,0 +1,339 @@
+import express from "express";
+import {
+  AcceptInviteBody,
+  CompleteClaimBody,
+  InviteHeirBody,
+  StartClaimBody,
+  UpdateHeirBody,
+  VerifyClaimBody,
+  type Claim,
+  type ClaimDetail,
+  type InheritedVault,
+} from "@fawv/shared";
+import { hasGrant } from "../lib/access";
+import { getUser } from "../lib/auth";
+import {
+  CHALLENGE_TTL_MS,
+  answerChallenge,
+  cancelClaim,
+  completeClaim,
+  getClaim,
+  isOpen,
+  latestClaimOf,
+  listClaimEvents,
+  listClaims,
+  reissueChallenge,
+  reopensAt,
+  startClaim,
+} from "../lib/claims";
+import {
+  findHeirByInvite,
+  getHeir,
+  getVerifiedHeir,
+  heirloomRecipients,
+  heirView,
+  inviteHeir,
+  listHeirs,
+  listHeirshipsOf,
+  removeHeir,
+  setEmergencyAccess,
+  verifyHeir,
+  type HeirParty,
+} from "../lib/heirs";
+import { latestEmergencyRequestOf } from "../lib/emergency";
+import { getPublicKey } from "../lib/keys";
+import { FINAL_STATES } from "../lib/lifecycle";
+import { getSession } from "../lib/sessions";
+import { getOwnedVault, getVault, syncLifecycle, type Vault } from "../lib/vaults";
+import { requireAuth } from "../middleware/auth";
+import { validateBody } from "../middleware/validate";
+import { APP_BASE_URL, notify } from "../notify";
+
+const router = express.Router();
+
+router.use(["/vaults", "/heirs", "/claims"], requireAuth);
+
+function detail(claim: Claim): ClaimDetail {
+  return { ...claim, events: listClaimEvents(claim.id) };
+}
+
+// Codes go to the invited address, which the heir proved they hold when accepting
+function sendChallenge(heir: HeirParty, vault: Vault, code: string) {
+  notify({ email: heir.email }, "claim_code", { vaultName: vault.name, code, minutes: CHALLENGE_TTL_MS / 60_000 });
+}
+
+// A claim as seen by the signed-in user: they must be its heir or the vault's owner
+function loadClaim(claimId: string, userId: string) {
+  const claim = getClaim(claimId);
+  if (!claim) return null;
+  const vault = getVault(claim.vaultId)!;
+  const heir = getHeir(claim.heirId)!;
+  if (heir.userId === userId) return { claim, vault, heir, role: "heir" as const };
+  if (vault.ownerId === userId) return { claim, vault, heir, role: "owner" as const };
+  return null;
+}
+
+// ---- owner: who may inherit ----
+
+router.get("/vaults/:id/heirs", (req, res) => {
+  try {
+    const vault = getOwnedVault(req.params.id, req.user!.id);
+    if (!vault) return res.status(404).json({ error: "not_found" });
+    res.json({ heirs: listHeirs(vault.id).map(heirView) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "read_failed" });
+  }
+});
+
+router.post("/vaults/:id/heirs", validateBody(InviteHeirBody), (req, res) => {
+  try {
+    const owned = getOwnedVault(req.params.id, req.user!.id);
+    if (!owned) return res.status(404).json({ error: "not_found" });
+    const { vault } = syncLifecycle(owned);
+    if (vault.lifecycleState && FINAL_STATES.has(vault.lifecycleState)) {
+      return res.status(409).json({ error: "vault_orphaned", state: vault.lifecycleState });
+    }
+
+    const body = req.body as InviteHeirBody;
+    const invited = inviteHeir(vault.id, body);
+    if (!invited) return res.status(409).json({ error: "heir_exists" });
+
+    notify({ email: body.email }, "heir_invite", {
+      inviter: req.user!.displayName ?? req.user!.email,
+      vaultName: vault.name,
+      link: `${APP_BASE_URL}/?heirInvite=${encodeURIComponent(invited.token)}`,
+    });
+    res.status(201).json(heirView(invited.heir));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "invite_failed" });
+  }
+});
+
+router.patch("/vaults/:id/heirs/:heirId", validateBody(UpdateHeirBody), (req, res) => {
+  try {
+    const vault = getOwnedVault(req.params.id, req.user!.id);
+    const heir = vault && getHeir(req.params.heirId);
+    if (!vault || !heir || heir.vaultId !== vault.id) return res.status(404).json({ error: "not_found" });
+    res.json(heirView(setEmergencyAccess(heir.id, (req.body as UpdateHeirBody).emergencyAccess)));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "update_failed" });
+  }
+});
+
+router.delete("/vaults/:id/heirs/:heirId", (req, res) => {
+  try {
+    const owned = getOwnedVault(req.params.id, req.user!.id);
+    const heir = owned && getHeir(req.params.heirId);
+    if (!owned || !heir || heir.vaultId !== owned.id) return res.status(404).json({ error: "not_found" });
+    const { vault } = syncLifecycle(owned);
+    if (vault.lifecycleState && FINAL_STATES.has(vault.lifecycleState)) {
+      return res.status(409).json({ error: "vault_orphaned", state: vault.lifecycleState });
+    }
+
+    removeHeir(heir.id);
+    res.status(204).end();
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "remove_failed" });
+  }
+});
+
+router.get("/vaults/:id/claims", (req, res) => {
+  try {
+    const vault = getOwnedVault(req.params.id, req.user!.id);
+    if (!vault) return res.status(404).json({ error: "not_found" });
+    res.json({ claims: listClaims(vault.id).map(detail) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "read_failed" });
+  }
+});
+
+// ---- heir: accepting an invitation ----
+
+router.post("/heirs/accept", validateBody(AcceptInviteBody), (req, res) => {
+  try {
+    const heir = findHeirByInvite((req.body as AcceptInviteBody).token);
+    // an invitation is good for one account, and only one holding the invited address
+    if (!heir || (heir.userId && heir.userId !== req.user!.id)) return res.status(404).json({ error: "invalid_invite" });
+    if (heir.email !== req.user!.email) return res.status(403).json({ error: "email_mismatch", email: heir.email });
+    // an Heirloom vault already wrapped to this account's key would let this heir open it alone
+    const key = getPublicKey(req.user!.id)?.publicKey ?? null;
+    if (heir.status !== "verified" && heirloomRecipients(getVault(heir.vaultId)!, [key]).length) {
+      return res.status(409).json({ error: "heirloom_recipient" });
+    }
+
+    res.json(heirView(heir.status === "verified" ? heir : verifyHeir(heir.id, req.user!.id)));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "accept_failed" });
+  }
+});
+
+router.get("/heirs/me", (req, res) => {
+  try {
+    const vaults: InheritedVault[] = listHeirshipsOf(req.user!.id).map((heir) => {
+      const { vault } = syncLifecycle(getVault(heir.vaultId)!);
+      const owner = getUser(vault.ownerId);
+      return {
+        vaultId: vault.id,
+        vaultName: vault.name,
+        ownerName: owner?.displayName ?? owner?.email ?? "",
+        lifecycleState: vault.lifecycleState,
+        claimWaitingDays: vault.claimWaitingDays,
+        custodialStewardship: vault.custodialStewardship,
+        emergencyAccess: heir.emergencyAccess,
+        emergencyVetoDays: vault.emergencyVetoDays,
+        claim: latestClaimOf(heir.id),
+        emergency: latestEmergencyRequestOf(heir.id),
+        sessionId: hasGrant(vault.id, req.user!.id) ? vault.sessionId : null,
+        encryption: getSession(vault.sessionId)?.encryption ?? null,
+      };
+    });
+    res.json({ vaults });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "read_failed" });
+  }
+});
+
+// ---- claims ----
+
+router.post("/claims", validateBody(StartClaimBody), (req, res) => {
+  try {
+    const { vaultId } = req.body as StartClaimBody;
+    const heir = getVerifiedHeir(vaultId, req.user!.id);
+    if (!heir) return res.status(404).json({ error: "not_found" });
+
+    const { vault } = syncLifecycle(getVault(vaultId)!);
+    if (vault.lifecycleState !== "orphaned") {
+      return res.status(409).json({ error: "vault_not_orphaned", state: vault.lifecycleState });
+    }
+    const previous = latestClaimOf(heir.id);
+    if (previous && isOpen(previous)) return res.status(409).json({ error: "claim_open", claimId: previous.id });
+    // a claim that failed its challenge can't be restarted at once for a fresh set of guesses
+    const reopens = previous && reopensAt(previous);
+    if (reopens && reopens > new Date()) {
+      return res.status(409).json({ error: "claim_cooldown", retryAt: reopens.toISOString() });
+    }
+
+    const { claim, code } = startClaim(vault, heir);
+    sendChallenge(heir, vault, code);
+    notify({ userId: vault.ownerId }, "claim_opened", { vaultName: vault.name, heirName: heir.name, heirEmail: heir.email });
+    res.status(201).json(detail(claim));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "claim_failed" });
+  }
+});
+
+router.get("/claims/:id", (req, res) => {
+  try {
+    const found = loadClaim(req.params.id, req.user!.id);
+    if (!found) return res.status(404).json({ error: "not_found" });
+    res.json(detail(found.claim));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "read_failed" });
+  }
+});
+
+router.post("/claims/:id/challenge", (req, res) => {
+  try {
+    const found = loadClaim(req.params.id, req.user!.id);
+    if (!found || found.role !== "heir") return res.status(404).json({ error: "not_found" });
+    if (found.claim.status !== "challenge_sent") return res.status(409).json({ error: "claim_not_at_challenge" });
+
+    const code = reissueChallenge(found.claim);
+    if (code === null) return res.status(403).json({ error: "claim_rejected" });
+    sendChallenge(found.heir, found.vault, code);
+    res.json(detail(getClaim(found.claim.id)!));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "challenge_failed" });
+  }
+});
+
+router.post("/claims/:id/verify", validateBody(VerifyClaimBody), (req, res) => {
+  try {
+    const found = loadClaim(req.params.id, req.user!.id);
+    if (!found || found.role !== "heir") return res.status(404).json({ error: "not_found" });
+    const { claim, vault, heir } = found;
+    if (claim.status !== "challenge_sent") return res.status(409).json({ error: "claim_not_at_challenge" });
+
+    const result = answerChallenge(claim, (req.body as VerifyClaimBody).code, vault, req.user!.id);
+    if (result === "invalid") return res.status(400).json({ error: "invalid_code" });
+    if (result === "expired") return res.status(409).json({ error: "challenge_expired" });
+    if (result === "rejected") return res.status(403).json({ error: "claim_rejected" });
+
+    const verified = getClaim(claim.id)!;
+    notify({ userId: vault.ownerId }, "claim_verified", {
+      vaultName: vault.name,
+      heirName: heir.name,
+      heirEmail: heir.email,
+      waitingUntil: verified.waitingUntil!,
+    });
+    res.json(detail(verified));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "verify_failed" });
+  }
+});
+
+router.post("/claims/:id/complete", validateBody(CompleteClaimBody), (req, res) => {
+  try {
+    const found = loadClaim(req.params.id, req.user!.id);
+    if (!found || found.role !== "heir") return res.status(404).json({ error: "not_found" });
+    const { claim, heir } = found;
+    const { resolution } = req.body as CompleteClaimBody;
+    if (claim.status !== "waiting") return res.status(409).json({ error: "claim_not_waiting", status: claim.status });
+    if (new Date(claim.waitingUntil!) > new Date()) {
+      return res.status(409).json({ error: "waiting_period", waitingUntil: claim.waitingUntil });
+    }
+
+    const { vault } = syncLifecycle(found.vault);
+    if (vault.lifecycleState !== "orphaned") {
+      return res.status(409).json({ error: "vault_not_orphaned", state: vault.lifecycleState });
+    }
+    if (resolution === "stewardship" && !vault.custodialStewardship) {
+      return res.status(409).json({ error: "stewardship_not_offered" });
+    }
+
+    const done = completeClaim(claim, resolution, heir);
+    notify({ userId: vault.ownerId }, "claim_completed", {
+      vaultName: vault.name,
+      heirName: heir.name,
+      heirEmail: heir.email,
+      resolution,
+    });
+    res.json(detail(done));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "complete_failed" });
+  }
+});
+
+// Either side may withdraw an open claim; for the owner this is the objection the waiting period allows
+router.post("/claims/:id/cancel", (req, res) => {
+  try {
+    const found = loadClaim(req.params.id, req.user!.id);
+    if (!found) return res.status(404).json({ error: "not_found" });
+    if (!isOpen(found.claim)) return res.status(409).json({ error: "claim_closed", status: found.claim.status });
+
+    const cancelled = cancelClaim(found.claim, found.role, req.user!.id);
+    if (found.role === "owner") {
+      notify({ userId: found.heir.userId! }, "claim_cancelled", { vaultName: found.vault.name });
+    } else {
+      notify({ userId: found.vault.ownerId }, "claim_withdrawn", { vaultName: found.vault.name, heirName: found.heir.name });
+    }
+    res.json(detail(cancelled));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "cancel_failed" });
+  }
+});
+
+export default router;
@@ -0,0 +1,40 @@
+import express from "express";
+import { PublishKeyBody } from "@fawv/shared";
+import { heirloomRecipients, listHeirshipsOf } from "../lib/heirs";
+import { getPublicKey, setPublicKey } from "../lib/keys";
+import { getVault } from "../lib/vaults";
+import { requireAuth } from "../middleware/auth";
+import { validateBody } from "../middleware/validate";
+
+const router = express.Router();
+
+router.use("/keys", requireAuth);
+
+router.get("/keys/me", (req, res) => {
+  try {
+    const key = getPublicKey(req.user!.id);
+    if (!key) return res.status(404).json({ error: "not_found" });
+    res.json(key);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "read_failed" });
+  }
+});
+
+// An heir may not take on a key an Heirloom vault they inherit is wrapped to:
+// they would open it alone
+router.put("/keys/me", validateBody(PublishKeyBody), (req, res) => {
+  try {
+    const { publicKey } = req.body as PublishKeyBody;
+    const wrapped = listHeirshipsOf(req.user!.id).some(
+      (h) => heirloomRecipients(getVault(h.vaultId)!, [publicKey]).length
+    );
+    if (wrapped) return res.status(409).json({ error: "heirloom_recipient" });
+    res.json(setPublicKey(req.user!.id, publicKey));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "update_failed" });
+  }
+});
+
+export default router;
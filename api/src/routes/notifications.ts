@@ -0,0 +1,49 @@
+import express from "express";
+import { UpdateNotificationPreferencesBody } from "@fawv/shared";
+import { requireAuth } from "../middleware/auth";
+import { validateBody } from "../middleware/validate";
+import { getPreferences, listNotifications, notify, updatePreferences } from "../notify";
+
+const router = express.Router();
+
+router.use("/notifications", requireAuth);
+
+router.get("/notifications", (req, res) => {
+  try {
+    res.json({ notifications: listNotifications(req.user!.id) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "read_failed" });
+  }
+});
+
+router.get("/notifications/preferences", (req, res) => {
+  try {
+    res.json(getPreferences(req.user!.id));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "read_failed" });
+  }
+});
+
+router.patch("/notifications/preferences", validateBody(UpdateNotificationPreferencesBody), (req, res) => {
+  try {
+    res.json(updatePreferences(req.user!.id, req.body as UpdateNotificationPreferencesBody));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "update_failed" });
+  }
+});
+
+// Sends a message on every enabled channel so the user can check their settings
+router.post("/notifications/test", (req, res) => {
+  try {
+    const id = notify({ userId: req.user!.id }, "test", { name: req.user!.displayName ?? req.user!.email });
+    res.status(202).json({ id });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "send_failed" });
+  }
+});
+
+export default router;
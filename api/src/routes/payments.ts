@@ -0,0 +1,93 @@
+import express from "express";
+import { CreatePaymentBody, RefundPaymentBody } from "@fawv/shared";
+import {
+  capturePayment,
+  createPayment,
+  getOwnedPayment,
+  PaymentInProgressError,
+  paysForSeal,
+  quoteMinted,
+  refundPayment,
+} from "../lib/payments";
+import { validQuote } from "../lib/quotes";
+import { requireAuth } from "../middleware/auth";
+import { validateBody } from "../middleware/validate";
+import { RateUnavailableError } from "../rates";
+
+const router = express.Router();
+
+router.use("/payments", requireAuth);
+
+// Authorizes a quote's price and any endowment; nothing is taken until capture
+router.post("/payments", validateBody(CreatePaymentBody), async (req, res) => {
+  try {
+    const { quoteId, endowmentUsd, paymentMethod } = req.body as CreatePaymentBody;
+    const check = validQuote(quoteId, req.user!.id);
+    if (!check.ok) return res.status(check.status).json({ error: check.error });
+
+    const payment = await createPayment(req.user!.id, check.quote, { endowmentUsd, paymentMethod });
+    if (payment.status === "failed") {
+      return res.status(402).json({ error: "payment_declined", reason: payment.failureReason, payment });
+    }
+    // the quote is already being paid for, with another endowment: a new quote starts over
+    if ((payment.endowment?.usd ?? null) !== (endowmentUsd ?? null)) {
+      return res.status(409).json({ error: "payment_exists", payment });
+    }
+    res.status(201).json(payment);
+  } catch (err) {
+    if (err instanceof RateUnavailableError) return res.status(503).json({ error: "rate_unavailable" });
+    if (err instanceof PaymentInProgressError) return res.status(409).json({ error: "payment_in_progress" });
+    console.error(err);
+    res.status(502).json({ error: "payment_provider_error" });
+  }
+});
+
+router.get("/payments/:id", (req, res) => {
+  try {
+    const payment = getOwnedPayment(req.params.id, req.user!.id);
+    if (!payment) return res.status(404).json({ error: "not_found" });
+    res.json(payment);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "read_failed" });
+  }
+});
+
+router.post("/payments/:id/capture", async (req, res) => {
+  try {
+    const payment = getOwnedPayment(req.params.id, req.user!.id);
+    if (!payment) return res.status(404).json({ error: "not_found" });
+    if (payment.status !== "requires_capture" && payment.status !== "captured") {
+      return res.status(409).json({ error: "payment_not_capturable", status: payment.status });
+    }
+    res.json(await capturePayment(payment, req.user!.id));
+  } catch (err) {
+    if (err instanceof PaymentInProgressError) return res.status(409).json({ error: "payment_in_progress" });
+    console.error(err);
+    res.status(502).json({ error: "payment_provider_error" });
+  }
+});
+
+// Refunds in full while nothing depends on it: not once it paid for a sealed upload or a minted vault
+router.post("/payments/:id/refund", validateBody(RefundPaymentBody), async (req, res) => {
+  try {
+    const payment = getOwnedPayment(req.params.id, req.user!.id);
+    if (!payment) return res.status(404).json({ error: "not_found" });
+    // a top-up is in the fund already, and the ledger only ever moves forward
+    if (payment.status !== "captured" || payment.purpose !== "checkout") {
+      return res.status(409).json({ error: "payment_not_refundable", status: payment.status });
+    }
+    if (quoteMinted(payment.quoteId!)) return res.status(409).json({ error: "vault_minted" });
+    // sealing committed the files to storage on the strength of this payment
+    if (paysForSeal(payment)) return res.status(409).json({ error: "session_sealed" });
+
+    const { reason } = req.body as RefundPaymentBody;
+    res.json(await refundPayment(payment, req.user!.id, reason));
+  } catch (err) {
+    if (err instanceof PaymentInProgressError) return res.status(409).json({ error: "payment_in_progress" });
+    console.error(err);
+    res.status(502).json({ error: "payment_provider_error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,21 @@
+import express from "express";
+import { ProjectEndowmentBody } from "@fawv/shared";
+import { projectEndowment } from "../lib/projection";
+import { requireAuth } from "../middleware/auth";
+import { validateBody } from "../middleware/validate";
+
+const router = express.Router();
+
+router.use("/projections", requireAuth);
+
+// Whether an endowment would last the plan's horizon; nothing is stored
+router.post("/projections/endowment", validateBody(ProjectEndowmentBody), (req, res) => {
+  try {
+    res.json(projectEndowment(req.body as ProjectEndowmentBody));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "projection_failed" });
+  }
+});
+
+export default router;
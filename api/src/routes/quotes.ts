@@ -0,0 +1,54 @@
+import express from "express";
+import { CreateQuoteBody } from "@fawv/shared";
+import { currentPriceBook } from "../lib/pricing";
+import { createQuote, getOwnedQuote } from "../lib/quotes";
+import { getOwnedSession, sessionTotals } from "../lib/sessions";
+import { requireAuth } from "../middleware/auth";
+import { validateBody } from "../middleware/validate";
+
+const router = express.Router();
+
+// Rates are public; anyone may look before signing up
+router.get("/price-books/current", (_req, res) => {
+  try {
+    res.json(currentPriceBook());
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "read_failed" });
+  }
+});
+
+router.use("/quotes", requireAuth);
+
+router.post("/quotes", validateBody(CreateQuoteBody), (req, res) => {
+  try {
+    const body = req.body as CreateQuoteBody;
+    const session = getOwnedSession(body.sessionId, req.user!.id);
+    if (!session) return res.status(404).json({ error: "unknown_session" });
+    // quoted before sealing, which needs it paid; if the session grows after, sealing refuses the quote
+    if (!sessionTotals(session.id).files) return res.status(409).json({ error: "no_files" });
+
+    const quote = createQuote(req.user!.id, session.id, {
+      product: body.product,
+      escrowYears: body.escrowYears ?? null,
+      redundancy: body.redundancy ?? "single",
+    });
+    res.status(201).json(quote);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "quote_failed" });
+  }
+});
+
+router.get("/quotes/:id", (req, res) => {
+  try {
+    const quote = getOwnedQuote(req.params.id, req.user!.id);
+    if (!quote) return res.status(404).json({ error: "not_found" });
+    res.json(quote);
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "read_failed" });
+  }
+});
+
+export default router;
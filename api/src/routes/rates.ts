@@ -0,0 +1,18 @@
+import express from "express";
+import rates, { RateUnavailableError } from "../rates";
+
+const router = express.Router();
+
+// What an endowment would convert at right now; the rate is only locked when its payment is created
+router.get("/rates/eth-usd", async (_req, res) => {
+  try {
+    const rate = await rates.usdPerEth();
+    res.json({ usdPerEth: rate.usdPerEth, source: rate.source, asOf: rate.asOf.toISOString() });
+  } catch (err) {
+    if (err instanceof RateUnavailableError) return res.status(503).json({ error: "rate_unavailable" });
+    console.error(err);
+    res.status(500).json({ error: "read_failed" });
+  }
+});
+
+export default router;
@@ -0,0 +1,68 @@
+import express from "express";
+import { pipeline } from "stream";
+import { ChecksumMismatchError, InvalidKeyError, type LocalStorage } from "../storage";
+import { parseRange } from "../lib/range";
+
+// Serves the signed URLs issued by the local storage driver.
+// Mounted ahead of express.json() so request bodies arrive as raw streams.
+export default function localStorageRouter(storage: LocalStorage) {
+  const router = express.Router();
+
+  router.put("/storage/local/:token", async (req, res) => {
+    const grant = storage.verify(req.params.token);
+    if (!grant || grant.op === "get") return res.status(403).json({ error: "bad_signature" });
+    try {
+      const { etag } =
+        grant.op === "part"
+          ? await storage.writePart(grant.uploadId, grant.partNumber, req)
+          : await storage.writeObject(grant.key, req, grant.sha256);
+      res.setHeader("ETag", etag);
+      res.setHeader("Access-Control-Expose-Headers", "ETag");
+      res.status(200).end();
+    } catch (err) {
+      if (err instanceof ChecksumMismatchError) {
+        return res.status(400).json({ error: "checksum_mismatch", expected: err.expected, got: err.got });
+      }
+      if (err instanceof InvalidKeyError) return res.status(400).json({ error: "invalid_key" });
+      console.error(err);
+      res.status(500).json({ error: "write_failed" });
+    }
+  });
+
+  router.get("/storage/local/:token", async (req, res) => {
+    const grant = storage.verify(req.params.token);
+    if (!grant || grant.op !== "get") return res.status(403).json({ error: "bad_signature" });
+    try {
+      const info = await storage.head(grant.key);
+      if (!info) return res.status(404).json({ error: "not_found" });
+      const range = parseRange(req.headers.range, info.size);
+      res.setHeader("Accept-Ranges", "bytes");
+      if (range === "unsatisfiable") {
+        res.setHeader("Content-Range", `bytes */${info.size}`);
+        return res.status(416).end();
+      }
+      res.setHeader("Content-Type", "application/octet-stream");
+      if (grant.filename) {
+        res.setHeader("Content-Disposition", `attachment; filename*=UTF-8''${encodeURIComponent(grant.filename)}`);
+      }
+      if (range) {
+        res.status(206);
+        res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${info.size}`);
+        res.setHeader("Content-Length", String(range.end - range.start + 1));
+      } else {
+        res.setHeader("Content-Length", String(info.size));
+      }
+      pipeline(await storage.read(grant.key, range ?? undefined), res, (err) => {
+        // headers are out by now, so the client just sees the body cut short
+        if (err && (err as NodeJS.ErrnoException).code !== "ERR_STREAM_PREMATURE_CLOSE") console.error(err);
+      });
+    } catch (err) {
+      if (err instanceof InvalidKeyError) return res.status(400).json({ error: "invalid_key" });
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return res.status(404).json({ error: "not_found" });
+      console.error(err);
+      res.status(500).json({ error: "read_failed" });
+    }
+  });
+
+  return router;
+}
@@ -1,48 +1,156 @@
+
 import express from "express";
-import { S3Client, PutObjectCommand } from "@aws-sdk/client-s3";
-import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
 import crypto from "crypto";
+import {
+  MAX_PARTS,
+  MERKLE_ALGORITHM,
+  MultipartAbortBody,
+  MultipartCompleteBody,
+  MultipartPartsBody,
+  SealBody,
+  UploadStartBody,
+  type EncryptionParams,
+} from "@fawv/shared";
+import storage from "../storage";
+import { getReadableSession } from "../lib/access";
+import { verifyObject } from "../lib/integrity";
+import { buildSessionManifest, merkleEntries } from "../lib/manifest";
+import { buildMerkle, inclusionProof } from "../lib/merkle";
+import { sessionPaid } from "../lib/payments";
+import {
+  ensureSession,
+  getFile,
+  getFileByKey,
+  getOwnedSession,
+  getSession,
+  listFiles,
+  markVerified,
+  recordPresigned,
+  sealSession,
+  setFileState,
+  setSessionEncryption,
+  touchFile,
+  type UploadFile,
+} from "../lib/sessions";
+import { requireAuth } from "../middleware/auth";
+import { validateBody } from "../middleware/validate";
+import { notify } from "../notify";
 
 
 const router = express.Router();
 
-const BUCKET = process.env.AWS_S3_BUCKET!;
-const REGION = process.env.AWS_REGION || "us-east-1";
-const s3 = new S3Client({ region: REGION, 
-  requestChecksumCalculation: "NEVER" });
+// Every upload session belongs to the signed-in user who started it
+router.use("/upload", requireAuth);
+
+// Files above this size are uploaded in parts; S3 caps a single PUT at 5 GB
+// and multipart lets the browser retry one part instead of the whole file.
+const MULTIPART_THRESHOLD = 64 * 1024 * 1024;
+const MIN_PART_SIZE = 16 * 1024 * 1024;
+const URL_TTL_SECONDS = 3600;
+
+function partSizeFor(size: number) {
+  const mib = 1024 * 1024;
+  return Math.max(MIN_PART_SIZE, Math.ceil(size / MAX_PARTS / mib) * mib);
+}
+
+// Only multipart uploads started by /upload/start (still open, and the caller's) may be continued
+function findMultipart(objectKey: string, uploadId: string, ownerId: string): UploadFile | null {
+  const file = getFileByKey(objectKey);
+  if (!file || file.uploadId !== uploadId || file.state !== "presigned") return null;
+  return getOwnedSession(file.sessionId, ownerId)?.status === "open" ? file : null;
+}
 
+// A session's files all open with one key, or are all stored as uploaded. The
+// recipient list may differ: it's managed through the vault once there is one.
+function sameKey(a: EncryptionParams | null, b: EncryptionParams | null) {
+  if (!a || !b) return a === b;
+  return a.mode === b.mode && a.format === b.format && a.keyCheck === b.keyCheck && a.chunkBytes === b.chunkBytes;
+}
 
-type FileReq = { relPath: string; size: number; contentType?: string };
+// Reconciles "presigned" files against what actually landed in the bucket
+async function reconcile(file: UploadFile): Promise<UploadFile> {
+  if (file.state !== "presigned") return file;
+  const head = await storage.head(file.objectKey);
+  if (head?.size === file.size) {
+    setFileState(file, "uploaded");
+    return getFileByKey(file.objectKey)!;
+  }
+  const age = Date.now() - Date.parse(file.presignedAt);
+  if (age > URL_TTL_SECONDS * 1000) {
+    setFileState(file, "abandoned");
+    return getFileByKey(file.objectKey)!;
+  }
+  return file;
+}
 
-router.post("/upload/start", async (req, res) => {
+router.post("/upload/start", validateBody(UploadStartBody), async (req, res) => {
   try {
-    const { sessionId, files } = req.body as { sessionId?: string; files: FileReq[] };
-    if (!files?.length) return res.status(400).json({ error: "no_files" });
+    const { sessionId, files, encryption } = req.body as UploadStartBody;
+    const ownerId = req.user!.id;
 
-    const sid =
-      sessionId && /^[a-zA-Z0-9_-]{6,}$/.test(sessionId)
-        ? sessionId
-        : crypto.randomBytes(8).toString("hex");
+    // A malformed id, or one someone else already owns, gets a fresh session instead
+    const requested =
+      sessionId && /^[a-zA-Z0-9_-]{6,64}$/.test(sessionId) ? ensureSession(sessionId, ownerId) : null;
+    const session = requested ?? ensureSession(crypto.randomBytes(8).toString("hex"), ownerId)!;
+    if (session.status !== "open") return res.status(409).json({ error: "session_sealed" });
+    const sid = session.id;
+    if (!sameKey(session.encryption, encryption ?? null)) {
+      // only a session with no files yet can still choose
+      if (session.encryption || listFiles(sid).length) return res.status(409).json({ error: "encryption_mismatch" });
+      setSessionEncryption(sid, encryption!);
+    }
 
     const items = await Promise.all(
       files.map(async (f) => {
         const safePath = f.relPath.replace(/^([./])+/, "").replace(/\.\.\//g, "");
-        const key = `demo/${sid}/${safePath}`;
+        const key = `users/${ownerId}/${sid}/${safePath}`;
         const contentType = f.contentType || "application/octet-stream";
-
-        const cmd = new PutObjectCommand({
-          Bucket: BUCKET,
-          Key: key,
-        });
-        const uploadUrl = await getSignedUrl(s3, cmd, { expiresIn: 3600 }); // 10 min
-
-        return {
+        const sha256 = f.sha256;
+        const base = {
           relPath: safePath,
           objectKey: key,
-          s3Uri: `s3://${BUCKET}/${key}`,
-          uploadUrl,
+          s3Uri: storage.uri(key),
           contentType,
+          sha256,
         };
+
+        // Already in the bucket from an earlier attempt: nothing to presign
+        const existing = getFile(sid, safePath);
+        if (existing?.state === "uploaded" && existing.size === f.size && existing.sha256 === sha256) {
+          return { ...base, state: existing.state };
+        }
+
+        // A multipart upload an earlier attempt left open: resumed for these same bytes, otherwise
+        // aborted so the bucket doesn't keep its parts
+        const open = existing?.uploadId && existing.state !== "uploaded" ? existing : null;
+        const abortOpen = () =>
+          storage.abortMultipart(key, open!.uploadId!).catch((err) => console.warn("[upload] abort failed", err));
+
+        if (f.size > MULTIPART_THRESHOLD) {
+          const partSize = partSizeFor(f.size);
+          const uploadedParts =
+            open && open.size === f.size && open.sha256 === sha256 ? await storage.listParts(key, open.uploadId!) : null;
+          if (open && !uploadedParts) await abortOpen();
+          const uploadId = uploadedParts ? open!.uploadId! : await storage.createMultipart(key, { contentType });
+          recordPresigned(sid, { ...base, size: f.size, uploadId });
+          return {
+            ...base,
+            state: "presigned",
+            multipart: {
+              uploadId,
+              partSize,
+              partCount: Math.ceil(f.size / partSize),
+              uploadedParts: uploadedParts ?? [],
+            },
+          };
+        }
+
+        if (open) await abortOpen();
+        // The hash is bound into the presigned PUT, so the backend rejects other bytes
+        const put = await storage.presignPut(key, { expiresIn: URL_TTL_SECONDS, sha256 });
+        recordPresigned(sid, { ...base, size: f.size });
+
+        return { ...base, state: "presigned", uploadUrl: put.url, headers: put.headers };
       })
     );
 
@@ -53,5 +161,196 @@ router.post("/upload/start", async (req, res) => {
   }
 });
 
-export default router;
+// Presign part URLs on demand, so a retry always gets a fresh URL
+router.post("/upload/multipart/parts", validateBody(MultipartPartsBody), async (req, res) => {
+  try {
+    const { objectKey, uploadId, partNumbers } = req.body as MultipartPartsBody;
+    const file = findMultipart(objectKey, uploadId, req.user!.id);
+    if (!file) return res.status(404).json({ error: "unknown_upload" });
+
+    const parts = await Promise.all(
+      partNumbers.map(async (partNumber) => {
+        const url = await storage.presignPart(file.objectKey, file.uploadId!, partNumber, {
+          expiresIn: URL_TTL_SECONDS,
+        });
+        return { partNumber, url };
+      })
+    );
+    touchFile(file);
+
+    res.json({ parts });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "presign_failed" });
+  }
+});
+
+router.post("/upload/multipart/complete", validateBody(MultipartCompleteBody), async (req, res) => {
+  try {
+    const { objectKey, uploadId, parts } = req.body as MultipartCompleteBody;
+    const file = findMultipart(objectKey, uploadId, req.user!.id);
+    if (!file) return res.status(404).json({ error: "unknown_upload" });
+
+    const sorted = [...parts].sort((a, b) => a.partNumber - b.partNumber);
+    const out = await storage.completeMultipart(file.objectKey, file.uploadId!, sorted);
+    setFileState(file, "uploaded");
+
+    res.json({ ok: true, objectKey: file.objectKey, etag: out.etag });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "complete_failed" });
+  }
+});
+
+router.post("/upload/multipart/abort", validateBody(MultipartAbortBody), async (req, res) => {
+  try {
+    const { objectKey, uploadId } = req.body as MultipartAbortBody;
+    const file = findMultipart(objectKey, uploadId, req.user!.id);
+    if (!file) return res.status(404).json({ error: "unknown_upload" });
+
+    await storage.abortMultipart(file.objectKey, file.uploadId!);
+    setFileState(file, "abandoned");
+    res.json({ ok: true });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "abort_failed" });
+  }
+});
+
+// Seals a session once every file is in storage and matches its declared SHA-256.
+// Multipart objects have no whole-file checksum in S3, so those are re-hashed here.
+router.post("/upload/complete", validateBody(SealBody), async (req, res) => {
+  try {
+    const { sessionId } = req.body as SealBody;
+    const session = getOwnedSession(sessionId, req.user!.id);
+    if (!session) return res.status(404).json({ error: "unknown_session" });
+    if (session.status === "sealed") {
+      return res.json({
+        sessionId: session.id,
+        status: session.status,
+        sealedAt: session.sealedAt,
+        merkleRoot: session.merkleRoot,
+      });
+    }
+
+    const files = await Promise.all(listFiles(session.id).map(reconcile));
+    if (!files.length) return res.status(409).json({ error: "no_files" });
+    const missing = files.filter((f) => f.state !== "uploaded" && f.state !== "mismatch");
+    if (missing.length) {
+      return res.status(409).json({ error: "incomplete", missing: missing.map((f) => f.relPath) });
+    }
+    // sealing commits the files to storage: only once a quote for exactly them is paid
+    if (!sessionPaid(session.id)) return res.status(402).json({ error: "payment_required" });
+
+    const mismatches: { relPath: string; expected: string | null; got: string | null }[] = [];
+    for (const file of files) {
+      if (file.verifiedAt && file.state === "uploaded") continue;
+      const check = file.sha256 ? await verifyObject(storage, file.objectKey, file.sha256) : null;
+      if (check?.ok) {
+        if (file.state !== "uploaded") setFileState(file, "uploaded");
+        markVerified(file);
+      } else {
+        setFileState(file, "mismatch");
+        mismatches.push({ relPath: file.relPath, expected: file.sha256, got: check?.got ?? null });
+      }
+    }
+    if (mismatches.length) {
+      return res.status(409).json({ error: "integrity_mismatch", files: mismatches });
+    }
+
+    const { root } = buildMerkle(merkleEntries(files));
+    const sealed = sealSession(session.id, root);
+    notify({ userId: req.user!.id }, "upload_receipt", {
+      sessionId: sealed.id,
+      files: files.length,
+      bytes: files.reduce((sum, f) => sum + f.size, 0),
+      merkleRoot: sealed.merkleRoot!,
+      sealedAt: sealed.sealedAt!,
+    });
+    res.json({
+      sessionId: sealed.id,
+      status: sealed.status,
+      sealedAt: sealed.sealedAt,
+      merkleRoot: sealed.merkleRoot,
+      files: listFiles(sealed.id).map((f) => ({ relPath: f.relPath, size: f.size, sha256: f.sha256 })),
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "complete_failed" });
+  }
+});
+
+// Session progress: which files landed, which are still missing
+router.get("/upload/:sessionId", async (req, res) => {
+  try {
+    const session = getOwnedSession(req.params.sessionId, req.user!.id);
+    if (!session) return res.status(404).json({ error: "unknown_session" });
+
+    const files = await Promise.all(listFiles(session.id).map(reconcile));
+    const uploaded = files.filter((f) => f.state === "uploaded");
+    const bytes = files.reduce((s, f) => s + f.size, 0);
+    const uploadedBytes = uploaded.reduce((s, f) => s + f.size, 0);
+
+    res.json({
+      sessionId: session.id,
+      status: session.status,
+      createdAt: session.createdAt,
+      updatedAt: getSession(session.id)!.updatedAt,
+      sealedAt: session.sealedAt,
+      merkleRoot: session.merkleRoot,
+      encryption: session.encryption,
+      progress: {
+        files: files.length,
+        uploadedFiles: uploaded.length,
+        bytes,
+        uploadedBytes,
+        percent: bytes ? Math.round((uploadedBytes / bytes) * 100) : 0,
+      },
+      files: files.map((f) => ({
+        relPath: f.relPath,
+        objectKey: f.objectKey,
+        size: f.size,
+        contentType: f.contentType,
+        sha256: f.sha256,
+        state: f.state,
+        multipart: !!f.uploadId,
+        uploadedAt: f.uploadedAt,
+        verifiedAt: f.verifiedAt,
+      })),
+      missing: files.filter((f) => f.state !== "uploaded").map((f) => f.relPath),
+    });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "status_failed" });
+  }
+});
+
+// Manifest of a sealed session, including the Merkle root and every leaf. Heirs
+// with access read it too: it lists the files and how to unlock them.
+router.get("/upload/:sessionId/manifest", (req, res) => {
+  const session = getReadableSession(req.params.sessionId, req.user!.id);
+  if (!session || session.status !== "sealed") return res.status(404).json({ error: "not_found" });
+  res.json(buildSessionManifest(session, listFiles(session.id)));
+});
 
+// Inclusion proof for one file: enough to tie it to the vault's root without
+// disclosing any other file's path or contents.
+router.get("/upload/:sessionId/proof", (req, res) => {
+  const session = getOwnedSession(req.params.sessionId, req.user!.id);
+  if (!session || session.status !== "sealed") return res.status(404).json({ error: "not_found" });
+  const relPath = req.query.path;
+  const file = typeof relPath === "string" ? getFile(session.id, relPath) : null;
+  if (!file) return res.status(404).json({ error: "not_found" });
+
+  const proof = inclusionProof(merkleEntries(listFiles(session.id)), file.relPath)!;
+  res.json({
+    sessionId: session.id,
+    algorithm: MERKLE_ALGORITHM,
+    merkleRoot: session.merkleRoot,
+    path: file.relPath,
+    sha256: file.sha256,
+    ...proof,
+  });
+});
+
+export default router;
@@ -0,0 +1,373 @@
+import express from "express";
+import {
+  CreateVaultBody,
+  TopUpEndowmentBody,
+  UpdateRecipientsBody,
+  UpdateSharingBody,
+  UpdateVaultBody,
+  type VaultLifecycle,
+} from "@fawv/shared";
+import { listHeartbeats, recordHeartbeat } from "../lib/heartbeats";
+import { heirKeys, heirloomRecipients, listHeirs } from "../lib/heirs";
+import { FINAL_STATES, type Evaluation } from "../lib/lifecycle";
+import { lockEndowment } from "../lib/endowment";
+import { endowmentLedger, openLedger, syncEndowment } from "../lib/ledger";
+import { capturePayment, createTopUp, paidEndowment } from "../lib/payments";
+import { fixityHistory } from "../lib/preservation";
+import { checkQuote, quotePaid } from "../lib/quotes";
+import { drainReplication, dropReplicas, replicaStatuses, replicationStatus } from "../lib/replication";
+import { getOwnedSession, getSession, listFiles, sessionTotals, setSessionEncryption } from "../lib/sessions";
+import {
+  createVault,
+  getOwnedVault,
+  getVaultBySession,
+  listLifecycleEvents,
+  listVaults,
+  syncLifecycle,
+  updateVault,
+  type Vault,
+  type VaultPatch,
+} from "../lib/vaults";
+import { requireAuth } from "../middleware/auth";
+import { validateBody } from "../middleware/validate";
+import { RateUnavailableError } from "../rates";
+import { mirror } from "../storage";
+
+const router = express.Router();
+
+router.use("/vaults", requireAuth);
+
+// Once minted, a vault's identity is fixed; the manifest and heir settings stay living documents
+const MUTABLE_AFTER_MINT = new Set<keyof UpdateVaultBody>([
+  "visibility",
+  "manifestText",
+  "claimWaitingDays",
+  "custodialStewardship",
+  "emergencyVetoDays",
+]);
+
+function lifecycleView(v: Vault, e: Evaluation | null): VaultLifecycle | null {
+  if (!e) return null;
+  return {
+    state: e.state,
+    since: e.since.toISOString(),
+    nextHeartbeat: e.nextHeartbeat?.toISOString() ?? null,
+    next: e.next ? { state: e.next.state, at: e.next.from.toISOString() } : null,
+    endowmentExhaustedAt: v.endowmentExhaustedAt,
+  };
+}
+
+// Lifecycle state is brought up to date whenever a vault is read
+function summary(v: Vault) {
+  const { lifecycle } = syncLifecycle(v);
+  return {
+    id: v.id,
+    name: v.name,
+    product: v.product,
+    escrowYears: v.escrowYears,
+    heartbeatMonths: v.heartbeatMonths,
+    redundancy: v.redundancy,
+    visibility: v.visibility,
+    status: v.status,
+    sessionId: v.sessionId,
+    archive: { merkleRoot: getSession(v.sessionId)?.merkleRoot ?? null, ...sessionTotals(v.sessionId) },
+    createdAt: v.createdAt,
+    updatedAt: v.updatedAt,
+    mintedAt: v.mintedAt,
+    lifecycle: lifecycleView(v, lifecycle),
+  };
+}
+
+function record(v: Vault) {
+  const replicas = v.redundancy === "dual" ? replicaStatuses(v.sessionId) : null;
+  return {
+    ...summary(v),
+    manifestText: v.manifestText,
+    price: v.price,
+    quoteId: v.quoteId,
+    endowment: v.endowment,
+    token: v.token,
+    claimWaitingDays: v.claimWaitingDays,
+    custodialStewardship: v.custodialStewardship,
+    emergencyVetoDays: v.emergencyVetoDays,
+    files: listFiles(v.sessionId).map((f) => ({
+      path: f.relPath,
+      sizeBytes: f.size,
+      sha256: f.sha256,
+      mime: f.contentType,
+      replica: replicas ? replicas.get(f.id) ?? "pending" : null,
+    })),
+    encryption: getSession(v.sessionId)?.encryption ?? null,
+    replication: replicationStatus(v),
+  };
+}
+
+// Copies a dual vault's objects now rather than on the replication job's next tick
+function startReplication() {
+  setImmediate(() => drainReplication().catch((err) => console.error("[replication]", err)));
+}
+
+router.post("/vaults", validateBody(CreateVaultBody), async (req, res) => {
+  try {
+    const body = req.body as CreateVaultBody;
+    const session = getOwnedSession(body.sessionId, req.user!.id);
+    if (!session) return res.status(404).json({ error: "unknown_session" });
+    if (session.status !== "sealed") return res.status(409).json({ error: "session_not_sealed" });
+    const existing = getVaultBySession(session.id);
+    if (existing) return res.status(409).json({ error: "vault_exists", vaultId: existing.id });
+    if (body.redundancy === "dual" && !mirror) return res.status(409).json({ error: "mirror_not_configured" });
+
+    const plan = { product: body.product, escrowYears: body.escrowYears ?? null, redundancy: body.redundancy ?? "single" };
+    const check = checkQuote(body.quoteId, req.user!.id, session.id, plan, null);
+    if (!check.ok) return res.status(check.status).json({ error: check.error, fields: check.fields });
+
+    // the endowment is the one paid for at checkout, at the rate locked then
+    const vault = createVault(req.user!.id, { ...body, price: check.quote.price, endowment: paidEndowment(body.quoteId) });
+    if (vault.redundancy === "dual") startReplication();
+    res.status(201).json(record(vault));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "create_failed" });
+  }
+});
+
+router.get("/vaults", (req, res) => {
+  try {
+    res.json({ vaults: listVaults(req.user!.id).map(summary) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "list_failed" });
+  }
+});
+
+router.get("/vaults/:id", (req, res) => {
+  try {
+    const vault = getOwnedVault(req.params.id, req.user!.id);
+    if (!vault) return res.status(404).json({ error: "not_found" });
+    res.json(record(vault));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "read_failed" });
+  }
+});
+
+router.get("/vaults/:id/lifecycle", (req, res) => {
+  try {
+    const vault = getOwnedVault(req.params.id, req.user!.id);
+    if (!vault) return res.status(404).json({ error: "not_found" });
+    const { lifecycle } = syncLifecycle(vault);
+    res.json({ lifecycle: lifecycleView(vault, lifecycle), events: listLifecycleEvents(vault.id) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "read_failed" });
+  }
+});
+
+// Re-hash results and repairs for every object in the vault, newest first
+router.get("/vaults/:id/fixity", (req, res) => {
+  try {
+    const vault = getOwnedVault(req.params.id, req.user!.id);
+    if (!vault) return res.status(404).json({ error: "not_found" });
+    res.json(fixityHistory(vault.sessionId));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "read_failed" });
+  }
+});
+
+// The endowment's balance and every entry posted to it, brought up to date first
+router.get("/vaults/:id/endowment", (req, res) => {
+  try {
+    const owned = getOwnedVault(req.params.id, req.user!.id);
+    if (!owned) return res.status(404).json({ error: "not_found" });
+    const { vault } = syncEndowment(owned);
+    res.json(endowmentLedger(vault));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "read_failed" });
+  }
+});
+
+router.post("/vaults/:id/endowment/top-ups", validateBody(TopUpEndowmentBody), async (req, res) => {
+  try {
+    const owned = getOwnedVault(req.params.id, req.user!.id);
+    if (!owned) return res.status(404).json({ error: "not_found" });
+    if (owned.status !== "minted") return res.status(409).json({ error: "vault_not_minted" });
+    const { vault } = syncLifecycle(owned);
+    if (FINAL_STATES.has(vault.lifecycleState!)) {
+      return res.status(409).json({ error: "vault_orphaned", state: vault.lifecycleState });
+    }
+
+    // charge the months already due before the new money goes in
+    const { vault: current } = syncEndowment(vault);
+    const { usd, paymentMethod } = req.body as TopUpEndowmentBody;
+    const payment = await createTopUp(req.user!.id, current, await lockEndowment(req.user!.id, usd), paymentMethod);
+    if (payment.status === "failed") {
+      return res.status(402).json({ error: "payment_declined", reason: payment.failureReason, payment });
+    }
+    await capturePayment(payment, req.user!.id); // posts the top-up
+    res.status(201).json(endowmentLedger(getOwnedVault(vault.id, req.user!.id)!));
+  } catch (err) {
+    if (err instanceof RateUnavailableError) return res.status(503).json({ error: "rate_unavailable" });
+    console.error(err);
+    res.status(500).json({ error: "top_up_failed" });
+  }
+});
+
+router.post("/vaults/:id/heartbeat", (req, res) => {
+  try {
+    const owned = getOwnedVault(req.params.id, req.user!.id);
+    if (!owned) return res.status(404).json({ error: "not_found" });
+    if (owned.status !== "minted") return res.status(409).json({ error: "vault_not_minted" });
+
+    // judge the check-in against where the schedule has really got to
+    const { vault } = syncLifecycle(owned);
+    if (FINAL_STATES.has(vault.lifecycleState!)) {
+      return res.status(409).json({ error: "vault_orphaned", state: vault.lifecycleState });
+    }
+
+    const { heartbeat, lifecycle } = recordHeartbeat(vault, req.user!.id);
+    res.status(201).json({ heartbeat, lifecycle: lifecycleView(vault, lifecycle) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "heartbeat_failed" });
+  }
+});
+
+router.get("/vaults/:id/heartbeats", (req, res) => {
+  try {
+    const vault = getOwnedVault(req.params.id, req.user!.id);
+    if (!vault) return res.status(404).json({ error: "not_found" });
+    res.json({ heartbeats: listHeartbeats(vault.id) });
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "read_failed" });
+  }
+});
+
+router.patch("/vaults/:id", validateBody(UpdateVaultBody), async (req, res) => {
+  try {
+    const vault = getOwnedVault(req.params.id, req.user!.id);
+    if (!vault) return res.status(404).json({ error: "not_found" });
+    const patch: VaultPatch = req.body as UpdateVaultBody;
+
+    if (vault.status === "minted") {
+      const locked = (Object.keys(req.body) as (keyof UpdateVaultBody)[]).filter((k) => !MUTABLE_AFTER_MINT.has(k));
+      if (locked.length) return res.status(409).json({ error: "vault_minted", fields: locked });
+    }
+
+    const product = patch.product ?? vault.product;
+    if (product !== "Permanence+") {
+      patch.escrowYears = null;
+    } else if ((patch.escrowYears ?? vault.escrowYears) == null) {
+      return res.status(400).json({
+        error: "invalid_body",
+        fields: [{ path: "escrowYears", message: "required for Permanence+" }],
+      });
+    }
+    if (patch.token && !(patch.visibility ?? vault.visibility)) {
+      return res.status(409).json({ error: "visibility_required" });
+    }
+    // minting needs the vault's own quote paid, including after a re-plan
+    const quoteId = patch.quoteId ?? vault.quoteId;
+    if (patch.token && !(quoteId && quotePaid(quoteId))) return res.status(402).json({ error: "payment_required" });
+    if (patch.redundancy === "dual" && vault.redundancy !== "dual" && !mirror) {
+      return res.status(409).json({ error: "mirror_not_configured" });
+    }
+    // becoming Heirloom takes the key away from any heir it was wrapped to first
+    if (product !== vault.product && heirloomRecipients({ ...vault, product }, heirKeys(vault.id)).length) {
+      return res.status(409).json({ error: "heirloom_uses_shares" });
+    }
+
+    // The price only ever comes from a quote for the plan the vault ends up on
+    const plan = {
+      product,
+      escrowYears: patch.escrowYears !== undefined ? patch.escrowYears : vault.escrowYears,
+      redundancy: patch.redundancy ?? vault.redundancy,
+    };
+    const replanned =
+      plan.product !== vault.product || plan.escrowYears !== vault.escrowYears || plan.redundancy !== vault.redundancy;
+    if (replanned && !patch.quoteId) return res.status(409).json({ error: "quote_required" });
+    if (patch.quoteId) {
+      const check = checkQuote(patch.quoteId, req.user!.id, vault.sessionId, plan, vault.id);
+      if (!check.ok) return res.status(check.status).json({ error: check.error, fields: check.fields });
+      patch.price = check.quote.price;
+    }
+    // the endowment follows the quote's payment, which may have been made since the vault was saved
+    if (patch.quoteId || patch.token) patch.endowment = quoteId ? paidEndowment(quoteId) : null;
+
+    const updated = updateVault(vault.id, patch);
+    if (patch.token) openLedger(updated);
+    if (updated.redundancy !== vault.redundancy) {
+      if (updated.redundancy === "dual") startReplication();
+      else dropReplicas(updated.sessionId);
+    }
+    res.json(record(updated));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "update_failed" });
+  }
+});
+
+// Replaces who can unwrap the vault's data key. The stored files don't change, so
+// this works after sealing and minting; a removed recipient who already unwrapped
+// the key keeps it, which only re-encrypting the files would undo.
+router.put("/vaults/:id/recipients", validateBody(UpdateRecipientsBody), (req, res) => {
+  try {
+    const owned = getOwnedVault(req.params.id, req.user!.id);
+    if (!owned) return res.status(404).json({ error: "not_found" });
+    const { vault } = syncLifecycle(owned);
+    if (vault.lifecycleState && FINAL_STATES.has(vault.lifecycleState)) {
+      return res.status(409).json({ error: "vault_orphaned", state: vault.lifecycleState });
+    }
+
+    const { keyCheck, recipients } = req.body as UpdateRecipientsBody;
+    const encryption = getSession(vault.sessionId)!.encryption;
+    if (encryption?.mode !== "publicKey") return res.status(409).json({ error: "not_public_key_encrypted" });
+    if (keyCheck !== encryption.keyCheck) return res.status(409).json({ error: "encryption_mismatch" });
+    // no single heir may open an Heirloom vault: they get key shares instead
+    if (heirloomRecipients(vault, heirKeys(vault.id), recipients).length) {
+      return res.status(409).json({ error: "heirloom_uses_shares" });
+    }
+
+    setSessionEncryption(vault.sessionId, { ...encryption, recipients });
+    res.json(record(vault));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "update_failed" });
+  }
+});
+
+// Records how the data key was split among heirs. The split happens in the
+// owner's browser; the shares themselves never reach the server.
+router.put("/vaults/:id/sharing", validateBody(UpdateSharingBody), (req, res) => {
+  try {
+    const owned = getOwnedVault(req.params.id, req.user!.id);
+    if (!owned) return res.status(404).json({ error: "not_found" });
+    const { vault } = syncLifecycle(owned);
+    if (vault.lifecycleState && FINAL_STATES.has(vault.lifecycleState)) {
+      return res.status(409).json({ error: "vault_orphaned", state: vault.lifecycleState });
+    }
+
+    const { keyCheck, sharing } = req.body as UpdateSharingBody;
+    const encryption = getSession(vault.sessionId)!.encryption;
+    if (encryption?.mode !== "publicKey") return res.status(409).json({ error: "not_public_key_encrypted" });
+    if (keyCheck !== encryption.keyCheck) return res.status(409).json({ error: "encryption_mismatch" });
+    const heirIds = new Set(listHeirs(vault.id).map((h) => h.id));
+    const unknown = sharing?.holders.findIndex((h) => h.heirId && !heirIds.has(h.heirId)) ?? -1;
+    if (unknown >= 0) {
+      return res.status(400).json({
+        error: "invalid_body",
+        fields: [{ path: `sharing.holders.${unknown}.heirId`, message: "not an heir of this vault" }],
+      });
+    }
+
+    setSessionEncryption(vault.sessionId, { ...encryption, sharing: sharing ?? undefined });
+    res.json(record(vault));
+  } catch (err) {
+    console.error(err);
+    res.status(500).json({ error: "update_failed" });
+  }
+});
+
+export default router;
@@ -1,21 +1,117 @@
 import "dotenv/config";
 import express from "express";
 import cors from "cors";
+import authRouter from "./routes/auth";
 import uploadRouter from "./routes/upload";
+import downloadRouter from "./routes/download";
+import exportRouter from "./routes/export";
+import vaultsRouter from "./routes/vaults";
+import heirsRouter from "./routes/heirs";
+import emergencyRouter from "./routes/emergency";
+import notificationsRouter from "./routes/notifications";
+import keysRouter from "./routes/keys";
+import quotesRouter from "./routes/quotes";
+import ratesRouter from "./routes/rates";
+import projectionsRouter from "./routes/projections";
+import paymentsRouter from "./routes/payments";
+import localStorageRouter from "./routes/storage";
+import storage, { LocalStorage, mirror } from "./storage";
+import { loadUser } from "./middleware/auth";
+import { schedulerEnabled, startJob } from "./lib/scheduler";
+import { sweepLifecycles } from "./lib/vaults";
+import { autoGrantDue } from "./lib/emergency";
+import { drainReplication } from "./lib/replication";
+import { scrubFixity } from "./lib/fixity";
+import { accrueEndowments } from "./lib/ledger";
+import { drainQueue } from "./notify";
 
 const app = express();
 
 app.use(
   cors({
     origin: ["https://fawvv.com", "http://fawvv.com", "http://localhost:5173"],
+    credentials: true, // the session cookie
   })
 );
+// Local driver's signed URLs take raw bodies, so they go before the JSON parser
+if (storage instanceof LocalStorage) app.use("/api", localStorageRouter(storage));
 app.use(express.json({ limit: "5mb" }));
+app.use(loadUser);
 
 app.get("/api/health", (_, res) => res.json({ ok: true }));
 
 // Mount routes: this makes the URL /api/upload/start
+app.use("/api", authRouter);
 app.use("/api", uploadRouter);
+app.use("/api", downloadRouter);
+app.use("/api", exportRouter);
+app.use("/api", vaultsRouter);
+app.use("/api", heirsRouter);
+app.use("/api", emergencyRouter);
+app.use("/api", notificationsRouter);
+app.use("/api", keysRouter);
+app.use("/api", quotesRouter);
+app.use("/api", ratesRouter);
+app.use("/api", projectionsRouter);
+app.use("/api", paymentsRouter);
+
+// Moves vaults whose heartbeat is overdue along their plan even if nobody looks at them
+if (schedulerEnabled()) {
+  startJob({
+    name: "lifecycle",
+    intervalMs: Number(process.env.LIFECYCLE_SWEEP_MS || 15 * 60 * 1000),
+    run: () => {
+      const moved = sweepLifecycles();
+      if (moved) console.log(`[lifecycle] ${moved} vault(s) changed state`);
+    },
+  });
+  // Emergency requests the owner left unanswered through the veto window
+  startJob({
+    name: "emergency",
+    intervalMs: Number(process.env.EMERGENCY_SWEEP_MS || 5 * 60 * 1000),
+    run: () => {
+      const granted = autoGrantDue();
+      if (granted) console.log(`[emergency] ${granted} request(s) granted after the veto window`);
+    },
+  });
+  // Retries notices whose first delivery failed
+  startJob({
+    name: "notifications",
+    intervalMs: Number(process.env.NOTIFY_QUEUE_MS || 60 * 1000),
+    run: async () => {
+      const { failed } = await drainQueue();
+      if (failed) console.log(`[notifications] ${failed} delivery attempt(s) failed`);
+    },
+  });
+  // Copies dual vaults' objects to the mirror and retries copies that failed
+  startJob({
+    name: "replication",
+    intervalMs: Number(process.env.REPLICATION_MS || 60 * 1000),
+    run: async () => {
+      const { verified, failed } = await drainReplication();
+      if (verified || failed) console.log(`[replication] ${verified} object(s) mirrored, ${failed} failed`);
+    },
+  });
+  // Re-hashes a rotating sample of stored objects and repairs damaged copies from the other rail
+  startJob({
+    name: "fixity",
+    intervalMs: Number(process.env.FIXITY_SCRUB_MS || 60 * 60 * 1000),
+    run: async () => {
+      const { checked, failed, repaired, requeued } = await scrubFixity(storage, mirror);
+      if (failed) console.log(`[fixity] ${failed} of ${checked} object(s) failed their check, ${repaired} repaired`);
+      if (requeued) await drainReplication();
+    },
+  });
+  // Charges each endowment for the months of storage that have passed
+  startJob({
+    name: "endowment",
+    intervalMs: Number(process.env.ENDOWMENT_ACCRUAL_MS || 6 * 60 * 60 * 1000),
+    run: async () => {
+      const exhausted = await accrueEndowments();
+      if (exhausted) console.log(`[endowment] ${exhausted} endowment(s) ran out`);
+    },
+  });
+}
 
 const port = Number(process.env.PORT || 8787);
 app.listen(port, () => {
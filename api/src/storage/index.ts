@@ -0,0 +1,51 @@
+import crypto from "crypto";
+import { ChecksumMismatchError, InvalidKeyError, LocalStorage } from "./local";
+import { S3Storage } from "./s3";
+import type { StorageBackend } from "./types";
+
+export type { StorageBackend, ObjectInfo, ByteRange, CompletedPart, PresignedPut } from "./types";
+export { ChecksumMismatchError, InvalidKeyError, LocalStorage, S3Storage };
+
+// STORAGE_DRIVER=s3 (default) or local. The mirror reads the same variables
+// with a MIRROR_ prefix (MIRROR_STORAGE_DRIVER, MIRROR_S3_BUCKET, ...).
+export function createStorage(prefix = ""): StorageBackend {
+  const env = (name: string) => process.env[prefix + name] || undefined;
+  const driver = env("STORAGE_DRIVER") || "s3";
+
+  if (driver === "local") {
+    return new LocalStorage({
+      root: env("STORAGE_DIR") || "data/storage",
+      baseUrl: env("LOCAL_STORAGE_BASE_URL") || "",
+      // without a fixed secret, URLs signed before a restart stop working
+      secret: env("STORAGE_SIGNING_SECRET") || crypto.randomBytes(32).toString("hex"),
+    });
+  }
+
+  if (driver === "s3") {
+    const bucket = env("AWS_S3_BUCKET") || env("S3_BUCKET");
+    if (!bucket) throw new Error(`${prefix}AWS_S3_BUCKET (or ${prefix}S3_BUCKET) must be set for ${prefix}STORAGE_DRIVER=s3`);
+    const accessKeyId = env("AWS_ACCESS_KEY_ID");
+    const secretAccessKey = env("AWS_SECRET_ACCESS_KEY");
+    return new S3Storage({
+      bucket,
+      region: env("AWS_REGION") || "us-east-1",
+      endpoint: env("S3_ENDPOINT"),
+      forcePathStyle: env("S3_FORCE_PATH_STYLE") === "true",
+      // the primary keeps the SDK's own chain (profiles, instance roles, session tokens)
+      credentials: prefix && accessKeyId && secretAccessKey ? { accessKeyId, secretAccessKey } : undefined,
+    });
+  }
+
+  throw new Error(`Unknown ${prefix}STORAGE_DRIVER: ${driver}`);
+}
+
+const storage = createStorage();
+
+// Second rail for "dual" vaults; null when MIRROR_STORAGE_DRIVER is unset
+export const mirror: StorageBackend | null = process.env.MIRROR_STORAGE_DRIVER ? createStorage("MIRROR_") : null;
+
+if (mirror && mirror.uri("x") === storage.uri("x")) {
+  throw new Error("MIRROR_* must point at a different bucket or directory than the primary storage");
+}
+
+export default storage;
@@ -0,0 +1,261 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { pipeline } from "stream/promises";
+import { Readable } from "stream";
+import type { ByteRange, CompletedPart, ObjectInfo, PresignedPut, StorageBackend } from "./types";
+
+export type LocalStorageConfig = {
+  root: string;
+  // Prefix for signed URLs; empty means same-origin relative URLs (works behind the Vite proxy)
+  baseUrl: string;
+  secret: string;
+};
+
+// What a signed URL allows: one operation on one key until `exp` (epoch seconds)
+export type LocalGrant =
+  | { op: "put"; key: string; exp: number; sha256?: string }
+  | { op: "part"; key: string; exp: number; uploadId: string; partNumber: number }
+  | { op: "get"; key: string; exp: number; filename?: string };
+
+const UPLOAD_ID = /^[a-f0-9]{32}$/;
+
+export class ChecksumMismatchError extends Error {
+  constructor(readonly expected: string, readonly got: string) {
+    super(`sha256 mismatch: expected ${expected}, got ${got}`);
+    this.name = "ChecksumMismatchError";
+  }
+}
+
+// A key that would resolve outside the storage root
+export class InvalidKeyError extends Error {
+  constructor(readonly key: string) {
+    super(`invalid key: ${key}`);
+    this.name = "InvalidKeyError";
+  }
+}
+
+function b64url(buf: Buffer | string) {
+  return Buffer.from(buf).toString("base64url");
+}
+
+/**
+ * Stores objects on local disk and signs its own URLs, so the upload/download
+ * flow can run without AWS. The routes in routes/storage.ts serve the URLs.
+ */
+export class LocalStorage implements StorageBackend {
+  readonly driver = "local";
+  private readonly objectsDir: string;
+  private readonly multipartDir: string;
+
+  constructor(private readonly config: LocalStorageConfig) {
+    this.objectsDir = path.resolve(config.root, "objects");
+    this.multipartDir = path.resolve(config.root, "multipart");
+    fs.mkdirSync(this.objectsDir, { recursive: true });
+    fs.mkdirSync(this.multipartDir, { recursive: true });
+  }
+
+  uri(key: string) {
+    return `file://${this.pathFor(key)}`;
+  }
+
+  // ---------- signed URLs ----------
+
+  private sign(payload: string) {
+    return crypto.createHmac("sha256", this.config.secret).update(payload).digest("base64url");
+  }
+
+  private signedUrl(grant: LocalGrant) {
+    const payload = b64url(JSON.stringify(grant));
+    return `${this.config.baseUrl}/api/storage/local/${payload}.${this.sign(payload)}`;
+  }
+
+  verify(token: string): LocalGrant | null {
+    const [payload, sig] = token.split(".");
+    if (!payload || !sig) return null;
+    const expected = this.sign(payload);
+    if (sig.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(sig), Buffer.from(expected))) {
+      return null;
+    }
+    const grant = JSON.parse(Buffer.from(payload, "base64url").toString()) as LocalGrant;
+    return grant.exp * 1000 >= Date.now() ? grant : null;
+  }
+
+  private exp(expiresIn: number) {
+    return Math.floor(Date.now() / 1000) + expiresIn;
+  }
+
+  async presignPut(key: string, opts: { expiresIn: number; sha256?: string }): Promise<PresignedPut> {
+    this.pathFor(key); // reject bad keys up front
+    // the expected hash rides inside the signed grant, so no extra headers are needed
+    const url = this.signedUrl({ op: "put", key, exp: this.exp(opts.expiresIn), sha256: opts.sha256 });
+    return { url, headers: {} };
+  }
+
+  async presignGet(key: string, opts: { expiresIn: number; filename?: string }) {
+    this.pathFor(key);
+    return this.signedUrl({ op: "get", key, exp: this.exp(opts.expiresIn), filename: opts.filename });
+  }
+
+  async presignPart(key: string, uploadId: string, partNumber: number, opts: { expiresIn: number }) {
+    this.partPath(uploadId, partNumber);
+    return this.signedUrl({ op: "part", key, uploadId, partNumber, exp: this.exp(opts.expiresIn) });
+  }
+
+  // ---------- paths ----------
+
+  private pathFor(key: string) {
+    const p = path.resolve(this.objectsDir, key);
+    if (!p.startsWith(this.objectsDir + path.sep)) throw new InvalidKeyError(key);
+    return p;
+  }
+
+  private partPath(uploadId: string, partNumber: number) {
+    if (!UPLOAD_ID.test(uploadId) || !Number.isInteger(partNumber)) throw new Error("invalid upload");
+    return path.join(this.multipartDir, uploadId, String(partNumber));
+  }
+
+  // Writes to a temp file first so readers never see a half-written (or rejected) object
+  private async writeFile(target: string, body: Readable, expectedSha256?: string) {
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    const tmp = `${target}.${crypto.randomBytes(6).toString("hex")}.tmp`;
+    const md5 = crypto.createHash("md5");
+    const sha256 = crypto.createHash("sha256");
+    try {
+      await pipeline(
+        body,
+        async function* (source: AsyncIterable<Buffer>) {
+          for await (const chunk of source) {
+            md5.update(chunk);
+            sha256.update(chunk);
+            yield chunk;
+          }
+        },
+        fs.createWriteStream(tmp)
+      );
+      const got = sha256.digest("hex");
+      if (expectedSha256 && got !== expectedSha256) throw new ChecksumMismatchError(expectedSha256, got);
+      await fs.promises.rename(tmp, target);
+    } catch (err) {
+      await fs.promises.rm(tmp, { force: true });
+      throw err;
+    }
+    return { etag: `"${md5.digest("hex")}"` };
+  }
+
+  // ---------- writes (called by the signed-URL routes) ----------
+
+  writeObject(key: string, body: Readable, expectedSha256?: string) {
+    return this.writeFile(this.pathFor(key), body, expectedSha256);
+  }
+
+  async writePart(uploadId: string, partNumber: number, body: Readable) {
+    if (!fs.existsSync(path.join(this.multipartDir, uploadId))) throw new Error("unknown upload");
+    return this.writeFile(this.partPath(uploadId, partNumber), body);
+  }
+
+  // ---------- StorageBackend ----------
+
+  async write(key: string, body: Readable, opts: { size: number; sha256?: string }) {
+    await this.writeFile(this.pathFor(key), body, opts.sha256);
+  }
+
+  async head(key: string): Promise<ObjectInfo | null> {
+    try {
+      const st = await fs.promises.stat(this.pathFor(key));
+      if (!st.isFile()) return null;
+      return { key, size: st.size, etag: `"${st.size.toString(16)}-${st.mtimeMs.toString(16)}"`, lastModified: st.mtime };
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw err;
+    }
+  }
+
+  async read(key: string, range?: ByteRange): Promise<Readable> {
+    // opened before returning, so a missing file rejects here rather than failing the stream
+    const file = await fs.promises.open(this.pathFor(key));
+    return file.createReadStream(range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async delete(key: string) {
+    await fs.promises.rm(this.pathFor(key), { force: true });
+  }
+
+  async *list(prefix: string): AsyncIterable<ObjectInfo> {
+    const base = prefix.includes("/") ? prefix.slice(0, prefix.lastIndexOf("/")) : "";
+    const start = base ? this.pathFor(base) : this.objectsDir;
+    const walk = async function* (dir: string): AsyncGenerator<string> {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      entries.sort((a, b) => a.name.localeCompare(b.name));
+      for (const e of entries) {
+        const full = path.join(dir, e.name);
+        if (e.isDirectory()) yield* walk(full);
+        else if (e.isFile() && !e.name.endsWith(".tmp")) yield full;
+      }
+    };
+    for await (const full of walk(start)) {
+      const key = path.relative(this.objectsDir, full).split(path.sep).join("/");
+      if (!key.startsWith(prefix)) continue;
+      const info = await this.head(key);
+      if (info) yield info;
+    }
+  }
+
+  async createMultipart(key: string) {
+    this.pathFor(key);
+    const uploadId = crypto.randomBytes(16).toString("hex");
+    await fs.promises.mkdir(path.join(this.multipartDir, uploadId), { recursive: true });
+    await fs.promises.writeFile(path.join(this.multipartDir, uploadId, "key"), key);
+    return uploadId;
+  }
+
+  async listParts(key: string, uploadId: string) {
+    if (!UPLOAD_ID.test(uploadId)) return null;
+    const dir = path.join(this.multipartDir, uploadId);
+    const storedKey = await fs.promises.readFile(path.join(dir, "key"), "utf8").catch(() => null);
+    if (storedKey !== key) return null;
+
+    const parts: CompletedPart[] = [];
+    // temp files of parts still being written end in .tmp
+    for (const name of await fs.promises.readdir(dir)) {
+      if (!/^\d+$/.test(name)) continue;
+      const md5 = crypto.createHash("md5").update(await fs.promises.readFile(path.join(dir, name))).digest("hex");
+      parts.push({ partNumber: Number(name), etag: `"${md5}"` });
+    }
+    return parts.sort((a, b) => a.partNumber - b.partNumber);
+  }
+
+  async completeMultipart(key: string, uploadId: string, parts: CompletedPart[]) {
+    if (!UPLOAD_ID.test(uploadId)) throw new Error("invalid upload");
+    const dir = path.join(this.multipartDir, uploadId);
+    const storedKey = await fs.promises.readFile(path.join(dir, "key"), "utf8");
+    if (storedKey !== key) throw new Error("upload/key mismatch");
+
+    const partFiles: string[] = [];
+    for (const p of parts) {
+      const partFile = this.partPath(uploadId, p.partNumber);
+      const md5 = crypto.createHash("md5").update(await fs.promises.readFile(partFile)).digest("hex");
+      if (`"${md5}"` !== p.etag) throw new Error(`etag mismatch on part ${p.partNumber}`);
+      partFiles.push(partFile);
+    }
+
+    const concatenated = Readable.from(
+      (async function* () {
+        for (const f of partFiles) yield* fs.createReadStream(f);
+      })()
+    );
+    await this.writeFile(this.pathFor(key), concatenated);
+    await fs.promises.rm(dir, { recursive: true, force: true });
+    return {};
+  }
+
+  async abortMultipart(_key: string, uploadId: string) {
+    if (!UPLOAD_ID.test(uploadId)) return;
+    await fs.promises.rm(path.join(this.multipartDir, uploadId), { recursive: true, force: true });
+  }
+}
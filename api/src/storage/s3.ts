@@ -0,0 +1,222 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  ListPartsCommand,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import type { Readable } from "stream";
+import type { ByteRange, CompletedPart, ObjectInfo, PresignedPut, StorageBackend } from "./types";
+
+export type S3StorageConfig = {
+  bucket: string;
+  region: string;
+  endpoint?: string; // S3-compatible services (MinIO, R2, ...)
+  forcePathStyle?: boolean;
+  // Explicit keys, e.g. for a mirror in another account; otherwise the SDK's default chain
+  credentials?: { accessKeyId: string; secretAccessKey: string };
+};
+
+// PutObject's limit; larger server-side writes go up in parts
+const MAX_SINGLE_PUT = 5 * 1024 ** 3;
+const MIN_PART_BYTES = 64 * 1024 * 1024;
+const MAX_PARTS = 10_000;
+
+export class S3Storage implements StorageBackend {
+  readonly driver = "s3";
+  private readonly s3: S3Client;
+  private readonly bucket: string;
+
+  constructor(config: S3StorageConfig) {
+    this.bucket = config.bucket;
+    this.s3 = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: config.credentials,
+      // WHEN_REQUIRED keeps checksum params out of presigned URLs (browsers can't compute them)
+      requestChecksumCalculation: "WHEN_REQUIRED",
+    });
+  }
+
+  uri(key: string) {
+    return `s3://${this.bucket}/${key}`;
+  }
+
+  async presignPut(key: string, opts: { expiresIn: number; sha256?: string }): Promise<PresignedPut> {
+    const checksum = opts.sha256 ? Buffer.from(opts.sha256, "hex").toString("base64") : undefined;
+    const cmd = new PutObjectCommand({ Bucket: this.bucket, Key: key, ChecksumSHA256: checksum });
+    // Keep the checksum a signed header (not a query param) so S3 checks the body against it
+    const url = await getSignedUrl(this.s3, cmd, {
+      expiresIn: opts.expiresIn,
+      unhoistableHeaders: new Set(["x-amz-checksum-sha256"]),
+    });
+    return { url, headers: checksum ? { "x-amz-checksum-sha256": checksum } : {} };
+  }
+
+  presignGet(key: string, opts: { expiresIn: number; filename?: string }) {
+    const cmd = new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      ResponseContentDisposition: opts.filename
+        ? `attachment; filename*=UTF-8''${encodeURIComponent(opts.filename)}`
+        : undefined,
+    });
+    return getSignedUrl(this.s3, cmd, { expiresIn: opts.expiresIn });
+  }
+
+  async write(key: string, body: Readable, opts: { size: number; sha256?: string; contentType?: string }) {
+    if (opts.size <= MAX_SINGLE_PUT) {
+      await this.s3.send(
+        new PutObjectCommand({
+          Bucket: this.bucket,
+          Key: key,
+          Body: body,
+          ContentLength: opts.size,
+          ContentType: opts.contentType,
+          ChecksumSHA256: opts.sha256 ? Buffer.from(opts.sha256, "hex").toString("base64") : undefined,
+        })
+      );
+      return;
+    }
+    // S3 only keeps a checksum-of-parts here, so callers verify the whole object afterwards
+    const uploadId = await this.createMultipart(key, { contentType: opts.contentType ?? "application/octet-stream" });
+    const partBytes = Math.max(MIN_PART_BYTES, Math.ceil(opts.size / MAX_PARTS));
+    const parts: CompletedPart[] = [];
+    const sendPart = async (chunk: Buffer) => {
+      const partNumber = parts.length + 1;
+      const out = await this.s3.send(
+        new UploadPartCommand({ Bucket: this.bucket, Key: key, UploadId: uploadId, PartNumber: partNumber, Body: chunk })
+      );
+      parts.push({ partNumber, etag: out.ETag! });
+    };
+    try {
+      let pending: Buffer[] = [];
+      let pendingBytes = 0;
+      for await (const chunk of body as AsyncIterable<Buffer>) {
+        pending.push(chunk);
+        pendingBytes += chunk.length;
+        if (pendingBytes >= partBytes) {
+          const buf = Buffer.concat(pending);
+          await sendPart(buf.subarray(0, partBytes));
+          pending = [buf.subarray(partBytes)];
+          pendingBytes = pending[0].length;
+        }
+      }
+      if (pendingBytes) await sendPart(Buffer.concat(pending));
+      await this.completeMultipart(key, uploadId, parts);
+    } catch (err) {
+      await this.abortMultipart(key, uploadId).catch(() => {});
+      throw err;
+    }
+  }
+
+  async head(key: string): Promise<ObjectInfo | null> {
+    try {
+      const out = await this.s3.send(
+        new HeadObjectCommand({ Bucket: this.bucket, Key: key, ChecksumMode: "ENABLED" })
+      );
+      // Multipart objects only carry a checksum-of-checksums, which isn't the file's hash
+      const fullObject = out.ChecksumSHA256 && out.ChecksumType !== "COMPOSITE" && !out.ChecksumSHA256.includes("-");
+      return {
+        key,
+        size: out.ContentLength ?? 0,
+        etag: out.ETag,
+        lastModified: out.LastModified,
+        contentType: out.ContentType,
+        sha256: fullObject ? Buffer.from(out.ChecksumSHA256!, "base64").toString("hex") : undefined,
+      };
+    } catch (err) {
+      if ((err as { name?: string }).name === "NotFound") return null;
+      throw err;
+    }
+  }
+
+  async read(key: string, range?: ByteRange): Promise<Readable> {
+    const out = await this.s3.send(
+      new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      })
+    );
+    return out.Body as Readable;
+  }
+
+  async delete(key: string) {
+    await this.s3.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async *list(prefix: string): AsyncIterable<ObjectInfo> {
+    let token: string | undefined;
+    do {
+      const out = await this.s3.send(
+        new ListObjectsV2Command({ Bucket: this.bucket, Prefix: prefix, ContinuationToken: token })
+      );
+      for (const o of out.Contents ?? []) {
+        yield { key: o.Key!, size: o.Size ?? 0, etag: o.ETag, lastModified: o.LastModified };
+      }
+      token = out.IsTruncated ? out.NextContinuationToken : undefined;
+    } while (token);
+  }
+
+  async createMultipart(key: string, opts: { contentType: string }) {
+    const out = await this.s3.send(
+      new CreateMultipartUploadCommand({ Bucket: this.bucket, Key: key, ContentType: opts.contentType })
+    );
+    return out.UploadId!;
+  }
+
+  presignPart(key: string, uploadId: string, partNumber: number, opts: { expiresIn: number }) {
+    const cmd = new UploadPartCommand({
+      Bucket: this.bucket,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+    });
+    return getSignedUrl(this.s3, cmd, { expiresIn: opts.expiresIn });
+  }
+
+  async listParts(key: string, uploadId: string) {
+    const parts: CompletedPart[] = [];
+    let marker: string | undefined;
+    try {
+      do {
+        const out = await this.s3.send(
+          new ListPartsCommand({ Bucket: this.bucket, Key: key, UploadId: uploadId, PartNumberMarker: marker })
+        );
+        for (const p of out.Parts ?? []) parts.push({ partNumber: p.PartNumber!, etag: p.ETag! });
+        marker = out.IsTruncated ? out.NextPartNumberMarker : undefined;
+      } while (marker);
+    } catch (err) {
+      if ((err as { name?: string }).name === "NoSuchUpload") return null;
+      throw err;
+    }
+    return parts;
+  }
+
+  async completeMultipart(key: string, uploadId: string, parts: CompletedPart[]) {
+    const out = await this.s3.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: key,
+        UploadId: uploadId,
+        MultipartUpload: {
+          Parts: parts.map((p) => ({ PartNumber: p.partNumber, ETag: p.etag })),
+        },
+      })
+    );
+    return { etag: out.ETag };
+  }
+
+  async abortMultipart(key: string, uploadId: string) {
+    await this.s3.send(new AbortMultipartUploadCommand({ Bucket: this.bucket, Key: key, UploadId: uploadId }));
+  }
+}
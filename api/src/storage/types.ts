@@ -0,0 +1,45 @@
+import type { Readable } from "stream";
+
+export type ObjectInfo = {
+  key: string;
+  size: number;
+  etag?: string;
+  lastModified?: Date;
+  contentType?: string;
+  // Hex SHA-256 the backend itself verified on write, when it can report one
+  sha256?: string;
+};
+
+// A presigned PUT; the client must send `headers` exactly as given
+export type PresignedPut = { url: string; headers: Record<string, string> };
+
+// Inclusive byte offsets, as in an HTTP Range header
+export type ByteRange = { start: number; end: number };
+
+export type CompletedPart = { partNumber: number; etag: string };
+
+export interface StorageBackend {
+  readonly driver: "s3" | "local";
+
+  // Human-readable location of an object, e.g. s3://bucket/key
+  uri(key: string): string;
+
+  // With `sha256` (hex) the backend rejects any body that doesn't hash to it
+  presignPut(key: string, opts: { expiresIn: number; sha256?: string }): Promise<PresignedPut>;
+  presignGet(key: string, opts: { expiresIn: number; filename?: string }): Promise<string>;
+
+  // Server-side upload, e.g. a copy onto the mirror; `sha256` (hex) is checked the same way
+  write(key: string, body: Readable, opts: { size: number; sha256?: string; contentType?: string }): Promise<void>;
+
+  head(key: string): Promise<ObjectInfo | null>;
+  read(key: string, range?: ByteRange): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  list(prefix: string): AsyncIterable<ObjectInfo>;
+
+  createMultipart(key: string, opts: { contentType: string }): Promise<string>;
+  presignPart(key: string, uploadId: string, partNumber: number, opts: { expiresIn: number }): Promise<string>;
+  // Parts already stored, so an interrupted upload can resume; null if the upload is gone
+  listParts(key: string, uploadId: string): Promise<CompletedPart[] | null>;
+  completeMultipart(key: string, uploadId: string, parts: CompletedPart[]): Promise<{ etag?: string }>;
+  abortMultipart(key: string, uploadId: string): Promise<void>;
+}
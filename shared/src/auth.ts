@@ -0,0 +1,35 @@
+import { z } from "zod";
+
+export const Email = z
+  .string()
+  .trim()
+  .max(254)
+  .pipe(z.email("expected an email address"))
+  .transform((s) => s.toLowerCase());
+
+// ---- POST /api/auth/register ----
+export const RegisterBody = z.object({
+  email: Email,
+  password: z.string().min(10, "use at least 10 characters").max(256),
+  displayName: z.string().trim().min(1).max(100).optional(),
+});
+export type RegisterBody = z.infer<typeof RegisterBody>;
+
+// ---- POST /api/auth/login ----
+export const LoginBody = z.object({
+  email: Email,
+  password: z.string().min(1).max(256),
+});
+export type LoginBody = z.infer<typeof LoginBody>;
+
+// ---- register, login and GET /api/auth/me ----
+export const AuthUser = z.object({
+  id: z.string(),
+  email: z.string(),
+  displayName: z.string().nullable(),
+  createdAt: z.string(),
+});
+export type AuthUser = z.infer<typeof AuthUser>;
+
+export const AuthResponse = z.object({ user: AuthUser });
+export type AuthResponse = z.infer<typeof AuthResponse>;
@@ -0,0 +1,35 @@
+import { z } from "zod";
+
+// pending -> approved | denied | granted (veto window ran out) | cancelled (by the heir);
+// approved or granted access can later be revoked by the owner
+export const EmergencyStatus = z.enum(["pending", "approved", "denied", "granted", "cancelled", "revoked"]);
+export type EmergencyStatus = z.infer<typeof EmergencyStatus>;
+
+// How long the owner has to object before an emergency request is granted on its own
+export const EmergencyVetoDays = z.number().int().min(1).max(30);
+export type EmergencyVetoDays = z.infer<typeof EmergencyVetoDays>;
+
+// ---- POST /api/emergency ----
+export const RequestEmergencyBody = z.object({
+  vaultId: z.string().min(1),
+  reason: z.string().trim().min(1).max(1000),
+});
+export type RequestEmergencyBody = z.infer<typeof RequestEmergencyBody>;
+
+// ---- POST /api/emergency/:id/deny, /revoke ----
+export const EmergencyDecisionBody = z.object({ note: z.string().trim().max(1000).optional() });
+export type EmergencyDecisionBody = z.infer<typeof EmergencyDecisionBody>;
+
+export const EmergencyRequest = z.object({
+  id: z.string(),
+  vaultId: z.string(),
+  heirId: z.string(),
+  reason: z.string(),
+  status: EmergencyStatus,
+  vetoUntil: z.string(),
+  note: z.string().nullable(),
+  createdAt: z.string(),
+  resolvedAt: z.string().nullable(),
+  resolvedBy: z.enum(["owner", "system", "heir"]).nullable(),
+});
+export type EmergencyRequest = z.infer<typeof EmergencyRequest>;
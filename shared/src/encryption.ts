@@ -0,0 +1,121 @@
+import { z } from "zod";
+
+// Client-side encryption. Files are encrypted under a 32-byte master key: the
+// argon2id output in passphrase mode, or a random data key in public-key mode,
+// where it is wrapped once per recipient (see RecipientStanza). Each stored object is a 24-byte header ("FAWVENC1" +
+// 16-byte file id) followed by the plaintext in `chunkBytes` chunks, each sealed
+// with AES-256-GCM (16-byte tag appended). The file key is HKDF-SHA256(master,
+// salt = file id, info = "fawv/v1/file-key"), where master is the KDF output;
+// chunk i uses the 12-byte nonce 0^7 || uint32be(i) || (last ? 1 : 0) and the
+// header as additional data, so truncated or reordered files fail to decrypt.
+// Uploaders derive the file id from a keyed hash of the path and plaintext, so
+// re-encrypting an unchanged file (a resumed upload) yields the same bytes.
+export const ENCRYPTION_FORMAT = "fawv-aes256gcm-stream-v1";
+
+export const PassphraseKdf = z.object({
+  algorithm: z.literal("argon2id"),
+  salt: z.string().min(16), // base64
+  memoryKiB: z.number().int().min(8 * 1024),
+  iterations: z.number().int().min(1),
+  parallelism: z.number().int().min(1),
+});
+export type PassphraseKdf = z.infer<typeof PassphraseKdf>;
+
+// Raw 32-byte X25519 public key, base64
+export const X25519PublicKey = z.string().regex(/^[A-Za-z0-9+/]{43}=$/, "32-byte base64 key");
+
+// The data key wrapped for one recipient: an ephemeral X25519 key pair is made,
+// shared = X25519(ephemeral, recipient), the wrapping key is HKDF-SHA256(shared,
+// salt = ephemeralKey || publicKey, info = "fawv/v1/wrap"), and wrappedKey is the
+// data key sealed with AES-256-GCM under it (zero nonce: each wrapping key is used once).
+export const RecipientStanza = z.object({
+  type: z.literal("X25519"),
+  label: z.string().trim().min(1).max(100),
+  publicKey: X25519PublicKey,
+  ephemeralKey: X25519PublicKey,
+  wrappedKey: z.string().regex(/^[A-Za-z0-9+/]{64}$/, "48 bytes base64"),
+});
+export type RecipientStanza = z.infer<typeof RecipientStanza>;
+
+// M-of-N split of a public-key vault's data key among heirs: Shamir over GF(256)
+// (reduction polynomial 0x11b), one random polynomial per key byte, evaluated at
+// each holder's x. Only the threshold and who holds which x are recorded; the
+// shares exist only on the cards handed to the heirs.
+export const ShareHolder = z.object({
+  x: z.number().int().min(1).max(255),
+  label: z.string().trim().min(1).max(100),
+  heirId: z.string().optional(),
+});
+export type ShareHolder = z.infer<typeof ShareHolder>;
+
+export const ShamirSharing = z
+  .object({
+    scheme: z.literal("shamir-gf256-v1"),
+    threshold: z.number().int().min(2).max(255),
+    holders: z.array(ShareHolder).min(2).max(255),
+    createdAt: z.string(),
+  })
+  .refine((s) => s.threshold <= s.holders.length, { path: ["threshold"], message: "more than the number of holders" })
+  .refine((s) => new Set(s.holders.map((h) => h.x)).size === s.holders.length, {
+    path: ["holders"],
+    message: "duplicate x",
+  });
+export type ShamirSharing = z.infer<typeof ShamirSharing>;
+
+const ChunkBytes = z.number().int().min(4096).max(64 * 1024 * 1024);
+// HKDF(master, info = "fawv/v1/key-check"), 16 bytes base64: tells a wrong key apart before any download
+const KeyCheck = z.string().min(16);
+
+export const PassphraseParams = z.object({
+  mode: z.literal("passphrase"),
+  format: z.literal(ENCRYPTION_FORMAT),
+  kdf: PassphraseKdf,
+  chunkBytes: ChunkBytes,
+  keyCheck: KeyCheck,
+  hint: z.string().max(200).optional(), // never a secret
+});
+export type PassphraseParams = z.infer<typeof PassphraseParams>;
+
+export const PublicKeyParams = z.object({
+  mode: z.literal("publicKey"),
+  format: z.literal(ENCRYPTION_FORMAT),
+  chunkBytes: ChunkBytes,
+  keyCheck: KeyCheck,
+  recipients: z
+    .array(RecipientStanza)
+    .min(1)
+    .max(20)
+    .refine((r) => new Set(r.map((s) => s.publicKey)).size === r.length, "duplicate recipient"),
+  sharing: ShamirSharing.optional(),
+});
+export type PublicKeyParams = z.infer<typeof PublicKeyParams>;
+
+export const EncryptionParams = z.discriminatedUnion("mode", [PassphraseParams, PublicKeyParams]);
+export type EncryptionParams = z.infer<typeof EncryptionParams>;
+
+// ---- PUT /api/vaults/:id/recipients ----
+// Re-wrapped data key for a new recipient set; files are untouched. keyCheck must
+// match the vault's, so a different key can't be swapped in.
+export const UpdateRecipientsBody = z.object({
+  keyCheck: KeyCheck,
+  recipients: PublicKeyParams.shape.recipients,
+});
+export type UpdateRecipientsBody = z.infer<typeof UpdateRecipientsBody>;
+
+// ---- PUT /api/vaults/:id/sharing ----
+// Records a new split (or, with null, that there is none). A new split doesn't
+// invalidate cards from an earlier one: enough of those still rebuild the key.
+export const UpdateSharingBody = z.object({
+  keyCheck: KeyCheck,
+  sharing: ShamirSharing.nullable(),
+});
+export type UpdateSharingBody = z.infer<typeof UpdateSharingBody>;
+
+// ---- GET/PUT /api/keys/me ----
+// A user's published X25519 key, so vault owners can add them as a recipient.
+// The private half never leaves their browser.
+export const PublishKeyBody = z.object({ publicKey: X25519PublicKey });
+export type PublishKeyBody = z.infer<typeof PublishKeyBody>;
+
+export const UserPublicKey = z.object({ publicKey: X25519PublicKey, updatedAt: z.string() });
+export type UserPublicKey = z.infer<typeof UserPublicKey>;
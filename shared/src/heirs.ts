@@ -0,0 +1,105 @@
+import { z } from "zod";
+import { Email } from "./auth";
+import { EmergencyRequest } from "./emergency";
+import { EncryptionParams, X25519PublicKey } from "./encryption";
+import { LifecycleState } from "./vault";
+
+export const HeirStatus = z.enum(["invited", "verified"]);
+export type HeirStatus = z.infer<typeof HeirStatus>;
+
+// ---- POST /api/vaults/:id/heirs ----
+export const InviteHeirBody = z.object({
+  email: Email,
+  name: z.string().trim().min(1).max(100),
+});
+export type InviteHeirBody = z.infer<typeof InviteHeirBody>;
+
+export const Heir = z.object({
+  id: z.string(),
+  email: z.string(),
+  name: z.string(),
+  status: HeirStatus,
+  emergencyAccess: z.boolean(), // may request early access while the owner is alive
+  invitedAt: z.string(),
+  verifiedAt: z.string().nullable(),
+  publicKey: X25519PublicKey.nullable(), // the heir's published key once they have accepted, to add them as a recipient
+});
+export type Heir = z.infer<typeof Heir>;
+
+// ---- PATCH /api/vaults/:id/heirs/:heirId ----
+export const UpdateHeirBody = z.object({ emergencyAccess: z.boolean() });
+export type UpdateHeirBody = z.infer<typeof UpdateHeirBody>;
+
+// ---- POST /api/heirs/accept ----
+// The token from the invitation proves the heir controls the invited address
+export const AcceptInviteBody = z.object({ token: z.string().min(1) });
+export type AcceptInviteBody = z.infer<typeof AcceptInviteBody>;
+
+// challenge_sent -> waiting -> granted | stewardship; any open claim may end as
+// rejected (too many wrong codes), cancelled, or superseded by another heir's claim
+export const ClaimStatus = z.enum([
+  "challenge_sent",
+  "waiting",
+  "granted",
+  "stewardship",
+  "rejected",
+  "cancelled",
+  "superseded",
+]);
+export type ClaimStatus = z.infer<typeof ClaimStatus>;
+
+export const ClaimResolution = z.enum(["access", "stewardship"]);
+export type ClaimResolution = z.infer<typeof ClaimResolution>;
+
+// ---- POST /api/claims ----
+export const StartClaimBody = z.object({ vaultId: z.string().min(1) });
+export type StartClaimBody = z.infer<typeof StartClaimBody>;
+
+// ---- POST /api/claims/:id/verify ----
+export const VerifyClaimBody = z.object({ code: z.string().regex(/^\d{6}$/, "6 digits") });
+export type VerifyClaimBody = z.infer<typeof VerifyClaimBody>;
+
+// ---- POST /api/claims/:id/complete ----
+export const CompleteClaimBody = z.object({ resolution: ClaimResolution });
+export type CompleteClaimBody = z.infer<typeof CompleteClaimBody>;
+
+export const Claim = z.object({
+  id: z.string(),
+  vaultId: z.string(),
+  heirId: z.string(),
+  status: ClaimStatus,
+  waitingUntil: z.string().nullable(), // set once the challenge is passed
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  resolvedAt: z.string().nullable(),
+});
+export type Claim = z.infer<typeof Claim>;
+
+export const ClaimEvent = z.object({
+  at: z.string(),
+  actor: z.enum(["heir", "owner", "system"]),
+  event: z.string(),
+  detail: z.string().nullable(),
+});
+export type ClaimEvent = z.infer<typeof ClaimEvent>;
+
+// ---- GET /api/claims/:id ----
+export const ClaimDetail = Claim.extend({ events: z.array(ClaimEvent) });
+export type ClaimDetail = z.infer<typeof ClaimDetail>;
+
+// ---- GET /api/heirs/me ----
+export const InheritedVault = z.object({
+  vaultId: z.string(),
+  vaultName: z.string(),
+  ownerName: z.string(),
+  lifecycleState: LifecycleState.nullable(),
+  claimWaitingDays: z.number(),
+  custodialStewardship: z.boolean(),
+  emergencyAccess: z.boolean(),
+  emergencyVetoDays: z.number(),
+  claim: Claim.nullable(), // this heir's latest claim
+  emergency: EmergencyRequest.nullable(), // and latest emergency request
+  sessionId: z.string().nullable(), // for downloads and export, once access is granted
+  encryption: EncryptionParams.nullable(), // how to unlock the files: key recipients, or how many shares it takes
+});
+export type InheritedVault = z.infer<typeof InheritedVault>;
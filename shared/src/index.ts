@@ -0,0 +1,17 @@
+// Contracts shared by api/ and web/: request and response payloads, the vault
+// manifest, and the validators that enforce them at runtime.
+export * from "./auth";
+export * from "./upload";
+export * from "./encryption";
+export * from "./manifest";
+export * from "./vault";
+export * from "./heirs";
+export * from "./emergency";
+export * from "./notifications";
+export * from "./preservation";
+export * from "./pricing";
+export * from "./rates";
+export * from "./ledger";
+export * from "./projection";
+export * from "./payments";
+export * from "./validate";
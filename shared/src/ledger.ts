@@ -0,0 +1,58 @@
+import { z } from "zod";
+import { EndowmentUsd, RateLock } from "./vault";
+
+// Double-entry accounts kept for each vault's endowment. `fund` is what is left
+// to pay for storage, `unpaid_storage` what storage the fund could not pay for;
+// the others say where money came from and went. The fund is held in ETH, so
+// `revaluation` is what it gained or lost as the ETH price moved.
+export const LedgerAccount = z.enum([
+  "fund",
+  "contributions",
+  "storage_costs",
+  "unpaid_storage",
+  "yield",
+  "revaluation",
+]);
+export type LedgerAccount = z.infer<typeof LedgerAccount>;
+
+// endowment: the amount locked when the vault was minted; drawdown: storage charged to the fund;
+// revaluation: the fund's ETH valued at a newer rate
+export const LedgerEntryKind = z.enum(["endowment", "top_up", "drawdown", "yield", "revaluation"]);
+export type LedgerEntryKind = z.infer<typeof LedgerEntryKind>;
+
+// Debits are positive and credits negative; an entry's postings add up to zero
+export const LedgerPosting = z.object({
+  account: LedgerAccount,
+  amountCents: z.number().int(),
+});
+export type LedgerPosting = z.infer<typeof LedgerPosting>;
+
+export const LedgerEntry = z.object({
+  id: z.string(),
+  kind: LedgerEntryKind,
+  effectiveAt: z.string(), // the month a drawdown or yield covers ends here
+  recordedAt: z.string(),
+  memo: z.string(),
+  rateLock: RateLock.nullable(), // the ETH conversion behind contributions and revaluations
+  postings: z.array(LedgerPosting),
+});
+export type LedgerEntry = z.infer<typeof LedgerEntry>;
+
+// ---- GET /api/vaults/:id/endowment ----
+export const EndowmentLedger = z.object({
+  currency: z.literal("USD"),
+  balanceCents: z.number().int(), // the fund account
+  accounts: z.record(LedgerAccount, z.number().int()), // each account's postings summed, so debits positive
+  monthlyCostCents: z.number().nonnegative(), // what a month of storage costs now; may include fractions of a cent
+  accruedThrough: z.string().nullable(), // storage charged up to here; null until the ledger opens at mint or the first top-up
+  exhaustedAt: z.string().nullable(), // the fund ran out and storage is going unpaid
+  entries: z.array(LedgerEntry), // newest first
+});
+export type EndowmentLedger = z.infer<typeof EndowmentLedger>;
+
+// ---- POST /api/vaults/:id/endowment/top-ups ----
+export const TopUpEndowmentBody = z.object({
+  usd: EndowmentUsd.positive(), // converted at a rate the server locks now, like the initial endowment
+  paymentMethod: z.string().min(1).max(200).optional(), // charged through the payment provider before it is posted
+});
+export type TopUpEndowmentBody = z.infer<typeof TopUpEndowmentBody>;
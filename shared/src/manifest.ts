@@ -0,0 +1,87 @@
+import { z } from "zod";
+import { EncryptionParams } from "./encryption";
+import { Sha256Hex } from "./upload";
+
+// One manifest shape for everything that describes a vault: the server's sealed
+// session export and the standalone manifest builder in the web demo. Policy
+// blocks are optional so a manifest can be produced before they are decided.
+export const MANIFEST_VERSION = "0.6.0";
+export const MERKLE_ALGORITHM = "sha256-merkle-v1";
+
+export const ManifestFile = z.object({
+  path: z.string().min(1),
+  sizeBytes: z.number().int().nonnegative(),
+  sha256: Sha256Hex,
+  mime: z.string().optional(),
+});
+export type ManifestFile = z.infer<typeof ManifestFile>;
+
+export const MerkleLeaf = z.object({ path: z.string(), sha256: Sha256Hex, leaf: Sha256Hex });
+export type MerkleLeaf = z.infer<typeof MerkleLeaf>;
+
+export const PermanencePlan = z.enum(["payOnce", "payOnceDual", "subscription"]);
+export type PermanencePlan = z.infer<typeof PermanencePlan>;
+
+export const StoragePolicy = z.object({
+  permanencePlan: PermanencePlan,
+  retentionYears: z.number().int().positive(),
+  redundancy: z.enum(["single", "dual"]),
+  encryption: z.object({
+    mode: z.enum(["none", "passphrase", "publicKey"]),
+    hint: z.string().optional(), // never a secret
+  }),
+});
+export type StoragePolicy = z.infer<typeof StoragePolicy>;
+
+export const HeritagePolicy = z.object({
+  ttlYears: z.number().int().positive(),
+  heartbeatMonths: z.number().int().positive(),
+  heirs: z.array(z.string()), // emails or addresses
+  custodialStewardship: z.boolean(),
+});
+export type HeritagePolicy = z.infer<typeof HeritagePolicy>;
+
+export const TokenInfo = z.object({
+  symbolic: z.boolean(), // not on-chain
+  standard: z.enum(["ERC721", "ERC1155", "Other"]),
+  name: z.string(),
+  symbol: z.string(),
+  description: z.string().optional(),
+  previewURI: z.string().optional(),
+});
+export type TokenInfo = z.infer<typeof TokenInfo>;
+
+export const Manifest = z.object({
+  manifestVersion: z.string(),
+  archiveId: z.string().min(1),
+  createdAt: z.iso.datetime(),
+  sealedAt: z.iso.datetime().nullable().optional(),
+  ownerAddress: z.string().optional(),
+  files: z.array(ManifestFile).min(1),
+  totals: z.object({ files: z.number().int().nonnegative(), bytes: z.number().int().nonnegative() }),
+  // every leaf is listed so any single file can be checked against the root
+  merkle: z.object({
+    algorithm: z.literal(MERKLE_ALGORITHM),
+    root: Sha256Hex,
+    leaves: z.array(MerkleLeaf),
+  }),
+  // present when files were encrypted before upload; sizes and hashes above are of the stored ciphertext
+  encryption: EncryptionParams.optional(),
+  storagePolicy: StoragePolicy.optional(),
+  heritagePolicy: HeritagePolicy.optional(),
+  attestations: z
+    .object({
+      heartbeatSchemaUID: z.string().optional(), // EAS schema UID
+      heirProofSchemaUID: z.string().optional(),
+    })
+    .optional(),
+  token: TokenInfo.optional(),
+  // written by earlier demo builds only; prices come from quotes (see ./pricing), and nothing emits this now
+  economicPreview: z
+    .object({
+      estimatedUSD: z.number(), // not a quote
+      inputs: z.object({ baseUSDPerGBYear: z.number(), years: z.number(), redundancyFactor: z.number() }),
+    })
+    .optional(),
+});
+export type Manifest = z.infer<typeof Manifest>;
@@ -0,0 +1,45 @@
+import { z } from "zod";
+
+// What a notice is about; users can mute a category, though notices that
+// start a deadline (heir invitations, claim codes, emergency requests) still arrive
+export const NotificationCategory = z.enum(["reminders", "heirs", "emergency", "receipts"]);
+export type NotificationCategory = z.infer<typeof NotificationCategory>;
+
+export const NotificationChannel = z.enum(["email", "webhook"]);
+export type NotificationChannel = z.infer<typeof NotificationChannel>;
+
+export const NotificationPreferences = z.object({
+  email: z.boolean(),
+  // Notices are also POSTed here as signed JSON
+  webhookUrl: z.url({ protocol: /^https$/ }).nullable(),
+  muted: z.array(NotificationCategory),
+});
+export type NotificationPreferences = z.infer<typeof NotificationPreferences>;
+
+// ---- PATCH /api/notifications/preferences ----
+export const UpdateNotificationPreferencesBody = NotificationPreferences.partial();
+export type UpdateNotificationPreferencesBody = z.infer<typeof UpdateNotificationPreferencesBody>;
+
+// pending -> sent, or failed once its retries run out
+export const DeliveryStatus = z.enum(["pending", "sent", "failed"]);
+export type DeliveryStatus = z.infer<typeof DeliveryStatus>;
+
+export const NotificationDelivery = z.object({
+  channel: NotificationChannel,
+  status: DeliveryStatus,
+  attempts: z.number().int(),
+  lastError: z.string().nullable(),
+  sentAt: z.string().nullable(),
+});
+export type NotificationDelivery = z.infer<typeof NotificationDelivery>;
+
+// ---- GET /api/notifications ----
+export const NotificationRecord = z.object({
+  id: z.string(),
+  template: z.string(),
+  category: NotificationCategory,
+  subject: z.string(),
+  createdAt: z.string(),
+  deliveries: z.array(NotificationDelivery),
+});
+export type NotificationRecord = z.infer<typeof NotificationRecord>;
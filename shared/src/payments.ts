@@ -0,0 +1,63 @@
+import { z } from "zod";
+import { Endowment, EndowmentUsd } from "./vault";
+
+// processing: the provider is being asked to authorize it; requires_capture: authorized, nothing
+// taken yet; failed: the provider declined it
+export const PaymentStatus = z.enum(["processing", "requires_capture", "captured", "failed", "refunded"]);
+export type PaymentStatus = z.infer<typeof PaymentStatus>;
+
+// checkout: a quote's price plus any endowment; top_up: more endowment for a minted vault
+export const PaymentPurpose = z.enum(["checkout", "top_up"]);
+export type PaymentPurpose = z.infer<typeof PaymentPurpose>;
+
+export const ReceiptKind = z.enum(["payment", "refund"]);
+export type ReceiptKind = z.infer<typeof ReceiptKind>;
+
+export const ReceiptLine = z.object({
+  description: z.string(),
+  amountCents: z.number().int(),
+});
+export type ReceiptLine = z.infer<typeof ReceiptLine>;
+
+export const Receipt = z.object({
+  number: z.string(), // FAWV-000123
+  kind: ReceiptKind,
+  amountCents: z.number().int().nonnegative(),
+  currency: z.literal("USD"),
+  lines: z.array(ReceiptLine),
+  issuedAt: z.string(),
+});
+export type Receipt = z.infer<typeof Receipt>;
+
+export const Payment = z.object({
+  id: z.string(),
+  purpose: PaymentPurpose,
+  quoteId: z.string().nullable(), // checkout: what was bought, the quote's price for its session and plan
+  vaultId: z.string().nullable(), // top_up: the vault whose fund it adds to
+  endowment: Endowment.nullable(), // charged on its own line, at the rate locked when the payment was made
+  provider: z.string(),
+  amountCents: z.number().int().nonnegative(),
+  currency: z.literal("USD"),
+  status: PaymentStatus,
+  failureReason: z.string().nullable(),
+  createdAt: z.string(),
+  capturedAt: z.string().nullable(),
+  refundedAt: z.string().nullable(),
+  receipts: z.array(Receipt),
+});
+export type Payment = z.infer<typeof Payment>;
+
+// ---- POST /api/payments ----
+// Authorizes the quote's price and the endowment; POST /api/payments/:id/capture takes it
+export const CreatePaymentBody = z.object({
+  quoteId: z.string().min(1),
+  endowmentUsd: EndowmentUsd.positive().optional(), // converted to ETH at a rate the server locks now
+  paymentMethod: z.string().min(1).max(200).optional(), // the provider's token for the card or account
+});
+export type CreatePaymentBody = z.infer<typeof CreatePaymentBody>;
+
+// ---- POST /api/payments/:id/refund ----
+export const RefundPaymentBody = z.object({
+  reason: z.string().trim().max(500).optional(),
+});
+export type RefundPaymentBody = z.infer<typeof RefundPaymentBody>;
@@ -0,0 +1,33 @@
+import { z } from "zod";
+
+// PREMIS eventType values the API records: periodic re-hashes by the fixity
+// scrubber, copies onto the mirror, and restores of a damaged copy from the other
+export const PreservationEventType = z.enum(["fixity check", "replication", "repair"]);
+export type PreservationEventType = z.infer<typeof PreservationEventType>;
+
+export const PreservationEventOutcome = z.enum(["pass", "fail"]);
+export type PreservationEventOutcome = z.infer<typeof PreservationEventOutcome>;
+
+// Which stored copy of the object the event is about
+export const StorageCopy = z.enum(["primary", "mirror"]);
+export type StorageCopy = z.infer<typeof StorageCopy>;
+
+// Field names follow PREMIS 3 so the log can be mapped onto it one to one
+export const PreservationEvent = z.object({
+  eventIdentifier: z.string(),
+  eventType: PreservationEventType,
+  eventDateTime: z.string(),
+  eventOutcome: PreservationEventOutcome,
+  eventOutcomeDetail: z.string().nullable(),
+  linkingObject: z.object({ path: z.string(), sha256: z.string(), copy: StorageCopy }),
+  linkingAgent: z.string(),
+});
+export type PreservationEvent = z.infer<typeof PreservationEvent>;
+
+// ---- GET /api/vaults/:id/fixity ----
+export const FixityHistory = z.object({
+  objects: z.object({ total: z.number(), checked: z.number() }), // checked: re-hashed at least once
+  lastCheckedAt: z.string().nullable(),
+  events: z.array(PreservationEvent), // newest first
+});
+export type FixityHistory = z.infer<typeof FixityHistory>;
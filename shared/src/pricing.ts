@@ -0,0 +1,52 @@
+import { z } from "zod";
+import { EscrowYears, Product, Redundancy, VaultPrice } from "./vault";
+
+// Rates in USD. Books are never edited once published; a new version takes
+// over from its effectiveFrom, and quotes keep the version they were priced on.
+export const PriceBook = z.object({
+  version: z.string(),
+  effectiveFrom: z.string(),
+  currency: z.literal("USD"),
+  tokenizationPerGB: z.number().nonnegative(), // every product
+  dualRailFactor: z.number().min(1), // storage multiplier for redundancy "dual"
+  products: z.object({
+    Permanence: z.object({ storagePerGB: z.number().nonnegative(), annualEAS: z.number().nonnegative() }),
+    "Permanence+": z.object({
+      storagePerGBBase: z.number().nonnegative(),
+      perYearAdderPerGB: z.number().nonnegative(), // per escrow year
+    }),
+    Heirloom: z.object({ storagePerGB: z.number().nonnegative() }),
+  }),
+});
+export type PriceBook = z.infer<typeof PriceBook>;
+
+// ---- POST /api/quotes ----
+// The server prices the session's declared bytes; the client only picks the plan
+export const CreateQuoteBody = z
+  .object({
+    sessionId: z.string().min(1),
+    product: Product,
+    escrowYears: EscrowYears.optional(),
+    redundancy: Redundancy.optional(), // defaults to single
+  })
+  .refine((v) => v.product !== "Permanence+" || v.escrowYears !== undefined, {
+    path: ["escrowYears"],
+    message: "required for Permanence+",
+  });
+export type CreateQuoteBody = z.infer<typeof CreateQuoteBody>;
+
+// Signed by the API (HMAC-SHA256); vault checkout takes its id until expiresAt
+export const Quote = z.object({
+  id: z.string(),
+  priceBook: z.string(), // PriceBook.version
+  sessionId: z.string(),
+  product: Product,
+  escrowYears: EscrowYears.nullable(),
+  redundancy: Redundancy,
+  bytes: z.number().int().nonnegative(),
+  price: VaultPrice,
+  createdAt: z.string(),
+  expiresAt: z.string(),
+  signature: z.string(),
+});
+export type Quote = z.infer<typeof Quote>;
@@ -0,0 +1,54 @@
+import { z } from "zod";
+import { EndowmentUsd, Redundancy } from "./vault";
+
+// How much the fund's value swings in a year (standard deviation of the log
+// return): about 0 if it were held in cash, 0.6-0.9 for ETH historically
+export const VolatilityScenario = z.object({
+  name: z.string().trim().min(1).max(40),
+  volatility: z.number().min(0).max(3),
+});
+export type VolatilityScenario = z.infer<typeof VolatilityScenario>;
+
+// ---- POST /api/projections/endowment ----
+// Rates are yearly fractions: 0.05 is 5% a year
+export const ProjectEndowmentBody = z.object({
+  bytes: z.number().int().nonnegative(), // archive size; billed by the GB like the price
+  redundancy: Redundancy.optional(), // defaults to single
+  endowmentUsd: EndowmentUsd,
+  horizonYears: z.number().int().min(1).max(200).optional(), // defaults to the Heirloom guarantee, 100
+  storageCostDecline: z.number().min(0).max(0.5).optional(), // what-if: the ledger charges a flat cost; defaults to 0
+  discountRate: z.number().min(-0.1).max(0.2).optional(), // expected return on the fund; defaults to 0.02
+  scenarios: z.array(VolatilityScenario).min(1).max(5).optional(), // defaults to low, medium and high
+  seed: z.number().int().nonnegative().optional(), // same seed, same answer
+});
+export type ProjectEndowmentBody = z.infer<typeof ProjectEndowmentBody>;
+
+// The fund's value in USD at the end of a year, across simulated paths
+export const ProjectionYear = z.object({
+  year: z.number().int(),
+  p10: z.number(),
+  p50: z.number(),
+  p90: z.number(),
+});
+export type ProjectionYear = z.infer<typeof ProjectionYear>;
+
+export const ScenarioProjection = VolatilityScenario.extend({
+  probability: z.number().min(0).max(1), // share of paths that pay for storage through the whole horizon
+  years: z.array(ProjectionYear), // year 0 is the endowment as paid in
+});
+export type ScenarioProjection = z.infer<typeof ScenarioProjection>;
+
+export const EndowmentProjection = z.object({
+  billedGB: z.number().int(),
+  redundancy: Redundancy,
+  endowmentUsd: z.number(),
+  horizonYears: z.number().int(),
+  storageCostDecline: z.number(),
+  discountRate: z.number(),
+  firstYearCostUsd: z.number(),
+  requiredUsd: z.number(), // what covers the horizon if returns never varied: storage costs discounted to today
+  paths: z.number().int(),
+  seed: z.number().int(),
+  scenarios: z.array(ScenarioProjection),
+});
+export type EndowmentProjection = z.infer<typeof EndowmentProjection>;
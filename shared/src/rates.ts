@@ -0,0 +1,10 @@
+import { z } from "zod";
+
+// ---- GET /api/rates/eth-usd ----
+// Indicative only; the rate an endowment is converted at is locked at checkout
+export const EthUsdRate = z.object({
+  usdPerEth: z.number().positive(),
+  source: z.string(),
+  asOf: z.string(),
+});
+export type EthUsdRate = z.infer<typeof EthUsdRate>;
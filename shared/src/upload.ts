@@ -0,0 +1,142 @@
+import { z } from "zod";
+import { EncryptionParams } from "./encryption";
+
+export const MAX_PARTS = 10000; // S3 limit per upload
+export const MAX_PARTS_PER_REQUEST = 1000;
+
+export const Sha256Hex = z
+  .string()
+  .regex(/^[0-9a-fA-F]{64}$/, "expected a hex SHA-256 digest")
+  .transform((s) => s.toLowerCase());
+
+// ---- POST /api/upload/start ----
+export const FileSpec = z.object({
+  relPath: z.string().min(1).max(1024),
+  size: z.number().int().nonnegative(),
+  contentType: z.string().optional(),
+  sha256: Sha256Hex,
+});
+export type FileSpec = z.infer<typeof FileSpec>;
+
+export const UploadStartBody = z.object({
+  sessionId: z.string().optional(), // unknown or malformed ids get a fresh session
+  files: z.array(FileSpec).min(1, "at least one file is required"),
+  // fixed by the session's first files; sizes and hashes are then of the ciphertext
+  encryption: EncryptionParams.optional(),
+});
+export type UploadStartBody = z.infer<typeof UploadStartBody>;
+
+export const PresignItem = z.object({
+  relPath: z.string(),
+  objectKey: z.string(),
+  s3Uri: z.string(),
+  uploadUrl: z.string().optional(), // single PUT
+  headers: z.record(z.string(), z.string()).optional(), // must accompany the single PUT (e.g. its checksum)
+  multipart: z
+    .object({
+      uploadId: z.string(),
+      partSize: z.number(),
+      partCount: z.number(),
+      // stored by an earlier, interrupted attempt; only the rest need uploading
+      uploadedParts: z.array(z.object({ partNumber: z.number(), etag: z.string() })),
+    })
+    .optional(), // large files
+  contentType: z.string(),
+  sha256: z.string(),
+  state: z.enum(["presigned", "uploaded"]), // "uploaded": already in the bucket, skip it
+});
+export type PresignItem = z.infer<typeof PresignItem>;
+
+export const PresignResponse = z.object({ sessionId: z.string(), items: z.array(PresignItem) });
+export type PresignResponse = z.infer<typeof PresignResponse>;
+
+// ---- POST /api/upload/multipart/* ----
+const MultipartRef = z.object({ objectKey: z.string().min(1), uploadId: z.string().min(1) });
+
+export const MultipartPartsBody = MultipartRef.extend({
+  partNumbers: z.array(z.number().int().min(1).max(MAX_PARTS)).min(1).max(MAX_PARTS_PER_REQUEST),
+});
+export type MultipartPartsBody = z.infer<typeof MultipartPartsBody>;
+
+export const PartUrl = z.object({ partNumber: z.number(), url: z.string() });
+export type PartUrl = z.infer<typeof PartUrl>;
+
+export const MultipartCompleteBody = MultipartRef.extend({
+  parts: z.array(z.object({ partNumber: z.number().int().min(1).max(MAX_PARTS), etag: z.string().min(1) })).min(1),
+});
+export type MultipartCompleteBody = z.infer<typeof MultipartCompleteBody>;
+
+export const MultipartAbortBody = MultipartRef;
+export type MultipartAbortBody = z.infer<typeof MultipartAbortBody>;
+
+// ---- POST /api/upload/complete (409 when something is missing or doesn't match) ----
+export const SealBody = z.object({ sessionId: z.string().min(1) });
+export type SealBody = z.infer<typeof SealBody>;
+
+export const SealResponse = z.object({
+  sessionId: z.string(),
+  status: z.literal("sealed"),
+  sealedAt: z.string().nullable(),
+  merkleRoot: z.string().nullable(),
+  files: z.array(z.object({ relPath: z.string(), size: z.number(), sha256: z.string().nullable() })).optional(),
+});
+export type SealResponse = z.infer<typeof SealResponse>;
+
+export const SealError = z.object({
+  error: z.string(), // "incomplete" | "integrity_mismatch" | ...
+  missing: z.array(z.string()).optional(),
+  files: z
+    .array(z.object({ relPath: z.string(), expected: z.string().nullable(), got: z.string().nullable() }))
+    .optional(),
+});
+export type SealError = z.infer<typeof SealError>;
+
+// ---- GET /api/upload/:sessionId ----
+export const SessionStatus = z.object({
+  sessionId: z.string(),
+  status: z.enum(["open", "sealed"]),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  sealedAt: z.string().nullable(),
+  merkleRoot: z.string().nullable(),
+  encryption: EncryptionParams.nullable(),
+  progress: z.object({
+    files: z.number(),
+    uploadedFiles: z.number(),
+    bytes: z.number(),
+    uploadedBytes: z.number(),
+    percent: z.number(),
+  }),
+  files: z.array(
+    z.object({
+      relPath: z.string(),
+      objectKey: z.string(),
+      size: z.number(),
+      contentType: z.string(),
+      sha256: z.string().nullable(),
+      state: z.enum(["presigned", "uploaded", "abandoned", "mismatch"]),
+      multipart: z.boolean(),
+      uploadedAt: z.string().nullable(),
+      verifiedAt: z.string().nullable(),
+    })
+  ),
+  missing: z.array(z.string()),
+});
+export type SessionStatus = z.infer<typeof SessionStatus>;
+
+// ---- GET /api/upload/:sessionId/proof ----
+export const ProofStep = z.object({ position: z.enum(["left", "right"]), hash: z.string() });
+export type ProofStep = z.infer<typeof ProofStep>;
+
+export const InclusionProof = z.object({
+  sessionId: z.string(),
+  algorithm: z.string(),
+  merkleRoot: z.string().nullable(),
+  path: z.string(),
+  sha256: z.string(),
+  index: z.number(),
+  leafCount: z.number(),
+  leaf: z.string(),
+  proof: z.array(ProofStep),
+});
+export type InclusionProof = z.infer<typeof InclusionProof>;
@@ -0,0 +1,20 @@
+import type { z } from "zod";
+
+export type { ZodType as Schema } from "zod";
+
+export type FieldError = { path: string; message: string };
+
+export type Validated<T> = { ok: true; data: T } | { ok: false; fields: FieldError[] };
+
+/** Parses `data` against `schema`, flattening any issues to one entry per field. */
+export function validate<S extends z.ZodType>(schema: S, data: unknown): Validated<z.output<S>> {
+  const result = schema.safeParse(data);
+  if (result.success) return { ok: true, data: result.data };
+  return {
+    ok: false,
+    fields: result.error.issues.map((i) => ({
+      path: i.path.map(String).join(".") || "(body)",
+      message: i.message,
+    })),
+  };
+}
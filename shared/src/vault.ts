@@ -0,0 +1,220 @@
+import { z } from "zod";
+import { EmergencyVetoDays } from "./emergency";
+import { EncryptionParams } from "./encryption";
+
+export const Product = z.enum(["Permanence", "Permanence+", "Heirloom"]);
+export type Product = z.infer<typeof Product>;
+
+export const EscrowYears = z.union([z.literal(3), z.literal(5), z.literal(10)]);
+export type EscrowYears = z.infer<typeof EscrowYears>;
+
+export const Visibility = z.enum(["PUBLIC", "PRIVATE"]);
+export type Visibility = z.infer<typeof Visibility>;
+
+// "dual" keeps a verified copy of every object on a second, independent storage backend
+export const Redundancy = z.enum(["single", "dual"]);
+export type Redundancy = z.infer<typeof Redundancy>;
+
+export const VaultStatus = z.enum(["draft", "minted"]);
+export type VaultStatus = z.infer<typeof VaultStatus>;
+
+// How often the owner checks in; at least yearly, since every plan that needs one requires annual EAS
+export const HeartbeatMonths = z.number().int().min(1).max(12);
+export type HeartbeatMonths = z.infer<typeof HeartbeatMonths>;
+
+// How long a verified heir claim waits before it can complete, so the owner can still object
+export const ClaimWaitingDays = z.number().int().min(1).max(90);
+export type ClaimWaitingDays = z.infer<typeof ClaimWaitingDays>;
+
+// Where a minted vault stands on its product's attestation / escrow schedule;
+// inherited and in_stewardship end it, through a completed heir claim
+export const LifecycleState = z.enum([
+  "active",
+  "attestation_due",
+  "lapsed",
+  "in_escrow",
+  "orphaned",
+  "released",
+  "inherited",
+  "in_stewardship",
+]);
+export type LifecycleState = z.infer<typeof LifecycleState>;
+
+export const VaultLifecycle = z.object({
+  state: LifecycleState,
+  since: z.string(),
+  nextHeartbeat: z.string().nullable(), // null for Heirloom and once orphaned
+  next: z.object({ state: LifecycleState, at: z.string() }).nullable(),
+  endowmentExhaustedAt: z.string().nullable(), // the endowment stopped covering storage; a top-up clears it
+});
+export type VaultLifecycle = z.infer<typeof VaultLifecycle>;
+
+export const LifecycleEvent = z.object({
+  from: LifecycleState.nullable(),
+  to: LifecycleState,
+  at: z.string(),
+  recordedAt: z.string(),
+});
+export type LifecycleEvent = z.infer<typeof LifecycleEvent>;
+
+// What the owner accepted, copied from the quote the vault was checked out with
+export const VaultPrice = z.object({
+  gb: z.number().nonnegative(),
+  tokenization: z.number().nonnegative(),
+  storage: z.number().nonnegative(),
+  subtotal: z.number().nonnegative(),
+  notes: z.string().optional(),
+});
+export type VaultPrice = z.infer<typeof VaultPrice>;
+
+// The ETH/USD rate the server locked an endowment at, kept for audit (rate_locks)
+export const RateLock = z.object({
+  id: z.string(),
+  source: z.string(), // rate provider
+  asOf: z.string(), // when the provider observed the rate
+  lockedAt: z.string(),
+});
+export type RateLock = z.infer<typeof RateLock>;
+
+// USD amount converted to ETH at the rate in force when it was locked
+export const Endowment = z.object({
+  usd: z.number().nonnegative(),
+  eth: z.number().nonnegative(),
+  usdPerEth: z.number().positive(),
+  lock: RateLock.optional(), // absent on endowments converted in the browser, before locks existed
+});
+export type Endowment = z.infer<typeof Endowment>;
+
+export const EndowmentUsd = z.number().nonnegative().max(1_000_000_000);
+
+export const VaultToken = z.object({
+  contract: z.string(),
+  tokenId: z.string(),
+  owner: z.string(),
+  name: z.string(),
+  imageDataUrl: z.string(),
+  tokenUriJson: z.string(),
+});
+export type VaultToken = z.infer<typeof VaultToken>;
+
+// ---- POST /api/vaults ----
+export const CreateVaultBody = z
+  .object({
+    sessionId: z.string().min(1), // a sealed upload session
+    name: z.string().trim().min(1).max(200),
+    product: Product,
+    escrowYears: EscrowYears.optional(),
+    heartbeatMonths: HeartbeatMonths.optional(), // defaults to 12
+    redundancy: Redundancy.optional(), // defaults to single
+    quoteId: z.string().min(1), // an unexpired quote (POST /api/quotes) for this session and plan
+  })
+  .refine((v) => v.product !== "Permanence+" || v.escrowYears !== undefined, {
+    path: ["escrowYears"],
+    message: "required for Permanence+",
+  });
+export type CreateVaultBody = z.infer<typeof CreateVaultBody>;
+
+// ---- PATCH /api/vaults/:id ----
+// Setting `token` records the mint; after that only visibility, the manifest text and heir settings may change.
+// Changing the plan (product, escrowYears, redundancy) needs a new quote for it.
+// The endowment is the one paid for with the vault's quote (POST /api/payments).
+export const UpdateVaultBody = z
+  .object({
+    name: z.string().trim().min(1).max(200),
+    product: Product,
+    redundancy: Redundancy,
+    escrowYears: EscrowYears.nullable(),
+    heartbeatMonths: HeartbeatMonths,
+    claimWaitingDays: ClaimWaitingDays,
+    custodialStewardship: z.boolean(),
+    emergencyVetoDays: EmergencyVetoDays,
+    quoteId: z.string().min(1),
+    visibility: Visibility,
+    manifestText: z.string().max(100_000),
+    token: VaultToken,
+  })
+  .partial()
+  .refine((v) => Object.keys(v).length > 0, { message: "nothing to update" });
+export type UpdateVaultBody = z.infer<typeof UpdateVaultBody>;
+
+// Copy of one object on the mirror: verified once its hash matched the primary's on both sides
+export const ReplicaStatus = z.enum(["pending", "verified", "failed"]);
+export type ReplicaStatus = z.infer<typeof ReplicaStatus>;
+
+export const VaultFile = z.object({
+  path: z.string(),
+  sizeBytes: z.number(),
+  sha256: z.string().nullable(),
+  mime: z.string(),
+  replica: ReplicaStatus.nullable(), // null for single-rail vaults
+});
+export type VaultFile = z.infer<typeof VaultFile>;
+
+export const VaultSummary = z.object({
+  id: z.string(),
+  name: z.string(),
+  product: Product,
+  escrowYears: EscrowYears.nullable(),
+  heartbeatMonths: HeartbeatMonths,
+  redundancy: Redundancy,
+  visibility: Visibility.nullable(),
+  status: VaultStatus,
+  sessionId: z.string(),
+  archive: z.object({ merkleRoot: z.string().nullable(), files: z.number(), bytes: z.number() }),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  mintedAt: z.string().nullable(),
+  lifecycle: VaultLifecycle.nullable(), // null while a draft
+});
+export type VaultSummary = z.infer<typeof VaultSummary>;
+
+// in_sync: every object verified on both rails; degraded: at least one copy failed and is being retried
+export const ReplicationState = z.enum(["in_sync", "syncing", "degraded", "not_configured"]);
+export type ReplicationState = z.infer<typeof ReplicationState>;
+
+export const Replication = z.object({
+  state: ReplicationState,
+  objects: z.object({ total: z.number(), verified: z.number(), pending: z.number(), failed: z.number() }),
+  lastVerifiedAt: z.string().nullable(),
+});
+export type Replication = z.infer<typeof Replication>;
+
+// ---- GET /api/vaults/:id, and the answer to POST and PATCH ----
+export const VaultRecord = VaultSummary.extend({
+  manifestText: z.string().nullable(),
+  price: VaultPrice.nullable(),
+  quoteId: z.string().nullable(), // null for vaults priced before quotes existed
+  endowment: Endowment.nullable(),
+  token: VaultToken.nullable(),
+  claimWaitingDays: ClaimWaitingDays,
+  custodialStewardship: z.boolean(),
+  emergencyVetoDays: EmergencyVetoDays,
+  files: z.array(VaultFile),
+  encryption: EncryptionParams.nullable(), // how to decrypt downloads; null when stored as uploaded
+  replication: Replication.nullable(), // null for single-rail vaults
+});
+export type VaultRecord = z.infer<typeof VaultRecord>;
+
+// ---- GET /api/vaults/:id/lifecycle ----
+export const LifecycleHistory = z.object({
+  lifecycle: VaultLifecycle.nullable(),
+  events: z.array(LifecycleEvent),
+});
+export type LifecycleHistory = z.infer<typeof LifecycleHistory>;
+
+// ---- POST /api/vaults/:id/heartbeat, GET /api/vaults/:id/heartbeats ----
+export const Heartbeat = z.object({
+  at: z.string(),
+  stateBefore: LifecycleState,
+  nextHeartbeat: z.string().nullable(),
+});
+export type Heartbeat = z.infer<typeof Heartbeat>;
+
+export const HeartbeatResponse = z.object({
+  heartbeat: Heartbeat,
+  lifecycle: VaultLifecycle,
+});
+export type HeartbeatResponse = z.infer<typeof HeartbeatResponse>;
+
+export const HeartbeatHistory = z.object({ heartbeats: z.array(Heartbeat) });
+export type HeartbeatHistory = z.infer<typeof HeartbeatHistory>;
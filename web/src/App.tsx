@@ -1,5 +1,78 @@
-import React, { useMemo, useRef, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import QRCode from "qrcode";
 import Logo from "./components/brand/Logo";
+import { sha256File } from "./lib/hash";
+import {
+  createEnvelopeKey,
+  createVaultKey,
+  decryptBlob,
+  encryptFile,
+  exportIdentity,
+  generateIdentity,
+  importIdentity,
+  NotARecipientError,
+  openIdentity,
+  sealedPublicKey,
+  sealIdentity,
+  splitVaultKey,
+  unlockVaultKey,
+  unlockWithIdentity,
+  unlockWithShares,
+  wrapRecipients,
+  WrongPassphraseError,
+  type ByteSource,
+  type Identity,
+  type VaultKey,
+} from "./lib/encryption";
+import {
+  AuthResponse,
+  ClaimDetail,
+  EmergencyRequest,
+  EndowmentLedger,
+  EndowmentProjection,
+  FixityHistory,
+  HeartbeatResponse,
+  Heir,
+  InheritedVault,
+  InclusionProof,
+  Manifest,
+  NotificationPreferences,
+  NotificationRecord,
+  EthUsdRate,
+  Payment,
+  PresignResponse,
+  PriceBook,
+  Quote,
+  SealError,
+  SealResponse,
+  SessionStatus,
+  UserPublicKey,
+  VaultRecord,
+  VaultSummary,
+  type AuthUser,
+  type CreatePaymentBody,
+  type CreateQuoteBody,
+  type CreateVaultBody,
+  type EncryptionParams,
+  type PublicKeyParams,
+  type EscrowYears,
+  type FieldError,
+  type LifecycleState,
+  type ClaimResolution,
+  type NotificationCategory,
+  type Schema,
+  type ShareHolder,
+  type PartUrl,
+  type PresignItem,
+  type Product,
+  type Redundancy,
+  type ReplicaStatus,
+  type Replication,
+  type UpdateVaultBody,
+  type UploadStartBody,
+  type Visibility,
+} from "@fawv/shared";
+import { merkleRoot, verifyProof } from "./lib/merkle";
 // ---- API base (dev uses Vite proxy if empty) ----
 const API_BASE = import.meta.env.VITE_API_BASE || "";
 
@@ -13,21 +86,21 @@ const API_BASE = import.meta.env.VITE_API_BASE || "";
 
 // ---------------------- Types & Utilities ----------------------
 
-type Product = "Permanence" | "Permanence+" | "Heirloom";
+// API payload types, vault fields and their validators live in @fawv/shared
 
-type EscrowYears = 3 | 5 | 10;
+// Survives reloads so a half-finished upload can be picked up again
+const SESSION_STORAGE_KEY = "fawv.uploadSession";
 
-type VaultVisibility = "PUBLIC" | "PRIVATE";
+// There is no recovery if it's forgotten, so make it a phrase rather than a password
+const MIN_PASSPHRASE = 12;
 
-// ---- Types returned by /api/upload/start ----
-type PresignItem = {
-  relPath: string;
-  objectKey: string;
-  s3Uri: string;
-  uploadUrl: string;
-  contentType: string;
-};
-type PresignResponse = { sessionId: string; items: PresignItem[] };
+// The user's X25519 key file, kept per account and sealed under a passphrase of their own; it
+// stays across sign-outs, so clearing the browser's storage is what loses it
+function identityStorageKey(userId: string) {
+  return `fawv.identity.${userId}`;
+}
+
+type EncryptMode = "none" | EncryptionParams["mode"];
 
 
 
@@ -59,110 +132,359 @@ function copy(text: string) {
   navigator.clipboard.writeText(text).catch(() => {});
 }
 
-async function sha256Hex(buf: ArrayBuffer): Promise<string> {
-  const hash = await crypto.subtle.digest("SHA-256", buf);
-  return Array.from(new Uint8Array(hash)).map(b => b.toString(16).padStart(2, "0")).join("");
+const LIFECYCLE_LABELS: Record<LifecycleState, string> = {
+  active: "Active",
+  attestation_due: "Attestation due",
+  lapsed: "Lapsed",
+  in_escrow: "In escrow",
+  orphaned: "Orphaned",
+  released: "Released to market",
+  inherited: "Inherited",
+  in_stewardship: "In custodial stewardship",
+};
+
+// Lifecycle states the owner can no longer return from (mirrors the API)
+const FINAL_LIFECYCLE_STATES = new Set<LifecycleState>(["orphaned", "released", "inherited", "in_stewardship"]);
+
+function formatDate(iso: string) {
+  return new Date(iso).toLocaleDateString();
+}
+
+// Same clean-up the API applies to relPath, so local and server Merkle leaves agree
+function storedPath(fullPath: string) {
+  return fullPath.replace(/^([./])+/, "").replace(/\.\.\//g, "");
 }
 
 // ---- Call your API to get presigned URLs ----
+// `bodies` are what gets stored: the files themselves, or their ciphertext when encrypting
 async function getPresignedPlan(
   sessionId: string,
-  fileList: DemoFile[]
+  fileList: DemoFile[],
+  bodies: Record<string, Blob | ByteSource>,
+  hashes: Record<string, string>,
+  encryption?: EncryptionParams
 ): Promise<PresignResponse> {
-  const payload = {
+  const payload: UploadStartBody = {
     sessionId,
     files: fileList.map((f) => ({
       relPath: f.fullPath,
-      size: f.file.size,
-      contentType: f.file.type || "application/octet-stream",
+      size: bodies[f.fullPath].size,
+      contentType: (!encryption && f.file.type) || "application/octet-stream",
+      sha256: hashes[f.fullPath],
     })),
+    encryption,
   };
   const res = await fetch(`${API_BASE}/api/upload/start`, {
     method: "POST",
+    credentials: "include",
     headers: { "Content-Type": "application/json" },
     body: JSON.stringify(payload),
   });
   if (!res.ok) throw new Error(`presign failed: ${res.status}`);
-  return res.json();
+  return PresignResponse.parse(await res.json());
+}
+
+// Asks the server to verify every stored object against its hash and seal the session
+async function sealSession(sessionId: string): Promise<SealResponse> {
+  const res = await fetch(`${API_BASE}/api/upload/complete`, {
+    method: "POST",
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ sessionId }),
+  });
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    const err = SealError.safeParse(body).data ?? { error: String(res.status) };
+    const detail = err.files?.map((f) => f.relPath) ?? err.missing ?? [];
+    throw new Error(`seal failed: ${err.error}${detail.length ? ` (${detail.join(", ")})` : ""}`);
+  }
+  return SealResponse.parse(body);
+}
+
+function saveBlob(blob: Blob, relPath: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = relPath.split("/").pop() || "download";
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
 }
-// Simple demo hash: concatenates file bytes in sorted path order.
-// NOTE: For very large folders this will be slow; fine for demo.
-async function hashFilesSHA256(list: DemoFile[]): Promise<string> {
-  const sorted = [...list].sort((a, b) => a.fullPath.localeCompare(b.fullPath));
-  const blobs: BlobPart[] = [];
-  for (const item of sorted) {
-    // include path to make the hash path-aware
-    blobs.push(item.fullPath, "\n");
-    blobs.push(await item.file.arrayBuffer());
+
+// One printable card per heir: the share as a QR code and as text to type in.
+// Built in a new window with DOM calls, so labels can't inject markup.
+async function printShareCards(vaultName: string, threshold: number, cards: { holder: ShareHolder; card: string }[]) {
+  const win = window.open("", "_blank");
+  if (!win) throw new Error("allow pop-ups to print the cards");
+  const doc = win.document;
+  doc.title = `${vaultName} — key shares`;
+  const style = doc.createElement("style");
+  style.textContent = `body{font-family:system-ui,sans-serif;margin:0}
+    section{page-break-after:always;padding:2rem;max-width:36rem}
+    code{display:block;word-break:break-all;font-size:.8rem;margin-top:1rem}`;
+  doc.head.appendChild(style);
+  for (const { holder, card } of cards) {
+    const section = doc.createElement("section");
+    const add = (tag: string, text: string) => section.appendChild(Object.assign(doc.createElement(tag), { textContent: text }));
+    add("h1", `Key share for ${holder.label}`);
+    add("p", `Vault “${vaultName}”. Any ${threshold} of the ${cards.length} shares together unlock it; this card alone does not.`);
+    add("p", "Keep it private and safe. Whoever collects enough cards can read the vault.");
+    section.appendChild(Object.assign(doc.createElement("img"), { src: await QRCode.toDataURL(card, { margin: 1, width: 280 }) }));
+    add("code", card);
+    doc.body.appendChild(section);
   }
-  const ab = await new Blob(blobs).arrayBuffer();
-  return sha256Hex(ab);
+  win.focus();
+  win.print();
 }
 
+// Fetches a short-lived download URL and hands it to the browser; encrypted
+// files are streamed through the API instead and decrypted here
+async function downloadFile(sessionId: string, relPath: string, key?: VaultKey) {
+  if (key) {
+    const res = await fetch(
+      `${API_BASE}/api/download/${encodeURIComponent(sessionId)}/stream?path=${encodeURIComponent(relPath)}`,
+      { credentials: "include" }
+    );
+    if (!res.ok) throw new Error(`download failed: ${res.status}`);
+    return saveBlob(await decryptBlob(key, await res.blob()), relPath);
+  }
+  const res = await fetch(
+    `${API_BASE}/api/download/${encodeURIComponent(sessionId)}?path=${encodeURIComponent(relPath)}`,
+    { credentials: "include" }
+  );
+  if (!res.ok) throw new Error(`download failed: ${res.status}`);
+  const { url } = (await res.json()) as { url: string };
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = relPath.split("/").pop() || "download";
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+}
 
-// ---------------------- Mock Pricing ----------------------
-// Demo rates; adjust freely. Per-GB (rounded up) + tokenization fee.
-const PRICING = {
-  tokenizationPerGB: 0.1, // applies to all products
-  permanence: {
-    storagePerGB: 0.6,
-    annualEAS: 20.0, // shown as required for Permanence
-  },
-  permanencePlus: {
-    storagePerGBBase: 0.5, // base per GB
-    perYearAdderPerGB: 0.2, // additional per-GB cost per escrow year (3/5/10)
-  },
-  heirloom: {
-    storagePerGB: 1.2, // 100-year guarantee, no EAS required
-  },
-};
+async function getSessionStatus(sessionId: string): Promise<SessionStatus | null> {
+  const res = await fetch(`${API_BASE}/api/upload/${encodeURIComponent(sessionId)}`, { credentials: "include" });
+  if (res.status === 404) return null;
+  if (!res.ok) throw new Error(`status failed: ${res.status}`);
+  return SessionStatus.parse(await res.json());
+}
 
-function ceilGB(bytes: number) {
-  return Math.max(1, Math.ceil(bytes / 1024 ** 3));
+// ---- Accounts: the API keeps the login in an HttpOnly cookie ----
+async function getCurrentUser(): Promise<AuthUser | null> {
+  const res = await fetch(`${API_BASE}/api/auth/me`, { credentials: "include" });
+  if (res.status === 401) return null;
+  if (!res.ok) throw new Error(`auth check failed: ${res.status}`);
+  return AuthResponse.parse(await res.json()).user;
 }
 
-function calculatePrice(
-  product: Product,
-  totalBytes: number,
-  escrowYears?: EscrowYears
-) {
-  const gb = ceilGB(totalBytes);
-  const tokenization = gb * PRICING.tokenizationPerGB;
-  if (product === "Permanence") {
-    const storage = gb * PRICING.permanence.storagePerGB;
-    return {
-      gb,
-      tokenization,
-      storage,
-      subtotal: tokenization + storage,
-      notes: `Requires annual Evidence of Active Stewardship (EAS) — $${PRICING.permanence.annualEAS.toFixed(
-        2
-      )}/yr`,
-    };
+type AuthFailure = { error: string; fields?: FieldError[] };
+
+async function signIn(
+  action: "login" | "register",
+  body: { email: string; password: string; displayName?: string }
+): Promise<AuthUser | AuthFailure> {
+  const res = await fetch(`${API_BASE}/api/auth/${action}`, {
+    method: "POST",
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) return { error: json.error ?? String(res.status), fields: json.fields };
+  return AuthResponse.parse(json).user;
+}
+
+async function signOut() {
+  await fetch(`${API_BASE}/api/auth/logout`, { method: "POST", credentials: "include" });
+}
+
+// ---- Vault registry: the record the builder fills in, step by step ----
+async function vaultRequest(
+  method: "GET" | "POST" | "PATCH",
+  path: string,
+  body?: CreateVaultBody | UpdateVaultBody
+): Promise<VaultRecord> {
+  const res = await fetch(`${API_BASE}/api/vaults${path}`, {
+    method,
+    credentials: "include",
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(`vault ${method} failed: ${json.error ?? res.status}`);
+  return VaultRecord.parse(json);
+}
+
+async function sendHeartbeat(vaultId: string): Promise<HeartbeatResponse> {
+  const res = await fetch(`${API_BASE}/api/vaults/${encodeURIComponent(vaultId)}/heartbeat`, {
+    method: "POST",
+    credentials: "include",
+  });
+  const json = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(`heartbeat failed: ${json.error ?? res.status}`);
+  return HeartbeatResponse.parse(json);
+}
+
+// JSON call to the API; a failure throws with the server's error code so callers can branch on it
+async function apiRequest<T>(
+  schema: Schema<T> | null,
+  method: "GET" | "POST" | "PUT" | "PATCH" | "DELETE",
+  path: string,
+  body?: unknown
+): Promise<T> {
+  const res = await fetch(`${API_BASE}/api${path}`, {
+    method,
+    credentials: "include",
+    headers: body ? { "Content-Type": "application/json" } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const json = res.status === 204 ? null : await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(json?.error ?? String(res.status));
+  return schema ? schema.parse(json) : (json as T);
+}
+
+async function listVaults(): Promise<VaultSummary[]> {
+  const res = await fetch(`${API_BASE}/api/vaults`, { credentials: "include" });
+  if (!res.ok) throw new Error(`vault list failed: ${res.status}`);
+  const json = (await res.json()) as { vaults: unknown[] };
+  return json.vaults.map((v) => VaultSummary.parse(v));
+}
+
+async function postJSON<T>(path: string, body: unknown): Promise<T> {
+  const res = await fetch(`${API_BASE}${path}`, {
+    method: "POST",
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error(`${path} failed: ${res.status}`);
+  return res.json();
+}
+
+// ---- Multipart upload: parts are presigned in batches and only failed parts are retried ----
+const PART_BATCH = 100;
+const PART_CONCURRENCY = 4;
+const MAX_PART_ATTEMPTS = 4;
+
+async function uploadParts(
+  file: Blob | ByteSource,
+  partSize: number,
+  urls: PartUrl[],
+  etags: Map<number, string>,
+  onBytes: (n: number) => void
+): Promise<number[]> {
+  const failed: number[] = [];
+  const queue = [...urls];
+  const worker = async () => {
+    for (let next = queue.shift(); next; next = queue.shift()) {
+      const start = (next.partNumber - 1) * partSize;
+      const body = await file.slice(start, Math.min(start + partSize, file.size));
+      try {
+        const resp = await fetch(next.url, { method: "PUT", body });
+        // The bucket's CORS config must expose ETag for this header to be readable
+        const etag = resp.headers.get("ETag");
+        if (!resp.ok || !etag) throw new Error(`part ${next.partNumber}: ${resp.status}`);
+        etags.set(next.partNumber, etag);
+        onBytes(body.size);
+      } catch (e) {
+        console.warn("part upload failed", { partNumber: next.partNumber, error: e });
+        failed.push(next.partNumber);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: PART_CONCURRENCY }, worker));
+  return failed;
+}
+
+async function uploadMultipart(item: PresignItem, file: Blob | ByteSource, onBytes: (n: number) => void) {
+  const { uploadId, partSize, partCount, uploadedParts } = item.multipart!;
+  // parts an interrupted attempt already stored are kept, not sent again
+  const etags = new Map(uploadedParts.map((p) => [p.partNumber, p.etag]));
+  let pending = Array.from({ length: partCount }, (_, i) => i + 1).filter((n) => !etags.has(n));
+  onBytes([...etags.keys()].reduce((sum, n) => sum + Math.min(partSize, file.size - (n - 1) * partSize), 0));
+
+  for (let attempt = 1; pending.length && attempt <= MAX_PART_ATTEMPTS; attempt++) {
+    if (attempt > 1) await sleep(1000 * 2 ** (attempt - 2));
+    const failed: number[] = [];
+    for (let i = 0; i < pending.length; i += PART_BATCH) {
+      // presign per batch so URLs are fresh even for very long uploads
+      const { parts } = await postJSON<{ parts: PartUrl[] }>("/api/upload/multipart/parts", {
+        objectKey: item.objectKey,
+        uploadId,
+        partNumbers: pending.slice(i, i + PART_BATCH),
+      });
+      failed.push(...(await uploadParts(file, partSize, parts, etags, onBytes)));
+    }
+    pending = failed;
   }
-  if (product === "Permanence+") {
-    const years = escrowYears ?? 3;
-    const perGB =
-      PRICING.permanencePlus.storagePerGBBase +
-      years * PRICING.permanencePlus.perYearAdderPerGB;
-    const storage = gb * perGB;
-    return {
-      gb,
-      tokenization,
-      storage,
-      subtotal: tokenization + storage,
-      notes: `${years}-year escrow window with grace; annual EAS still required.`,
-    };
+
+  if (pending.length) {
+    await postJSON("/api/upload/multipart/abort", { objectKey: item.objectKey, uploadId }).catch(() => {});
+    throw new Error(`upload failed: ${item.relPath} (${pending.length} parts)`);
   }
-  // Heirloom
-  const storage = gb * PRICING.heirloom.storagePerGB;
-  return {
-    gb,
-    tokenization,
-    storage,
-    subtotal: tokenization + storage,
-    notes: `100-year guarantee. No annual EAS required.`,
-  };
+
+  await postJSON("/api/upload/multipart/complete", {
+    objectKey: item.objectKey,
+    uploadId,
+    parts: [...etags].map(([partNumber, etag]) => ({ partNumber, etag })),
+  });
+}
+
+// Archive hash: Merkle root over (path, SHA-256) per file. Files are hashed one
+// at a time, reusing hashes from the upload step where we have them.
+async function archiveMerkleRoot(list: DemoFile[], known: Record<string, string>): Promise<string> {
+  const entries = [];
+  for (const f of list) {
+    const sha256 = known[f.fullPath] ?? (await sha256File(f.file));
+    entries.push({ path: storedPath(f.fullPath), sha256 });
+  }
+  return merkleRoot(entries);
+}
+
+// Fetches one file's inclusion proof and checks it against the root we minted with
+async function checkProof(sessionId: string, relPath: string, root: string) {
+  const res = await fetch(
+    `${API_BASE}/api/upload/${encodeURIComponent(sessionId)}/proof?path=${encodeURIComponent(relPath)}`,
+    { credentials: "include" }
+  );
+  if (!res.ok) throw new Error(`proof failed: ${res.status}`);
+  const body = InclusionProof.parse(await res.json());
+  const ok = await verifyProof({ path: body.path, sha256: body.sha256 }, body.proof, root);
+  return { ok, proof: body };
+}
+
+
+// ---------------------- Pricing ----------------------
+// Rates and quotes come from the API; the price a vault is checked out at is the quote's.
+async function getPriceBook(): Promise<PriceBook> {
+  return apiRequest(PriceBook, "GET", "/price-books/current");
+}
+
+function requestQuote(body: CreateQuoteBody): Promise<Quote> {
+  return apiRequest(Quote, "POST", "/quotes", body);
+}
+
+// Authorizes and captures the quote's price and endowment; paying a quote again returns its existing payment
+async function payForQuote(quoteId: string, endowmentUsd: number | null): Promise<Payment> {
+  const body: CreatePaymentBody = { quoteId, endowmentUsd: endowmentUsd || undefined };
+  const p = await apiRequest(Payment, "POST", "/payments", body);
+  return p.status === "captured" ? p : apiRequest(Payment, "POST", `/payments/${p.id}/capture`);
+}
+
+const REPLICA_BADGE: Record<ReplicaStatus, [string, string]> = {
+  verified: ["mirrored", "text-emerald-300"],
+  pending: ["copying", "text-zinc-400"],
+  failed: ["copy failed", "text-amber-300"],
+};
+
+function replicationLabel(r: Replication) {
+  const { total, verified, failed } = r.objects;
+  const last = r.lastVerifiedAt ? ` · last verified ${new Date(r.lastVerifiedAt).toLocaleString()}` : "";
+  if (r.state === "in_sync") return `Dual · in sync (${verified}/${total} verified${last})`;
+  if (r.state === "syncing") return `Dual · syncing (${verified}/${total} verified)`;
+  if (r.state === "degraded") return `Dual · ${failed} object(s) failed to mirror, retrying (${verified}/${total} verified)`;
+  return "Dual · mirror not configured on this server";
 }
 
 // ---------------------- Folder Drop Helpers ----------------------
@@ -238,43 +560,187 @@ export default function App() {
 
   // flow state
   const [started, setStarted] = useState(false);
+  // signed-in account; undefined until the first /api/auth/me check answers
+  const [user, setUser] = useState<AuthUser | null | undefined>(undefined);
   const [product, setProduct] = useState<Product | null>(null);
   const [escrowYears, setEscrowYears] = useState<EscrowYears>(3);
+  const [redundancy, setRedundancy] = useState<Redundancy>("single");
   const [files, setFiles] = useState<DemoFile[]>([]);
-  const [sessionId] = useState(() => randomHex(8));
+  const [sessionId, setSessionId] = useState(() => localStorage.getItem(SESSION_STORAGE_KEY) || randomHex(8));
+  const [resumable, setResumable] = useState<SessionStatus | null>(null);
   const [uploading, setUploading] = useState(false);
   const [uploadPct, setUploadPct] = useState(0);
+  const [uploadPhase, setUploadPhase] = useState<"hashing" | "uploading">("hashing");
   const [uploadedItems, setUploadedItems] = useState<PresignItem[] | null>(null);
+  const [fileHashes, setFileHashes] = useState<Record<string, string>>({});
+  const [encryptMode, setEncryptMode] = useState<EncryptMode>("none");
+  const [identity, setIdentity] = useState<Identity | null>(null);
+  // the sealed key in this browser, until its passphrase is entered
+  const [sealedIdentity, setSealedIdentity] = useState<string | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [passphraseConfirm, setPassphraseConfirm] = useState("");
+  const [passphraseHint, setPassphraseHint] = useState("");
+  // the unlocked key stays in memory only; reloading the page means unlocking it again
+  const [vaultKey, setVaultKey] = useState<VaultKey | null>(null);
   const [dragActive, setDragActive] = useState(false);
   const [vaultName, setVaultName] = useState("");
   const [acceptedPrice, setAcceptedPrice] = useState(false);
   const [manifest, setManifest] = useState("");
-  const [visibility, setVisibility] = useState<VaultVisibility | null>(null);
-  // Endowment in USD (demo)
+  const [visibility, setVisibility] = useState<Visibility | null>(null);
+  // Endowment in USD; the API locks the ETH rate when the payment is created
   const [endowmentUsd, setEndowmentUsd] = useState<string>("");
   const [endowmentError, setEndowmentError] = useState<string | null>(null);
-  const [demoEthPrice, setDemoEthPrice] = useState<number>(3200); // USD per ETH (demo)
-  const [lockedEndowment, setLockedEndowment] = useState<null | { usd: number; eth: number; usdPerEth: number }>(null);
+  const [payment, setPayment] = useState<Payment | null>(null);
+  const [ethRate, setEthRate] = useState<EthUsdRate | null>(null); // indicative, for the preview
+
+  const lockedKey = !identity && sealedIdentity ? sealedPublicKey(sealedIdentity) : null;
+  const keyProblem =
+    encryptMode === "passphrase"
+      ? passphrase.length < MIN_PASSPHRASE
+        ? `use a passphrase of at least ${MIN_PASSPHRASE} characters`
+        : passphrase !== passphraseConfirm
+          ? "the two passphrase entries don't match"
+          : null
+      : encryptMode === "publicKey" && !identity
+        ? lockedKey
+          ? "unlock your encryption key"
+          : "create or import your encryption key"
+        : null;
+
+  // A resumed session keeps the key it started with, so its files all open with one key
+  async function sessionKey(): Promise<VaultKey> {
+    const status = await getSessionStatus(sessionId);
+    const started = status?.encryption;
+    if (!started) {
+      if (encryptMode === "passphrase") return createVaultKey(passphrase, passphraseHint.trim() || undefined);
+      // the owner is the first recipient; heirs are added from the vault once they publish a key
+      return createEnvelopeKey([{ label: user?.email ?? "Owner", publicKey: identity!.publicKey }]);
+    }
+    if (started.mode !== encryptMode) throw new Error("this upload was started with a different kind of encryption");
+    if (vaultKey?.params.keyCheck === started.keyCheck) return vaultKey;
+    try {
+      return started.mode === "passphrase"
+        ? await unlockVaultKey(passphrase, started)
+        : await unlockWithIdentity(identity!, started);
+    } catch (e) {
+      if (e instanceof WrongPassphraseError) throw new Error("the passphrase doesn't match the one this upload started with");
+      if (e instanceof NotARecipientError) throw new Error("your key is not the one this upload started with");
+      throw e;
+    }
+  }
 
-  // S3 uploader (calls /api/upload/start then PUTs each file)
+  // The key for an encrypted vault. Passphrase vaults ask for it unless already unlocked;
+  // public-key vaults unwrap with this browser's key, so there's nothing to type.
+  async function keyFor(params: EncryptionParams): Promise<VaultKey | null> {
+    if (vaultKey?.params.keyCheck === params.keyCheck) return vaultKey;
+    let key: VaultKey;
+    if (params.mode === "publicKey") {
+      if (!identity && !sealedIdentity) throw new NotARecipientError();
+      const id = identity ?? (await unlockIdentity());
+      if (!id) return null;
+      key = await unlockWithIdentity(id, params);
+    } else {
+      const entered = window.prompt(`Vault passphrase${params.hint ? ` (hint: ${params.hint})` : ""}`);
+      if (!entered) return null;
+      key = await unlockVaultKey(entered, params);
+    }
+    setVaultKey(key);
+    return key;
+  }
+
+  // Asks for the passphrase of the sealed key; null if there is none or it wasn't entered
+  async function unlockIdentity(): Promise<Identity | null> {
+    if (identity) return identity;
+    if (!sealedIdentity) return null;
+    const entered = window.prompt("Key passphrase");
+    if (!entered) return null;
+    const opened = await openIdentity(sealedIdentity, entered);
+    setIdentity(opened);
+    return opened;
+  }
+
+  const changeIdentity = async (next: Identity) => {
+    if (!user) throw new Error("Sign in to keep a key.");
+    const entered = window.prompt(`Passphrase to seal the key in this browser (at least ${MIN_PASSPHRASE} characters)`);
+    if (!entered) return;
+    if (entered.length < MIN_PASSPHRASE) throw new Error(`Use a passphrase of at least ${MIN_PASSPHRASE} characters.`);
+    if (window.prompt("Enter the passphrase again") !== entered) throw new Error("The two passphrase entries don't match.");
+    // publish first: the server refuses a key that would let an heir open an Heirloom vault alone
+    await apiRequest(UserPublicKey, "PUT", "/keys/me", { publicKey: next.publicKey }).catch((e) => {
+      throw (e as Error).message === "heirloom_recipient"
+        ? new Error("An Heirloom vault you are an heir to is locked to this key, so you can't use it.")
+        : e;
+    });
+    const sealed = await sealIdentity(next, entered);
+    localStorage.setItem(identityStorageKey(user.id), sealed);
+    setSealedIdentity(sealed);
+    setIdentity(next);
+  };
+
+  // S3 uploader (calls /api/upload/start then PUTs each file, or its parts for large files)
 
 async function uploadToS3(source: DemoFile[] = files) {
   if (!source.length) return;
+  if (keyProblem) return alert(`Before uploading, ${keyProblem}.`);
   setUploading(true);
   setUploadPct(0);
   try {
-    const plan = await getPresignedPlan(sessionId, source);
-    let done = 0;
+    setUploadPhase("hashing");
+    const key = encryptMode !== "none" ? await sessionKey() : null;
+
+    // Hash first: the server binds each file's SHA-256 into its upload and checks it on seal.
+    // Encrypted files are read twice: once to derive their file id, once to hash the ciphertext.
+    const passes = key ? 2 : 1;
+    const totalSize = source.reduce((s, f) => s + f.file.size, 0) * passes || 1;
+    const bodies: Record<string, Blob | ByteSource> = {};
+    const hashes: Record<string, string> = {};
+    let hashed = 0;
+    const progress = (done: number) => setUploadPct(Math.round(((hashed + done) / totalSize) * 100));
+    for (const f of source) {
+      if (key) {
+        bodies[f.fullPath] = await encryptFile(key, f.fullPath, f.file, progress);
+        hashed += f.file.size;
+      } else {
+        bodies[f.fullPath] = f.file;
+      }
+      hashes[f.fullPath] = await sha256File(bodies[f.fullPath], (done) =>
+        progress(Math.min(done, f.file.size))
+      );
+      hashed += f.file.size;
+    }
+    setFileHashes(hashes);
+
+    const plan = await getPresignedPlan(sessionId, source, bodies, hashes, key?.params);
+    // the server starts a fresh session if ours belongs to another account
+    if (plan.sessionId !== sessionId) setSessionId(plan.sessionId);
+    setUploadPhase("uploading");
+    setUploadPct(0);
+    const storedSize = Object.values(bodies).reduce((s, b) => s + b.size, 0) || 1;
+    let sent = 0;
+    const onBytes = (n: number) => {
+      sent += n;
+      setUploadPct(Math.round((sent / storedSize) * 100));
+    };
 
     for (const item of plan.items) {
-      const match = source.find((x) => x.fullPath === item.relPath);
-      if (!match) continue;
+      const body = bodies[item.relPath];
+      if (!body) continue;
+      if (item.state === "uploaded") {
+        onBytes(body.size);
+        continue;
+      }
+
+      if (item.multipart) {
+        await uploadMultipart(item, body, onBytes);
+        continue;
+      }
 
       // IMPORTANT: your presigned URL includes x-amz-server-side-encryption,
       // so we must send the same header (AES256) on the PUT.
-      const resp = await fetch(item.uploadUrl, {
+      const resp = await fetch(item.uploadUrl!, {
         method: "PUT",
-        body: match.file,
+        headers: item.headers,
+        body: body instanceof Blob ? body : await body.slice(0, body.size),
       });
 
       // ⬇️ NEW: log S3's error XML so we can see the exact reason if it fails
@@ -289,11 +755,13 @@ async function uploadToS3(source: DemoFile[] = files) {
         throw new Error(`upload failed: ${item.relPath}`);
       }
 
-      done++;
-      setUploadPct(Math.round((done / plan.items.length) * 100));
+      onBytes(body.size);
     }
 
+    // sealed at checkout, once a quote for exactly these files is paid
+    setVaultKey(key);
     setUploadedItems(plan.items);
+    setResumable(null);
     console.log("S3 uploaded", {
       sessionId,
       count: plan.items.length,
@@ -301,15 +769,95 @@ async function uploadToS3(source: DemoFile[] = files) {
     });
   } catch (e) {
     console.error("S3 upload error", e);
-    alert("Upload failed. Check console.");
+    alert(`Upload failed. ${e instanceof Error ? e.message : "Check console."}`);
     setUploadedItems(null);
   } finally {
     setUploading(false);
   }
 }
 
-  // NEW: locked archive hash (computed once after pricing)
-const [archiveHash, setArchiveHash] = useState<string>("");
+  useEffect(() => {
+    localStorage.setItem(SESSION_STORAGE_KEY, sessionId);
+  }, [sessionId]);
+
+  // Only the signed-in account's key, and only while it is the one the account has published;
+  // it stays sealed until a vault or the key panel needs it
+  useEffect(() => {
+    setIdentity(null);
+    setSealedIdentity(null);
+    if (!user) return;
+    let cancelled = false;
+    const stored = localStorage.getItem(identityStorageKey(user.id));
+    if (!stored) return;
+    const publicKey = sealedPublicKey(stored);
+    if (!publicKey) return console.error("stored key unreadable");
+    apiRequest(UserPublicKey, "GET", "/keys/me")
+      .catch(() => null)
+      .then((published) => {
+        if (cancelled) return;
+        if (published?.publicKey !== publicKey) return console.warn("stored key isn't the one this account published");
+        setSealedIdentity(stored);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id]);
+
+  useEffect(() => {
+    getCurrentUser()
+      .then(setUser)
+      .catch(() => setUser(null));
+  }, []);
+
+  // Offer to resume if the stored session still has files missing
+  useEffect(() => {
+    if (!user) return setResumable(null);
+    getSessionStatus(sessionId)
+      .then((s) => setResumable(s && s.status === "open" && s.missing.length ? s : null))
+      .catch(() => setResumable(null));
+  }, [sessionId, user]);
+
+  // The vault record on the server; the Vault step renders this, not local state
+  const [vault, setVault] = useState<VaultRecord | null>(null);
+  const [myVaults, setMyVaults] = useState<VaultSummary[]>([]);
+
+  // Mirroring runs in the background; keep the rails row current until it settles
+  useEffect(() => {
+    if (!vault || vault.replication?.state !== "syncing") return;
+    const timer = setTimeout(() => {
+      vaultRequest("GET", `/${encodeURIComponent(vault.id)}`).then(setVault, (e) => console.error(e));
+    }, 5000);
+    return () => clearTimeout(timer);
+  }, [vault]);
+
+  useEffect(() => {
+    if (!user) return setMyVaults([]);
+    listVaults()
+      .then(setMyVaults)
+      .catch(() => setMyVaults([]));
+  }, [user]);
+
+  const openVault = async (id: string) => {
+    try {
+      setVault(await vaultRequest("GET", `/${encodeURIComponent(id)}`));
+      setStarted(true);
+      setStep("vault");
+    } catch (e) {
+      console.error(e);
+      alert("Could not load that vault. Check console.");
+    }
+  };
+
+  const checkIn = async () => {
+    if (!vault) return;
+    try {
+      const { lifecycle } = await sendHeartbeat(vault.id);
+      setVault({ ...vault, lifecycle });
+    } catch (e) {
+      console.error(e);
+      alert("Check-in failed. Check console.");
+    }
+  };
 
   const [step, setStep] = useState<
   
@@ -325,24 +873,52 @@ const [archiveHash, setArchiveHash] = useState<string>("");
 
   const totalBytes = useMemo(() => files.reduce((s, f) => s + f.file.size, 0), [files]);
 
-  const price = useMemo(() => {
+  // Prices are the server's: a signed quote for the uploaded files and the chosen plan
+  const [priceBook, setPriceBook] = useState<PriceBook | null>(null);
+  const [quote, setQuote] = useState<Quote | null>(null);
+  const [quoteError, setQuoteError] = useState<string | null>(null);
+  const price = quote?.price ?? null;
+
+  const refreshQuote = async () => {
     if (!product) return null;
-    return calculatePrice(product, totalBytes, escrowYears);
-  }, [product, totalBytes, escrowYears]);
+    setQuoteError(null);
+    try {
+      const q = await requestQuote({
+        sessionId,
+        product,
+        escrowYears: product === "Permanence+" ? escrowYears : undefined,
+        redundancy,
+      });
+      setQuote(q);
+      setAcceptedPrice(false); // a new quote has to be accepted again
+      return q;
+    } catch (e) {
+      console.error(e);
+      setQuote(null);
+      setQuoteError(`Could not get a quote (${e instanceof Error ? e.message : "unknown error"}).`);
+      return null;
+    }
+  };
+
+  useEffect(() => {
+    getPriceBook().then(setPriceBook, (e) => console.error(e));
+  }, []);
+
+  useEffect(() => {
+    if (step === "pricing") void refreshQuote();
+  }, [step, product, escrowYears, redundancy, sessionId]);
+
+  useEffect(() => {
+    if (step !== "pricing") return;
+    apiRequest(EthUsdRate, "GET", "/rates/eth-usd").then(setEthRate, (e) => {
+      console.error(e);
+      setEthRate(null);
+    });
+  }, [step]);
 
   // token data (post-mint)
   const [showTokenModal, setShowTokenModal] = useState(false);
-  const [tokenData, setTokenData] = useState<
-    | null
-    | {
-        contract: string;
-        tokenId: string;
-        owner: string;
-        name: string;
-        imageDataUrl: string;
-        tokenUriJson: string;
-      }
-  >(null);
+  const tokenData = vault?.token ?? null;
 
   // drag/drop handlers
   const onDragOver = (e: React.DragEvent) => {
@@ -368,6 +944,7 @@ const [archiveHash, setArchiveHash] = useState<string>("");
     if (e.target.files && e.target.files.length) {
       const picked = fromInputFileList(e.target.files);
       setFiles(picked);
+      uploadToS3(picked);
     }
   };
 
@@ -380,101 +957,184 @@ const [archiveHash, setArchiveHash] = useState<string>("");
     setVisibility(null);
     setStep("selectProduct");
     setEscrowYears(3);
+    setRedundancy("single");
+    setQuote(null);
     setShowTokenModal(false);
-    setTokenData(null);
+    setVault(null);
     setEndowmentUsd("");
     setEndowmentError(null);
-    setLockedEndowment(null);
+    setPayment(null);
+    setSessionId(randomHex(8)); // fresh upload session
+    setUploadedItems(null);
+    setFileHashes({});
+    setEncryptMode("none");
+    setPassphrase("");
+    setPassphraseConfirm("");
+    setPassphraseHint("");
+    setVaultKey(null);
     setStarted(true); // stay in demo mode for another build
   };
 
+  const logout = async () => {
+    await signOut().catch(() => {});
+    setUser(null);
+    resetFlow();
+    setStarted(false);
+  };
+
   const proceedAfterPricing = async () => {
   // require accepted pricing and a vault name
   if (!acceptedPrice || !vaultName.trim()) return;
 
-  // validate optional endowment USD if provided and lock conversion at this moment
+  if (!product || !quote) return;
+  if (new Date(quote.expiresAt) <= new Date()) {
+    if (await refreshQuote()) alert("Your quote expired, so prices were quoted again. Please review and accept them.");
+    return;
+  }
+
+  // validate optional endowment USD; it is charged with the quote, at the rate the server locks on payment
+  let endowmentUsdValue: number | null = null;
   const trimmed = (endowmentUsd ?? "").toString().trim();
   if (trimmed !== "") {
     const num = parseFloat(trimmed);
     if (Number.isNaN(num) || num < 0) {
       setEndowmentError("Please enter a valid non-negative USD amount for Endowment, or leave blank.");
       return;
-    } else {
-      const usdPerEth = demoEthPrice && demoEthPrice > 0 ? demoEthPrice : 1;
-      const usd = num;
-      const eth = usd / usdPerEth;
-      setLockedEndowment({ usd, eth, usdPerEth });
     }
-  } else {
-    setLockedEndowment(null);
+    endowmentUsdValue = num;
   }
   setEndowmentError(null);
 
-  // NEW: compute archive hash once pricing is accepted
-  const hash = files.length ? await hashFilesSHA256(files) : "";
-  setArchiveHash(hash);
+  // Pay for the quote, then seal the upload it priced (a no-op once sealed, e.g. after a re-plan)
+  try {
+    setPayment(await payForQuote(quote.id, endowmentUsdValue));
+    await sealSession(sessionId);
+  } catch (e) {
+    console.error(e);
+    const code = e instanceof Error ? e.message : "";
+    if (code === "payment_exists") {
+      if (await refreshQuote()) alert("This quote was already paid with a different endowment, so prices were quoted again. Please review and accept them.");
+      return;
+    }
+    alert(
+      code === "payment_declined"
+        ? "Your payment was declined. Please check your payment method and try again."
+        : code === "rate_unavailable"
+          ? "No current ETH rate is available to lock your endowment. Please try again shortly, or continue without one."
+          : code === "payment_in_progress"
+            ? "Your payment is still being processed. Please try again in a moment."
+            : `Could not take payment. ${code || "Check console."}`
+    );
+    return;
+  }
+
+  // Record (or update) the vault; the server fixes the archive root from the sealed upload
+  const fields = {
+    name: vaultName.trim(),
+    product,
+    redundancy,
+    quoteId: quote.id,
+  };
+  try {
+    const saved = vault
+      ? await vaultRequest("PATCH", `/${vault.id}`, {
+          ...fields,
+          escrowYears: product === "Permanence+" ? escrowYears : null,
+        })
+      : await vaultRequest("POST", "", {
+          ...fields,
+          sessionId,
+          escrowYears: product === "Permanence+" ? escrowYears : undefined,
+        });
+
+    // Independent check: the root over our own hashes must match what the server sealed
+    const localRoot = await archiveMerkleRoot(files, fileHashes);
+    if (saved.archive.merkleRoot !== localRoot) {
+      alert("The stored archive does not match your files (Merkle roots differ). Please re-upload.");
+      return;
+    }
+    setVault(saved);
+  } catch (e) {
+    console.error(e);
+    alert(
+      e instanceof Error && e.message === "heirloom_uses_shares"
+        ? "Your vault's key is wrapped to one of its heirs. Remove them as a recipient before choosing Heirloom."
+        : `Could not save your vault. ${e instanceof Error ? e.message : "Check console."}`
+    );
+    return;
+  }
 
   setStep("manifest");
 };
 
 
   const startMint = async () => {
-    if (!visibility || !manifest.trim()) return;
+    if (!vault || !visibility || !manifest.trim()) return;
     setStep("minting");
 
-    // simulate archive + mint
-    await sleep(1200);
+    try {
+      // saved first, so the manifest survives even if the mint fails
+      const v = await vaultRequest("PATCH", `/${vault.id}`, { visibility, manifestText: manifest });
 
-    // create a tiny on-the-fly SVG image to embed into tokenURI (data URL)
-    const svg = `<svg xmlns='http://www.w3.org/2000/svg' width='512' height='512'>
+      // simulate archive + mint
+      await sleep(1200);
+
+      // create a tiny on-the-fly SVG image to embed into tokenURI (data URL)
+      const svg = `<svg xmlns='http://www.w3.org/2000/svg' width='512' height='512'>
       <rect width='100%' height='100%' fill='black'/>
       <g font-family='monospace' fill='white'>
         <text x='24' y='64' font-size='32'>FAWV Vault Token</text>
-        <text x='24' y='120' font-size='20'>${product ?? "Vault"}</text>
-        <text x='24' y='160' font-size='16'>${vaultName || "Unnamed Vault"}</text>
-        <text x='24' y='200' font-size='16'>Size: ${formatBytes(totalBytes)}</text>
-        <text x='24' y='240' font-size='16'>Files: ${files.length}</text>
+        <text x='24' y='120' font-size='20'>${v.product}</text>
+        <text x='24' y='160' font-size='16'>${v.name}</text>
+        <text x='24' y='200' font-size='16'>Size: ${formatBytes(v.archive.bytes)}</text>
+        <text x='24' y='240' font-size='16'>Files: ${v.archive.files}</text>
       </g>
     </svg>`;
-    const imageDataUrl = `data:image/svg+xml;base64,${btoa(svg)}`;
-
-    const tokenId = `0x${randomHex(32)}`;
-    const contract = `0x${randomHex(20)}`; // mock contract address
-    const owner = `0x${randomHex(20)}`; // mock owner address
-
-    const tokenMeta = {
-  name: `${vaultName} — FAWV Vault`,
-  description:
-    "Demo ERC-721 style token representing a FAWV Vault (mock, non-transferable in demo).",
-  image: imageDataUrl,
-  attributes: [
-    { trait_type: "Product", value: product },
-    { trait_type: "Escrow Years", value: product === "Permanence+" ? escrowYears : undefined },
-    { trait_type: "Total Files", value: files.length },
-    { trait_type: "Total Size", value: formatBytes(totalBytes) },
-    { trait_type: "Visibility", value: visibility },
-    { trait_type: "Archive Hash (SHA-256)", value: archiveHash || "(none)" },
-    { trait_type: "Endowment (USD)", value: lockedEndowment ? Number(lockedEndowment.usd.toFixed(2)) : undefined },
-    { trait_type: "Endowment (ETH at time)", value: lockedEndowment ? Number(lockedEndowment.eth.toFixed(6)) : undefined },
-    { trait_type: "Endowment Rate (USD/ETH)", value: lockedEndowment ? Number(lockedEndowment.usdPerEth.toFixed(2)) : undefined },
-  ].filter((a) => a.value !== undefined),
-};
-
-
-    const tokenUriJson = JSON.stringify(tokenMeta, null, 2);
-
-    setTokenData({
-      contract,
-      tokenId,
-      owner,
-      name: tokenMeta.name,
-      imageDataUrl,
-      tokenUriJson,
-    });
+      const imageDataUrl = `data:image/svg+xml;base64,${btoa(svg)}`;
+
+      const tokenId = `0x${randomHex(32)}`;
+      const contract = `0x${randomHex(20)}`; // mock contract address
+      const owner = `0x${randomHex(20)}`; // mock owner address
+
+      const tokenMeta = {
+        name: `${v.name} — FAWV Vault`,
+        description: "Demo ERC-721 style token representing a FAWV Vault (mock, non-transferable in demo).",
+        image: imageDataUrl,
+        attributes: [
+          { trait_type: "Vault ID", value: v.id },
+          { trait_type: "Product", value: v.product },
+          { trait_type: "Escrow Years", value: v.escrowYears ?? undefined },
+          { trait_type: "Total Files", value: v.archive.files },
+          { trait_type: "Total Size", value: formatBytes(v.archive.bytes) },
+          { trait_type: "Visibility", value: v.visibility },
+          { trait_type: "Archive Merkle Root (SHA-256)", value: v.archive.merkleRoot || "(none)" },
+          { trait_type: "Endowment (USD)", value: v.endowment ? Number(v.endowment.usd.toFixed(2)) : undefined },
+          { trait_type: "Endowment (ETH at time)", value: v.endowment ? Number(v.endowment.eth.toFixed(6)) : undefined },
+          { trait_type: "Endowment Rate (USD/ETH)", value: v.endowment ? Number(v.endowment.usdPerEth.toFixed(2)) : undefined },
+        ].filter((a) => a.value !== undefined),
+      };
 
-    await sleep(800);
-    setStep("vault");
-    setShowTokenModal(true);
+      const minted = await vaultRequest("PATCH", `/${vault.id}`, {
+        token: {
+          contract,
+          tokenId,
+          owner,
+          name: tokenMeta.name,
+          imageDataUrl,
+          tokenUriJson: JSON.stringify(tokenMeta, null, 2),
+        },
+      });
+      setVault(minted);
+      listVaults().then(setMyVaults).catch(() => {});
+
+      await sleep(800);
+      setStep("vault");
+      setShowTokenModal(true);
+    } catch (e) {
+      console.error(e);
+      alert(`Mint failed. ${e instanceof Error ? e.message : "Check console."}`);
+      setStep("manifest");
+    }
   };
 
   // ---------------------- Render ----------------------
@@ -491,6 +1151,12 @@ const [archiveHash, setArchiveHash] = useState<string>("");
           <div className="flex items-center gap-3 text-sm text-zinc-300">
             <button onClick={() => setMode("landing")} className={`px-3 py-1 rounded-lg border ${mode === "landing" ? "border-cyan-400 text-cyan-300" : "border-white/10"}`}>Home</button>
             <button onClick={() => { setMode("demo"); setStarted(true); }} className={`px-3 py-1 rounded-lg border ${mode === "demo" ? "border-cyan-400 text-cyan-300" : "border-white/10"}`}>Build a Vault</button>
+            {user && (
+              <>
+                <span className="hidden md:inline text-zinc-400">{user.displayName || user.email}</span>
+                <button onClick={logout} className="px-3 py-1 rounded-lg border border-white/10 hover:border-cyan-400">Sign out</button>
+              </>
+            )}
           </div>
         </div>
       </header>
@@ -502,21 +1168,63 @@ const [archiveHash, setArchiveHash] = useState<string>("");
           // DEMO FLOW
           <section className="grid gap-6">
             {/* Stepper or Welcome */}
-            {!started ? (
+            {!started || !user ? (
               <section className="grid gap-6 md:grid-cols-2 items-center">
-                <div className="p-6 rounded-2xl border border-white/10 bg-white/5 shadow-xl">
-                  <h1 className="text-3xl font-bold mb-3">Welcome back.</h1>
-                  <p className="text-zinc-300 mb-4">
-                    We’ll skip account creation and assume you’re logged in. This demo walks through selecting a
-                    product, uploading a folder of files, pricing, writing a Vault Manifest, and a mock token mint.
-                  </p>
-                  <button
-                    onClick={() => setStarted(true)}
-                    className="px-4 py-2 rounded-2xl bg-cyan-500 hover:bg-cyan-400 text-black font-semibold transition"
-                  >
-                    Start Vault Build
-                  </button>
-                </div>
+                {user === undefined ? (
+                  <div className="p-6 rounded-2xl border border-white/10 bg-white/5 text-zinc-400">Checking your session…</div>
+                ) : user === null ? (
+                  <AuthForm onSignedIn={setUser} />
+                ) : (
+                  <div className="p-6 rounded-2xl border border-white/10 bg-white/5 shadow-xl">
+                    <h1 className="text-3xl font-bold mb-3">Welcome back{user.displayName ? `, ${user.displayName}` : ""}.</h1>
+                    <p className="text-zinc-300 mb-4">
+                      This demo walks through selecting a product, uploading a folder of files, pricing, writing a
+                      Vault Manifest, and a mock token mint. Your uploads are stored under your account.
+                    </p>
+                    <button
+                      onClick={() => setStarted(true)}
+                      className="px-4 py-2 rounded-2xl bg-cyan-500 hover:bg-cyan-400 text-black font-semibold transition"
+                    >
+                      Start Vault Build
+                    </button>
+
+                    {!!myVaults.length && (
+                      <div className="mt-6">
+                        <h2 className="text-sm font-semibold mb-2">Your Vaults</h2>
+                        <ul className="divide-y divide-white/10 rounded-2xl border border-white/10 text-sm">
+                          {myVaults.map((v) => (
+                            <li key={v.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                              <div className="min-w-0">
+                                <div className="truncate">{v.name}</div>
+                                <div className="text-xs text-zinc-400">
+                                  {v.product} · {v.archive.files} files · {formatBytes(v.archive.bytes)} ·{" "}
+                                  {v.lifecycle ? LIFECYCLE_LABELS[v.lifecycle.state] : "Draft"}
+                                </div>
+                              </div>
+                              <button onClick={() => openVault(v.id)} className="text-xs text-cyan-300 hover:text-cyan-200">
+                                Open
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    <InheritancePanel identity={identity} />
+                    <NotificationsPanel />
+                    <div className="mt-6">
+                      <h2 className="text-sm font-semibold mb-2">Encryption key</h2>
+                      <div className="rounded-2xl border border-white/10 px-3 py-2 text-sm">
+                        <KeyPanel
+                          identity={identity}
+                          lockedKey={lockedKey}
+                          onUnlock={async () => void (await unlockIdentity())}
+                          onChange={changeIdentity}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                )}
                 <div className="p-6 rounded-2xl border border-white/10 bg-white/5">
                   <ul className="space-y-2 text-sm text-zinc-300">
                     <li>• Drag an entire <span className="font-semibold">folder</span> into the uploader.</li>
@@ -552,7 +1260,7 @@ const [archiveHash, setArchiveHash] = useState<string>("");
                     <ProductCard
                       title="Permanence"
                       description="Always-on storage with required annual EAS (attestation)."
-                      footNote={`Requires annual EAS $${PRICING.permanence.annualEAS.toFixed(2)}/yr.`}
+                      footNote={priceBook ? `Requires annual EAS $${priceBook.products.Permanence.annualEAS.toFixed(2)}/yr.` : undefined}
                       active={product === "Permanence"}
                       onPick={() => {
                         setProduct("Permanence");
@@ -609,6 +1317,66 @@ const [archiveHash, setArchiveHash] = useState<string>("");
                         Drag a <span className="font-semibold">folder</span> here or click to pick. We’ll preserve your directory structure where provided.
                       </p>
 
+                      <div className="mb-4 rounded-2xl border border-white/10 bg-white/5 p-3 text-sm">
+                        <label className="flex items-center justify-between gap-2">
+                          Encryption
+                          <select
+                            value={encryptMode}
+                            disabled={uploading}
+                            onChange={(e) => setEncryptMode(e.target.value as EncryptMode)}
+                            className="rounded-xl bg-black/30 border border-white/10 px-2 py-1"
+                          >
+                            <option value="none">None</option>
+                            <option value="passphrase">Passphrase</option>
+                            <option value="publicKey">My key (heirs can be added later)</option>
+                          </select>
+                        </label>
+                        {encryptMode === "passphrase" && (
+                          <div className="mt-3 grid gap-2">
+                            <input
+                              type="password"
+                              value={passphrase}
+                              onChange={(e) => setPassphrase(e.target.value)}
+                              placeholder="Passphrase"
+                              autoComplete="new-password"
+                              className="rounded-xl bg-black/30 border border-white/10 px-3 py-2"
+                            />
+                            <input
+                              type="password"
+                              value={passphraseConfirm}
+                              onChange={(e) => setPassphraseConfirm(e.target.value)}
+                              placeholder="Repeat passphrase"
+                              autoComplete="new-password"
+                              className="rounded-xl bg-black/30 border border-white/10 px-3 py-2"
+                            />
+                            <input
+                              value={passphraseHint}
+                              onChange={(e) => setPassphraseHint(e.target.value)}
+                              placeholder="Hint (optional, stored unencrypted)"
+                              maxLength={200}
+                              className="rounded-xl bg-black/30 border border-white/10 px-3 py-2"
+                            />
+                          </div>
+                        )}
+                        {encryptMode === "publicKey" && (
+                          <KeyPanel
+                            identity={identity}
+                            lockedKey={lockedKey}
+                            onUnlock={async () => void (await unlockIdentity())}
+                            onChange={changeIdentity}
+                          />
+                        )}
+                        {keyProblem && <div className="mt-2 text-xs text-amber-300">Before uploading, {keyProblem}.</div>}
+                        {encryptMode !== "none" && (
+                          <div className="mt-2 text-xs text-zinc-400">
+                            Files are encrypted before they leave your device; we never see the key or the contents.
+                            {encryptMode === "passphrase"
+                              ? " If the passphrase is lost, so are the files."
+                              : " Each file is encrypted once with a vault key, and that key is locked to each recipient's public key."}
+                          </div>
+                        )}
+                      </div>
+
                       <div
                         onDragOver={onDragOver}
                         onDragLeave={onDragLeave}
@@ -634,6 +1402,19 @@ const [archiveHash, setArchiveHash] = useState<string>("");
                         />
                       </div>
 
+                      {resumable && !uploading && (
+                        <div className="mt-4 rounded-2xl border border-cyan-400/30 bg-cyan-400/5 p-3 text-xs text-zinc-300">
+                          Unfinished upload: {resumable.progress.uploadedFiles} of {resumable.progress.files} files
+                          ({resumable.progress.percent}%) are already stored. Drop the same folder again to upload the
+                          remaining {resumable.missing.length}.
+                        </div>
+                      )}
+                      {uploading && (
+                        <div className="mt-4 text-xs text-zinc-400">
+                          {uploadPhase === "hashing" ? "Hashing" : "Uploading"}… {uploadPct}%
+                        </div>
+                      )}
+
                       {!!files.length && (
                         <div className="mt-4 text-sm text-zinc-300">
                           <div className="flex items-center justify-between">
@@ -682,7 +1463,7 @@ const [archiveHash, setArchiveHash] = useState<string>("");
 
                       <div className="mt-6 flex items-center gap-2">
                         <button
-                          disabled={!files.length || !vaultName.trim()}
+                          disabled={!uploadedItems || uploading || !vaultName.trim()}
                           onClick={() => setStep("pricing")}
                           className="px-4 py-2 rounded-2xl bg-cyan-500 hover:bg-cyan-400 text-black font-semibold disabled:opacity-50"
                         >
@@ -711,10 +1492,23 @@ const [archiveHash, setArchiveHash] = useState<string>("");
                 )}
 
                 {/* Pricing & Acceptance */}
-                {step === "pricing" && product && price && (
+                {step === "pricing" && product && !price && (
+                  <div className="p-6 rounded-2xl border border-white/10 bg-white/5 text-sm">
+                    {quoteError ? (
+                      <div className="flex items-center gap-3">
+                        <span className="text-red-400">{quoteError}</span>
+                        <button onClick={() => void refreshQuote()} className="text-cyan-300 hover:text-cyan-200">Try again</button>
+                        <button onClick={() => setStep("upload")} className="px-3 py-2 rounded-2xl border border-white/10">Back</button>
+                      </div>
+                    ) : (
+                      <span className="text-zinc-400">Getting a quote…</span>
+                    )}
+                  </div>
+                )}
+                {step === "pricing" && product && quote && price && (
                   <div className="grid md:grid-cols-2 gap-6 items-start">
                     <div className="p-6 rounded-2xl border border-white/10 bg-white/5">
-                      <h2 className="text-xl font-semibold mb-4">Pricing Summary (Demo)</h2>
+                      <h2 className="text-xl font-semibold mb-4">Pricing Summary</h2>
                       <table className="w-full text-sm">
                         <tbody>
                           <tr>
@@ -727,31 +1521,37 @@ const [archiveHash, setArchiveHash] = useState<string>("");
                           </tr>
                           <tr>
                             <td className="py-2 text-zinc-400">Tokenization (per GB)</td>
-                            <td className="py-2 text-right">${PRICING.tokenizationPerGB.toFixed(2)} × {price.gb} = ${price.tokenization.toFixed(2)}</td>
+                            <td className="py-2 text-right">${(price.tokenization / price.gb).toFixed(2)} × {price.gb} = ${price.tokenization.toFixed(2)}</td>
                           </tr>
                           <tr>
-                            <td className="py-2 text-zinc-400">Storage</td>
+                            <td className="py-2 text-zinc-400">Storage{redundancy === "dual" && priceBook ? ` (dual-rail × ${priceBook.dualRailFactor})` : ""}</td>
                             <td className="py-2 text-right">${price.storage.toFixed(2)}</td>
                           </tr>
                           <tr className="border-t border-white/10">
-                            <td className="py-2 font-semibold">Subtotal (demo)</td>
+                            <td className="py-2 font-semibold">Subtotal</td>
                             <td className="py-2 text-right font-semibold">${price.subtotal.toFixed(2)}</td>
                           </tr>
                         </tbody>
                       </table>
+                      <p className="mt-1 text-xs text-zinc-500">
+                        Quote {quote.id.slice(0, 8)} · price book {quote.priceBook} · valid until{" "}
+                        {new Date(quote.expiresAt).toLocaleTimeString()}
+                      </p>
 
-                      {/* Endowment card (not included in subtotal) */}
+                      {/* Endowment card (charged on its own line, alongside the subtotal) */}
                       {(() => {
-                        const n = parseFloat(endowmentUsd as any);
-                        if (!isNaN(n) && n >= 0 && demoEthPrice > 0) {
-                          const eth = n / demoEthPrice;
+                        const n = parseFloat(endowmentUsd);
+                        if (!isNaN(n) && n >= 0 && ethRate) {
+                          const eth = n / ethRate.usdPerEth;
                           return (
                             <div className="mt-3 rounded-2xl border border-white/10 bg-black/20 p-3 text-sm">
                               <div className="flex items-center justify-between">
-                                <div className="text-zinc-300">Endowment (not included in subtotal)</div>
-                                <div className="font-medium">${n.toFixed(2)} · {eth.toFixed(6)} ETH</div>
+                                <div className="text-zinc-300">Endowment (charged with the subtotal)</div>
+                                <div className="font-medium">${n.toFixed(2)} · ≈{eth.toFixed(6)} ETH</div>
+                              </div>
+                              <div className="text-xs text-zinc-400 mt-1">
+                                Indicative rate: ${ethRate.usdPerEth.toFixed(2)} / ETH ({ethRate.source}, {new Date(ethRate.asOf).toLocaleTimeString()}) · Locked on Continue
                               </div>
-                              <div className="text-xs text-zinc-400 mt-1">Rate: ${demoEthPrice.toFixed(2)} / ETH · Finalized on Continue</div>
                             </div>
                           );
                         }
@@ -760,9 +1560,22 @@ const [archiveHash, setArchiveHash] = useState<string>("");
 
                       <p className="mt-2 text-xs text-zinc-400">{price.notes}</p>
 
+                      <div className="mt-4 flex items-center gap-2">
+                        <input
+                          id="dual-rail"
+                          type="checkbox"
+                          checked={redundancy === "dual"}
+                          onChange={(e) => setRedundancy(e.target.checked ? "dual" : "single")}
+                          className="h-4 w-4"
+                        />
+                        <label htmlFor="dual-rail" className="text-sm">
+                          Dual-rail storage: mirror every file to a second, independent provider{priceBook ? ` (storage × ${priceBook.dualRailFactor})` : ""}
+                        </label>
+                      </div>
+
                       <div className="mt-4 flex items-center gap-2">
                         <input id="accept" type="checkbox" checked={acceptedPrice} onChange={(e) => setAcceptedPrice(e.target.checked)} className="h-4 w-4" />
-                        <label htmlFor="accept" className="text-sm">I accept the demo pricing. Charge my account on submit.</label>
+                        <label htmlFor="accept" className="text-sm">I accept this quote. Charge my account on continue.</label>
                       </div>
 
                       <div className="mt-6">
@@ -777,23 +1590,21 @@ const [archiveHash, setArchiveHash] = useState<string>("");
                           placeholder="e.g., 250.00"
                           className="mt-2 w-full px-3 py-2 rounded-2xl bg-black/40 border border-white/10 focus:outline-none focus:border-cyan-400"
                         />
-                        <div className="mt-2 flex items-center gap-3 text-xs text-zinc-400">
-                          <span>Demo ETH price (USD/ETH) captured at endowment:</span>
-                          <input
-                            type="number"
-                            min="0.01"
-                            step="0.01"
-                            value={demoEthPrice}
-                            onChange={(e) => setDemoEthPrice(parseFloat(e.target.value) || 0)}
-                            className="px-2 py-1 rounded-lg bg-black/30 border border-white/10 w-28 focus:outline-none focus:border-cyan-400"
-                          />
-                        </div>
+                        {!ethRate && (
+                          <div className="mt-2 text-xs text-amber-300">No current ETH rate; an endowment can't be locked right now.</div>
+                        )}
                         <p className="mt-2 text-xs text-zinc-400">
-                          Endowing your Vault asset is optional. It is FAWV’s mechanism for asserting that the Vault’s provenance rests both in its intrinsic digital value and in the cryptographic currency value you attach to the Vault. The USD amount you enter is captured now and converted to <span className="font-semibold">ETH</span> (ether — the native cryptocurrency of the Ethereum network) using the demo rate above.
+                          Endowing your Vault asset is optional. It is FAWV’s mechanism for asserting that the Vault’s provenance rests both in its intrinsic digital value and in the cryptographic currency value you attach to the Vault. The USD amount you enter is captured now and converted to <span className="font-semibold">ETH</span> (ether — the native cryptocurrency of the Ethereum network) at the rate FAWV locks when you continue; the rate, its source and time are recorded with your Vault.
                         </p>
                         {endowmentError && <div className="mt-2 text-xs text-red-400">{endowmentError}</div>}
                       </div>
 
+                      <EndowmentSimulator
+                        bytes={quote.bytes}
+                        redundancy={redundancy}
+                        endowmentUsd={parseFloat(endowmentUsd)}
+                      />
+
                       <div className="mt-6 flex gap-2">
                         <button
                           disabled={!acceptedPrice || !vaultName.trim()}
@@ -820,6 +1631,11 @@ const [archiveHash, setArchiveHash] = useState<string>("");
                   <div className="grid md:grid-cols-2 gap-6 items-start">
                     <div className="p-6 rounded-2xl border border-white/10 bg-white/5">
                       <h2 className="text-xl font-semibold mb-2">Write your Vault Manifest</h2>
+                      {payment && (
+                        <p className="text-xs text-emerald-300 mb-2">
+                          Paid {cents(payment.amountCents)} · receipt {payment.receipts.find((r) => r.kind === "payment")?.number ?? "pending"}
+                        </p>
+                      )}
                       <p className="text-sm text-zinc-400 mb-3">Use this space to describe contents and significance. Markdown supported in demo preview.</p>
                       <textarea
                         value={manifest}
@@ -878,7 +1694,7 @@ const [archiveHash, setArchiveHash] = useState<string>("");
                 )}
 
                 {/* Vault Screen */}
-                {step === "vault" && (
+                {step === "vault" && vault && (
                   <div className="grid md:grid-cols-2 gap-6 items-start">
                     <div className="p-6 rounded-2xl border border-white/10 bg-white/5 min-w-0">
 
@@ -887,68 +1703,131 @@ const [archiveHash, setArchiveHash] = useState<string>("");
                         <tbody>
   <tr>
     <td className="py-2 text-zinc-400">Vault Name</td>
-    <td className="py-2 text-right">{vaultName}</td>
+    <td className="py-2 text-right">{vault.name}</td>
   </tr>
   <tr>
     <td className="py-2 text-zinc-400">Product</td>
     <td className="py-2 text-right">
-      {product}
-      {product === "Permanence+" ? ` (${escrowYears}yr)` : ""}
+      {vault.product}
+      {vault.escrowYears ? ` (${vault.escrowYears}yr)` : ""}
     </td>
   </tr>
   <tr>
     <td className="py-2 text-zinc-400">Files</td>
-    <td className="py-2 text-right">{files.length}</td>
+    <td className="py-2 text-right">{vault.archive.files}</td>
   </tr>
   <tr>
     <td className="py-2 text-zinc-400">Total Size</td>
-    <td className="py-2 text-right">{formatBytes(totalBytes)}</td>
+    <td className="py-2 text-right">{formatBytes(vault.archive.bytes)}</td>
   </tr>
 
   {/* NEW: Archive Hash row */}
   <tr>
-    <td className="py-2 text-zinc-400">Archive Hash</td>
-    <td className="py-2 text-right font-mono text-xs break-all">{archiveHash || "—"}</td>
+    <td className="py-2 text-zinc-400">Archive Merkle Root</td>
+    <td className="py-2 text-right font-mono text-xs break-all">{vault.archive.merkleRoot || "—"}</td>
   </tr>
 
   <tr>
     <td className="py-2 text-zinc-400">Visibility</td>
-    <td className="py-2 text-right">{visibility}</td>
+    <td className="py-2 text-right">{vault.visibility ?? "—"}</td>
+  </tr>
+  <tr>
+    <td className="py-2 text-zinc-400">Encryption</td>
+    <td className="py-2 text-right">
+      {!vault.encryption
+        ? "None"
+        : vault.encryption.mode === "passphrase"
+          ? `Passphrase (${vault.encryption.kdf.algorithm}, AES-256-GCM)`
+          : `Public key (X25519, AES-256-GCM) · ${vault.encryption.recipients.length} recipient(s)`}
+    </td>
+  </tr>
+  <tr>
+    <td className="py-2 text-zinc-400">Storage Rails</td>
+    <td className="py-2 text-right">{vault.replication ? replicationLabel(vault.replication) : "Single"}</td>
   </tr>
   <tr>
     <td className="py-2 text-zinc-400">Endowment</td>
     <td className="py-2 text-right">
-      {lockedEndowment
-        ? `$${lockedEndowment.usd.toFixed(2)} · ${lockedEndowment.eth.toFixed(6)} ETH`
+      {vault.endowment
+        ? `$${vault.endowment.usd.toFixed(2)} · ${vault.endowment.eth.toFixed(6)} ETH`
         : "None"}
     </td>
   </tr>
   <tr>
     <td className="py-2 text-zinc-400">Endowment Rate</td>
     <td className="py-2 text-right">
-      {lockedEndowment ? `$${lockedEndowment.usdPerEth.toFixed(2)} / ETH` : "—"}
+      {vault.endowment
+        ? `$${vault.endowment.usdPerEth.toFixed(2)} / ETH` +
+          (vault.endowment.lock
+            ? ` · ${vault.endowment.lock.source}, locked ${new Date(vault.endowment.lock.lockedAt).toLocaleString()}`
+            : "")
+        : "—"}
     </td>
   </tr>
   <tr>
     <td className="py-2 text-zinc-400">Status</td>
-    <td className="py-2 text-right">Minted (demo)</td>
+    <td className="py-2 text-right">{vault.status === "minted" ? "Minted (demo)" : "Draft"}</td>
+  </tr>
+  {vault.lifecycle && (
+    <tr>
+      <td className="py-2 text-zinc-400">Lifecycle</td>
+      <td className="py-2 text-right">
+        {LIFECYCLE_LABELS[vault.lifecycle.state]} since {formatDate(vault.lifecycle.since)}
+        {vault.lifecycle.nextHeartbeat && (
+          <div className="text-xs text-zinc-400">
+            Next heartbeat by {formatDate(vault.lifecycle.nextHeartbeat)}
+          </div>
+        )}
+        {vault.lifecycle.next && (
+          <div className="text-xs text-zinc-400">
+            {LIFECYCLE_LABELS[vault.lifecycle.next.state]} from {formatDate(vault.lifecycle.next.at)}
+          </div>
+        )}
+        {vault.lifecycle.endowmentExhaustedAt && (
+          <div className="text-xs text-amber-300">
+            Endowment exhausted since {formatDate(vault.lifecycle.endowmentExhaustedAt)}
+          </div>
+        )}
+      </td>
+    </tr>
+  )}
+  <tr>
+    <td className="py-2 text-zinc-400">Vault ID</td>
+    <td className="py-2 text-right font-mono text-xs break-all">{vault.id}</td>
   </tr>
 </tbody>
 
                       </table>
 
                       <div className="mt-6 flex gap-2">
-                        <button onClick={() => setShowTokenModal(true)} className="px-4 py-2 rounded-2xl bg-cyan-500 hover:bg-cyan-400 text-black font-semibold">View FAWV Vault Token</button>
+                        {tokenData && (
+                          <button onClick={() => setShowTokenModal(true)} className="px-4 py-2 rounded-2xl bg-cyan-500 hover:bg-cyan-400 text-black font-semibold">View FAWV Vault Token</button>
+                        )}
+                        {vault.lifecycle?.nextHeartbeat && (
+                          <button onClick={checkIn} className="px-3 py-2 rounded-2xl border border-white/10 hover:border-cyan-400">
+                            Check in
+                          </button>
+                        )}
+                        <a
+                          href={`${API_BASE}/api/export/${encodeURIComponent(vault.sessionId)}`}
+                          className="px-3 py-2 rounded-2xl border border-white/10 hover:border-cyan-400"
+                        >
+                          Export vault
+                        </a>
                         <button onClick={resetFlow} className="px-3 py-2 rounded-2xl border border-white/10">Build Another Vault</button>
                       </div>
+
+                      <HeirsPanel vault={vault} onChange={setVault} unlock={keyFor} />
+                      <FixityPanel vault={vault} />
+                      {vault.status === "minted" && <EndowmentPanel vault={vault} onChange={setVault} />}
                     </div>
 
                     {/* Right Column: Manifest + Archive Contents */}
                     <div className="space-y-6">
                       <div className="p-6 rounded-2xl border border-white/10 bg-white/5 min-w-0">
                         <h3 className="font-semibold mb-2">Vault Manifest</h3>
-                        <div className="text-xs text-zinc-400 mb-2">Visibility: {visibility}</div>
-                        <div className="rounded-2xl border border-white/10 bg-black/30 p-4 whitespace-pre-wrap break-words text-sm min-h-[8rem] max-w-full">{manifest || "(No manifest provided)"}</div>
+                        <div className="text-xs text-zinc-400 mb-2">Visibility: {vault.visibility ?? "—"}</div>
+                        <div className="rounded-2xl border border-white/10 bg-black/30 p-4 whitespace-pre-wrap break-words text-sm min-h-[8rem] max-w-full">{vault.manifestText || "(No manifest provided)"}</div>
 
                       </div>
 
@@ -961,18 +1840,70 @@ const [archiveHash, setArchiveHash] = useState<string>("");
                               <tr>
                                 <th className="text-left px-3 py-2">Path</th>
                                 <th className="text-right px-3 py-2">Size</th>
+                                <th className="px-3 py-2" />
                               </tr>
                             </thead>
                             <tbody>
-                              {files.slice(0, 200).map((f, idx) => (
-                                <tr key={idx} className="odd:bg-white/0 even:bg-white/5">
-                                  <td className="px-3 py-1 truncate max-w-[28rem]" title={f.fullPath}>{f.fullPath}</td>
-                                  <td className="px-3 py-1 text-right">{formatBytes(f.file.size)}</td>
+                              {vault.files.slice(0, 200).map((f) => (
+                                <tr key={f.path} className="odd:bg-white/0 even:bg-white/5">
+                                  <td className="px-3 py-1 truncate max-w-[28rem]" title={f.path}>{f.path}</td>
+                                  <td className="px-3 py-1 text-right">
+                                    {formatBytes(f.sizeBytes)}
+                                    {f.replica && (
+                                      <span className={`ml-2 ${REPLICA_BADGE[f.replica][1]}`} title="Copy on the mirror">
+                                        {REPLICA_BADGE[f.replica][0]}
+                                      </span>
+                                    )}
+                                  </td>
+                                  <td className="px-3 py-1 text-right">
+                                    <button
+                                      onClick={async () => {
+                                        try {
+                                          const key = vault.encryption ? await keyFor(vault.encryption) : undefined;
+                                          if (key !== null) await downloadFile(vault.sessionId, f.path, key);
+                                        } catch (e) {
+                                          console.error(e);
+                                          alert(
+                                            e instanceof WrongPassphraseError
+                                              ? "Wrong passphrase."
+                                              : e instanceof NotARecipientError
+                                                ? "This browser's key can't open this vault. Import your key file first."
+                                                : "Download failed. Check console."
+                                          );
+                                        }
+                                      }}
+                                      className="text-cyan-300 hover:text-cyan-200"
+                                    >
+                                      Download
+                                    </button>
+                                    {vault.archive.merkleRoot && (
+                                      <button
+                                        onClick={() =>
+                                          checkProof(vault.sessionId, f.path, vault.archive.merkleRoot!)
+                                            .then(({ ok, proof }) => {
+                                              copy(JSON.stringify(proof, null, 2));
+                                              alert(
+                                                ok
+                                                  ? "Proof verified against the archive root and copied to clipboard."
+                                                  : "Proof does NOT match this vault's archive root."
+                                              );
+                                            })
+                                            .catch((e) => {
+                                              console.error(e);
+                                              alert("Proof request failed. Check console.");
+                                            })
+                                        }
+                                        className="ml-3 text-cyan-300 hover:text-cyan-200"
+                                      >
+                                        Proof
+                                      </button>
+                                    )}
+                                  </td>
                                 </tr>
                               ))}
                             </tbody>
                           </table>
-                          {files.length > 200 && <div className="p-2 text-xs text-zinc-500">(showing first 200)</div>}
+                          {vault.files.length > 200 && <div className="p-2 text-xs text-zinc-500">(showing first 200)</div>}
                         </div>
                       </div>
                     </div>
@@ -1073,6 +2004,1260 @@ function Landing({ onCTAClick }: { onCTAClick: () => void }) {
   );
 }
 
+function AuthForm({ onSignedIn }: { onSignedIn: (user: AuthUser) => void }) {
+  const [action, setAction] = useState<"login" | "register">("login");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [displayName, setDisplayName] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await signIn(action, {
+        email,
+        password,
+        displayName: action === "register" && displayName.trim() ? displayName.trim() : undefined,
+      });
+      if ("id" in result) return onSignedIn(result);
+      if (result.fields?.length) setError(result.fields.map((f) => `${f.path}: ${f.message}`).join("; "));
+      else if (result.error === "invalid_credentials") setError("Email or password is incorrect.");
+      else if (result.error === "email_taken") setError("An account with that email already exists. Sign in instead.");
+      else setError(`Something went wrong (${result.error}).`);
+    } catch (err) {
+      console.error(err);
+      setError("Could not reach the server.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form onSubmit={submit} className="p-6 rounded-2xl border border-white/10 bg-white/5 shadow-xl grid gap-3">
+      <h1 className="text-3xl font-bold">{action === "login" ? "Welcome back." : "Create your account."}</h1>
+      <p className="text-zinc-300 text-sm">
+        {action === "login" ? "Sign in to build and manage your Vaults." : "Vaults and uploads are tied to your account."}
+      </p>
+      {action === "register" && (
+        <input
+          type="text"
+          value={displayName}
+          onChange={(e) => setDisplayName(e.target.value)}
+          placeholder="Name (optional)"
+          autoComplete="name"
+          className="w-full px-3 py-2 rounded-lg bg-black/40 border border-white/10 focus:outline-none focus:border-cyan-400"
+        />
+      )}
+      <input
+        type="email"
+        required
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="Email"
+        autoComplete="email"
+        className="w-full px-3 py-2 rounded-lg bg-black/40 border border-white/10 focus:outline-none focus:border-cyan-400"
+      />
+      <input
+        type="password"
+        required
+        minLength={action === "register" ? 10 : undefined}
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder={action === "register" ? "Password (10+ characters)" : "Password"}
+        autoComplete={action === "register" ? "new-password" : "current-password"}
+        className="w-full px-3 py-2 rounded-lg bg-black/40 border border-white/10 focus:outline-none focus:border-cyan-400"
+      />
+      {error && <div className="text-sm text-red-400">{error}</div>}
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={busy}
+          className="px-4 py-2 rounded-2xl bg-cyan-500 hover:bg-cyan-400 text-black font-semibold transition disabled:opacity-50"
+        >
+          {busy ? "Please wait…" : action === "login" ? "Sign in" : "Create account"}
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setAction(action === "login" ? "register" : "login");
+            setError(null);
+          }}
+          className="text-xs text-zinc-400 hover:text-zinc-200"
+        >
+          {action === "login" ? "New here? Create an account" : "Already have an account? Sign in"}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// Owner side of inheritance: who the heirs are, how claims are handled, and any claim in progress
+function HeirsPanel({
+  vault,
+  onChange,
+  unlock,
+}: {
+  vault: VaultRecord;
+  onChange: (v: VaultRecord) => void;
+  unlock: (params: EncryptionParams) => Promise<VaultKey | null>;
+}) {
+  const [heirs, setHeirs] = useState<Heir[]>([]);
+  const [claims, setClaims] = useState<ClaimDetail[]>([]);
+  const [emergencies, setEmergencies] = useState<EmergencyRequest[]>([]);
+  const [email, setEmail] = useState("");
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const base = `/vaults/${encodeURIComponent(vault.id)}`;
+
+  const load = () => {
+    apiRequest(null, "GET", `${base}/heirs`)
+      .then((r) => setHeirs((r as { heirs: unknown[] }).heirs.map((h) => Heir.parse(h))))
+      .catch((e) => console.error(e));
+    apiRequest(null, "GET", `${base}/claims`)
+      .then((r) => setClaims((r as { claims: unknown[] }).claims.map((c) => ClaimDetail.parse(c))))
+      .catch((e) => console.error(e));
+    apiRequest(null, "GET", `${base}/emergency`)
+      .then((r) => setEmergencies((r as { requests: unknown[] }).requests.map((x) => EmergencyRequest.parse(x))))
+      .catch((e) => console.error(e));
+  };
+  useEffect(load, [vault.id]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      load();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const invite = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await apiRequest(Heir, "POST", `${base}/heirs`, { email, name });
+      setEmail("");
+      setName("");
+    });
+  };
+
+  const updateSettings = (patch: UpdateVaultBody) =>
+    run(async () => onChange(await vaultRequest("PATCH", `/${encodeURIComponent(vault.id)}`, patch)));
+
+  // Public-key vaults: who holds a wrapped copy of the data key. Changing it re-wraps the key only.
+  const recipients = vault.encryption?.mode === "publicKey" ? vault.encryption.recipients : null;
+  const setRecipients = async (next: { label: string; publicKey: string }[]) => {
+    const key = await unlock(vault.encryption!);
+    if (!key) return;
+    const body = { keyCheck: key.params.keyCheck, recipients: await wrapRecipients(key, next) };
+    onChange(await apiRequest(VaultRecord, "PUT", `${base}/recipients`, body));
+  };
+  const holdsKey = (publicKey: string | null) => !!publicKey && !!recipients?.some((r) => r.publicKey === publicKey);
+  // Heirloom vaults never give one heir the whole key (the server refuses); they split it instead
+  const heirloom = vault.product === "Heirloom";
+  const sharing = vault.encryption?.mode === "publicKey" ? vault.encryption.sharing : undefined;
+  const [threshold, setThreshold] = useState(2);
+
+  const createShares = () =>
+    run(async () => {
+      const key = await unlock(vault.encryption!);
+      if (!key) return;
+      const holders = heirs.map((h) => ({ label: h.name, heirId: h.id }));
+      const split = await splitVaultKey(key, vault.id, Math.min(threshold, holders.length), holders);
+      onChange(await apiRequest(VaultRecord, "PUT", `${base}/sharing`, { keyCheck: key.params.keyCheck, sharing: split.sharing }));
+      await printShareCards(vault.name, split.sharing.threshold, split.cards);
+    });
+
+  return (
+    <div className="mt-6 pt-6 border-t border-white/10 text-sm">
+      <h3 className="font-semibold mb-2">Heirs</h3>
+      {heirs.length ? (
+        <ul className="divide-y divide-white/10 rounded-2xl border border-white/10 mb-3">
+          {heirs.map((h) => (
+            <li key={h.id} className="flex items-center justify-between gap-3 px-3 py-2">
+              <div className="min-w-0">
+                <div className="truncate">{h.name}</div>
+                <div className="text-xs text-zinc-400">
+                  {h.email} · {h.status === "verified" ? "Verified" : "Invitation sent"}
+                </div>
+                <label className="mt-1 flex items-center gap-2 text-xs text-zinc-300">
+                  <input
+                    type="checkbox"
+                    checked={h.emergencyAccess}
+                    onChange={(e) =>
+                      run(() =>
+                        apiRequest(Heir, "PATCH", `${base}/heirs/${encodeURIComponent(h.id)}`, {
+                          emergencyAccess: e.target.checked,
+                        })
+                      )
+                    }
+                  />
+                  May request emergency access
+                </label>
+                {recipients && !heirloom && (
+                  <div className="mt-1 text-xs text-zinc-400">
+                    {!h.publicKey ? (
+                      "Hasn't published an encryption key yet"
+                    ) : holdsKey(h.publicKey) ? (
+                      <>
+                        Can decrypt ·{" "}
+                        <button
+                          onClick={() => run(() => setRecipients(recipients.filter((r) => r.publicKey !== h.publicKey)))}
+                          className="text-zinc-400 hover:text-red-300"
+                        >
+                          Take back key
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => run(() => setRecipients([...recipients, { label: h.email, publicKey: h.publicKey! }]))}
+                        className="text-cyan-300 hover:text-cyan-200"
+                      >
+                        Give decryption key
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+              <button
+                onClick={() =>
+                  run(async () => {
+                    await apiRequest(null, "DELETE", `${base}/heirs/${encodeURIComponent(h.id)}`);
+                    if (recipients && holdsKey(h.publicKey)) {
+                      await setRecipients(recipients.filter((r) => r.publicKey !== h.publicKey));
+                    }
+                  })
+                }
+                className="text-xs text-zinc-400 hover:text-red-300"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-zinc-400 mb-3">No heirs yet. Heirs can claim this Vault if it is ever orphaned.</p>
+      )}
+
+      {recipients && heirs.length >= 2 && (
+        <div className="mb-3 rounded-2xl border border-white/10 px-3 py-2 text-xs text-zinc-300">
+          <div className="font-medium">Key shares</div>
+          <p className="mt-1 text-zinc-400">
+            {sharing
+              ? `Split ${sharing.createdAt.slice(0, 10)}: any ${sharing.threshold} of ${sharing.holders
+                  .map((h) => h.label)
+                  .join(", ")} can unlock this vault together.`
+              : heirloom
+                ? "Heirloom heirs can't open the vault alone. Split the key so enough of them together can."
+                : "Optionally split the key so that several heirs together can unlock the vault."}
+          </p>
+          <div className="mt-2 flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2">
+              Shares needed
+              <select
+                value={Math.min(threshold, heirs.length)}
+                onChange={(e) => setThreshold(Number(e.target.value))}
+                className="px-2 py-1 rounded-lg bg-black/40 border border-white/10"
+              >
+                {heirs.slice(1).map((_, i) => (
+                  <option key={i} value={i + 2}>
+                    {i + 2} of {heirs.length}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button onClick={createShares} className="text-cyan-300 hover:text-cyan-200">
+              {sharing ? "Split again and print new cards" : "Split key and print cards"}
+            </button>
+          </div>
+          {sharing && (
+            <p className="mt-1 text-zinc-500">Cards from an earlier split keep working; destroy them if you re-split.</p>
+          )}
+        </div>
+      )}
+
+      {recipients && (
+        <div className="mb-3 text-xs text-zinc-400">
+          Decryption key held by:{" "}
+          {recipients.map((r, i) => (
+            <span key={r.publicKey}>
+              {i > 0 && ", "}
+              <span className="text-zinc-300" title={r.publicKey}>
+                {r.label}
+              </span>
+              {recipients.length > 1 && (
+                <button
+                  onClick={() =>
+                    window.confirm(`Remove ${r.label}'s copy of the key? If it's yours, you lose access.`) &&
+                    run(() => setRecipients(recipients.filter((x) => x.publicKey !== r.publicKey)))
+                  }
+                  className="ml-1 text-zinc-500 hover:text-red-300"
+                  aria-label={`Remove ${r.label}`}
+                >
+                  ×
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={invite} className="flex flex-wrap gap-2 mb-4">
+        <input
+          required
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name"
+          className="flex-1 min-w-[8rem] px-3 py-2 rounded-lg bg-black/40 border border-white/10 focus:outline-none focus:border-cyan-400"
+        />
+        <input
+          type="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="Email"
+          className="flex-1 min-w-[10rem] px-3 py-2 rounded-lg bg-black/40 border border-white/10 focus:outline-none focus:border-cyan-400"
+        />
+        <button type="submit" className="px-3 py-2 rounded-2xl border border-white/10 hover:border-cyan-400">
+          Invite heir
+        </button>
+      </form>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-zinc-300">
+        <label className="flex items-center gap-2">
+          Claim waiting period
+          <select
+            value={vault.claimWaitingDays}
+            onChange={(e) => updateSettings({ claimWaitingDays: Number(e.target.value) })}
+            className="px-2 py-1 rounded-lg bg-black/40 border border-white/10"
+          >
+            {[7, 14, 30, 60, 90].map((d) => (
+              <option key={d} value={d}>
+                {d} days
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={vault.custodialStewardship}
+            onChange={(e) => updateSettings({ custodialStewardship: e.target.checked })}
+          />
+          Offer custodial stewardship
+        </label>
+        <label className="flex items-center gap-2">
+          Emergency veto window
+          <select
+            value={vault.emergencyVetoDays}
+            onChange={(e) => updateSettings({ emergencyVetoDays: Number(e.target.value) })}
+            className="px-2 py-1 rounded-lg bg-black/40 border border-white/10"
+          >
+            {[3, 7, 14, 30].map((d) => (
+              <option key={d} value={d}>
+                {d} days
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {!!emergencies.length && (
+        <div className="mt-4">
+          <h4 className="text-xs font-semibold text-zinc-300 mb-1">Emergency access requests</h4>
+          <ul className="space-y-2">
+            {emergencies.map((r) => {
+              const path = `/emergency/${encodeURIComponent(r.id)}`;
+              return (
+                <li key={r.id} className="rounded-xl border border-white/10 px-3 py-2">
+                  <div className="flex items-center justify-between gap-3">
+                    <span>
+                      {heirs.find((h) => h.id === r.heirId)?.name ?? "Heir"} · {r.status}
+                      {r.status === "pending" && ` · granted automatically ${new Date(r.vetoUntil).toLocaleString()}`}
+                    </span>
+                    <span className="flex gap-3 text-xs">
+                      {r.status === "pending" && (
+                        <>
+                          <button
+                            onClick={() => run(() => apiRequest(EmergencyRequest, "POST", `${path}/approve`))}
+                            className="text-cyan-300 hover:text-cyan-200"
+                          >
+                            Approve
+                          </button>
+                          <button
+                            onClick={() => run(() => apiRequest(EmergencyRequest, "POST", `${path}/deny`, {}))}
+                            className="text-red-300 hover:text-red-200"
+                          >
+                            Deny
+                          </button>
+                        </>
+                      )}
+                      {(r.status === "approved" || r.status === "granted") && (
+                        <button
+                          onClick={() => run(() => apiRequest(EmergencyRequest, "POST", `${path}/revoke`, {}))}
+                          className="text-red-300 hover:text-red-200"
+                        >
+                          Revoke access
+                        </button>
+                      )}
+                    </span>
+                  </div>
+                  <div className="mt-1 text-xs text-zinc-400">“{r.reason}”</div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {!!claims.length && (
+        <div className="mt-4">
+          <h4 className="text-xs font-semibold text-zinc-300 mb-1">Claims</h4>
+          <ul className="space-y-2">
+            {claims.map((c) => (
+              <li key={c.id} className="rounded-xl border border-white/10 px-3 py-2">
+                <div className="flex items-center justify-between gap-3">
+                  <span>
+                    {heirs.find((h) => h.id === c.heirId)?.name ?? "Heir"} · {c.status.replace("_", " ")}
+                    {c.status === "waiting" && c.waitingUntil && ` until ${formatDate(c.waitingUntil)}`}
+                  </span>
+                  {(c.status === "challenge_sent" || c.status === "waiting") && (
+                    <button
+                      onClick={() => run(() => apiRequest(null, "POST", `/claims/${encodeURIComponent(c.id)}/cancel`))}
+                      className="text-xs text-red-300 hover:text-red-200"
+                    >
+                      Cancel claim
+                    </button>
+                  )}
+                </div>
+                <ol className="mt-1 text-xs text-zinc-400">
+                  {c.events.map((ev, i) => (
+                    <li key={i}>
+                      {new Date(ev.at).toLocaleString()} · {ev.actor} · {ev.event}
+                      {ev.detail ? ` (${ev.detail})` : ""}
+                    </li>
+                  ))}
+                </ol>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {error && <div className="mt-2 text-xs text-red-400">{error}</div>}
+    </div>
+  );
+}
+
+// Heir side: vaults the signed-in user may inherit, and the claim steps for each.
+// Also accepts an invitation link (?heirInvite=…) when the page is opened from one.
+// What the fixity scrubber and the replication worker did to this vault's objects
+function FixityPanel({ vault }: { vault: VaultRecord }) {
+  const [history, setHistory] = useState<FixityHistory | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    apiRequest(FixityHistory, "GET", `/vaults/${encodeURIComponent(vault.id)}/fixity`)
+      .then(setHistory)
+      .catch((e) => console.error(e));
+  }, [vault.id, vault.replication?.objects.verified]);
+
+  if (!history) return null;
+  const events = showAll ? history.events : history.events.slice(0, 8);
+  const failures = history.events.filter((e) => e.eventOutcome === "fail").length;
+
+  return (
+    <div className="mt-6 pt-6 border-t border-white/10 text-sm">
+      <h3 className="font-semibold mb-2">Fixity History</h3>
+      <p className="text-xs text-zinc-400 mb-2">
+        {history.objects.checked} of {history.objects.total} object(s) re-hashed
+        {history.lastCheckedAt ? ` · last check ${new Date(history.lastCheckedAt).toLocaleString()}` : " · first audit pending"}
+        {failures > 0 && <span className="text-amber-300"> · {failures} failed event(s)</span>}
+      </p>
+      {events.length > 0 ? (
+        <ul className="divide-y divide-white/10 rounded-2xl border border-white/10 text-xs">
+          {events.map((e) => (
+            <li key={e.eventIdentifier} className="flex items-start justify-between gap-3 px-3 py-2">
+              <div className="min-w-0">
+                <div className="truncate" title={e.linkingObject.path}>
+                  {e.linkingObject.path} <span className="text-zinc-500">({e.linkingObject.copy})</span>
+                </div>
+                <div className="text-zinc-500">
+                  {e.eventType} · {new Date(e.eventDateTime).toLocaleString()}
+                  {e.eventOutcomeDetail ? ` · ${e.eventOutcomeDetail}` : ""}
+                </div>
+              </div>
+              <span className={e.eventOutcome === "pass" ? "text-emerald-300" : "text-red-400"}>{e.eventOutcome}</span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-zinc-500">No preservation events yet.</p>
+      )}
+      {history.events.length > 8 && (
+        <button onClick={() => setShowAll(!showAll)} className="mt-2 text-xs text-cyan-300 hover:text-cyan-200">
+          {showAll ? "Show fewer" : `Show all ${history.events.length}`}
+        </button>
+      )}
+    </div>
+  );
+}
+
+function cents(n: number) {
+  return `$${(n / 100).toFixed(2)}`;
+}
+
+const SCENARIO_COLORS = ["#34d399", "#22d3ee", "#f87171", "#fbbf24", "#a78bfa"];
+
+// Would the endowment pay for storage over the Heirloom century? Median fund per scenario, with
+// the 10th-90th percentile band of the first; the server runs the simulation
+function EndowmentSimulator({
+  bytes,
+  redundancy,
+  endowmentUsd,
+}: {
+  bytes: number;
+  redundancy: Redundancy;
+  endowmentUsd: number;
+}) {
+  // the ledger charges today's storage cost every year; a decline is only a what-if
+  const [decline, setDecline] = useState("0");
+  const [rate, setRate] = useState("2");
+  const [projection, setProjection] = useState<EndowmentProjection | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const valid = !Number.isNaN(endowmentUsd) && endowmentUsd > 0;
+
+  useEffect(() => {
+    if (!valid) return setProjection(null);
+    const storageCostDecline = parseFloat(decline) / 100;
+    const discountRate = parseFloat(rate) / 100;
+    if (Number.isNaN(storageCostDecline) || Number.isNaN(discountRate)) return;
+    // wait for typing to settle; every request runs a few thousand simulated centuries
+    const timer = setTimeout(() => {
+      apiRequest(EndowmentProjection, "POST", "/projections/endowment", {
+        bytes,
+        redundancy,
+        endowmentUsd,
+        storageCostDecline,
+        discountRate,
+      }).then(
+        (p) => {
+          setProjection(p);
+          setError(null);
+        },
+        (e) => setError((e as Error).message)
+      );
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [bytes, redundancy, endowmentUsd, decline, rate, valid]);
+
+  if (!valid) return null;
+  const W = 320;
+  const H = 140;
+  const PAD = 4;
+  const top = projection ? Math.max(...projection.scenarios.flatMap((s) => s.years.map((y) => y.p90)), 1) : 1;
+  const x = (year: number) => PAD + (year / projection!.horizonYears) * (W - 2 * PAD);
+  const y = (usd: number) => H - PAD - (Math.min(usd, top) / top) * (H - 2 * PAD);
+  const line = (points: [number, number][]) => points.map(([px, py], i) => `${i ? "L" : "M"}${px.toFixed(1)},${py.toFixed(1)}`).join(" ");
+
+  return (
+    <div className="mt-6 rounded-2xl border border-white/10 bg-black/20 p-3 text-sm">
+      <div className="font-medium">Will it last?</div>
+      <div className="mt-2 flex flex-wrap items-center gap-3 text-xs text-zinc-400">
+        <label className="flex items-center gap-1">
+          What if storage gets cheaper by
+          <input
+            type="number"
+            step="0.5"
+            value={decline}
+            onChange={(e) => setDecline(e.target.value)}
+            className="px-2 py-1 rounded-lg bg-black/30 border border-white/10 w-16 focus:outline-none focus:border-cyan-400"
+          />
+          %/yr
+        </label>
+        <label className="flex items-center gap-1">
+          Fund returns
+          <input
+            type="number"
+            step="0.5"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+            className="px-2 py-1 rounded-lg bg-black/30 border border-white/10 w-16 focus:outline-none focus:border-cyan-400"
+          />
+          %/yr
+        </label>
+      </div>
+      {error && <div className="mt-2 text-xs text-red-400">{error}</div>}
+      {projection && (
+        <>
+          <svg viewBox={`0 0 ${W} ${H}`} className="mt-3 w-full h-36" role="img" aria-label="Projected endowment balance by year">
+            <line x1={PAD} y1={H - PAD} x2={W - PAD} y2={H - PAD} stroke="#52525b" strokeWidth="1" />
+            <path
+              d={
+                line(projection.scenarios[0].years.map((p) => [x(p.year), y(p.p90)])) +
+                " " +
+                line([...projection.scenarios[0].years].reverse().map((p) => [x(p.year), y(p.p10)])).replace(/^M/, "L") +
+                " Z"
+              }
+              fill={SCENARIO_COLORS[0]}
+              fillOpacity="0.15"
+            />
+            {projection.scenarios.map((s, i) => (
+              <path
+                key={s.name}
+                d={line(s.years.map((p) => [x(p.year), y(p.p50)]))}
+                fill="none"
+                stroke={SCENARIO_COLORS[i % SCENARIO_COLORS.length]}
+                strokeWidth="1.5"
+              />
+            ))}
+          </svg>
+          <div className="flex justify-between text-xs text-zinc-500">
+            <span>today</span>
+            <span>{projection.horizonYears} years</span>
+          </div>
+          <ul className="mt-2 space-y-1 text-xs">
+            {projection.scenarios.map((s, i) => (
+              <li key={s.name} className="flex items-center justify-between gap-3">
+                <span className="flex items-center gap-2">
+                  <span className="inline-block h-2 w-2 rounded-full" style={{ background: SCENARIO_COLORS[i % SCENARIO_COLORS.length] }} />
+                  {s.name} volatility ({Math.round(s.volatility * 100)}%/yr)
+                </span>
+                <span className={s.probability >= 0.9 ? "text-emerald-300" : s.probability >= 0.5 ? "text-amber-300" : "text-red-400"}>
+                  {Math.round(s.probability * 100)}% chance it lasts
+                </span>
+              </li>
+            ))}
+          </ul>
+          <p className="mt-2 text-xs text-zinc-400">
+            Storage for {projection.billedGB} GB{projection.redundancy === "dual" ? " on two rails" : ""} costs about $
+            {projection.firstYearCostUsd.toFixed(2)} a year, and the endowment is charged that every year
+            {projection.storageCostDecline > 0 &&
+              `; this what-if assumes it gets ${+(projection.storageCostDecline * 100).toFixed(1)}% cheaper each year instead`}
+            . With steady returns, ${projection.requiredUsd.toFixed(2)} would
+            cover {projection.horizonYears} years; price swings of the ETH the endowment is held in make more necessary. Simulated
+            over {projection.paths} paths; a projection, not a guarantee.
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+function EndowmentPanel({ vault, onChange }: { vault: VaultRecord; onChange: (v: VaultRecord) => void }) {
+  const [ledger, setLedger] = useState<EndowmentLedger | null>(null);
+  const [showAll, setShowAll] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const base = `/vaults/${encodeURIComponent(vault.id)}/endowment`;
+
+  useEffect(() => {
+    apiRequest(EndowmentLedger, "GET", base)
+      .then(setLedger)
+      .catch((e) => console.error(e));
+  }, [vault.id]);
+
+  const topUp = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    const usd = parseFloat(amount);
+    if (Number.isNaN(usd) || usd <= 0) return setError("Enter a positive USD amount.");
+    try {
+      setLedger(await apiRequest(EndowmentLedger, "POST", `${base}/top-ups`, { usd }));
+      setAmount("");
+      // the exhausted flag on the vault's lifecycle may have cleared
+      onChange(await vaultRequest("GET", `/${encodeURIComponent(vault.id)}`));
+    } catch (e) {
+      const code = (e as Error).message;
+      setError(
+        code === "rate_unavailable"
+          ? "No current ETH rate; try again shortly."
+          : code === "payment_declined"
+            ? "Your payment was declined."
+            : code
+      );
+    }
+  };
+
+  if (!ledger) return null;
+  const entries = showAll ? ledger.entries : ledger.entries.slice(0, 8);
+  const months = ledger.monthlyCostCents > 0 ? Math.floor(ledger.balanceCents / ledger.monthlyCostCents) : null;
+
+  return (
+    <div className="mt-6 pt-6 border-t border-white/10 text-sm">
+      <h3 className="font-semibold mb-2">Endowment Ledger</h3>
+      <p className="text-xs text-zinc-400 mb-2">
+        Balance {cents(ledger.balanceCents)} · storage {cents(ledger.monthlyCostCents)}/month
+        {months !== null && ledger.balanceCents > 0 && ` · covers about ${months >= 24 ? `${Math.floor(months / 12)} years` : `${months} months`}`}
+        {ledger.accruedThrough && ` · charged through ${new Date(ledger.accruedThrough).toLocaleDateString()}`}
+      </p>
+      {ledger.exhaustedAt && (
+        <p className="text-xs text-amber-300 mb-2">
+          The endowment ran out on {new Date(ledger.exhaustedAt).toLocaleDateString()}; {cents(-ledger.accounts.unpaid_storage)} of storage is unpaid.
+          The vault has lapsed until a top-up pays it off.
+        </p>
+      )}
+      {entries.length > 0 ? (
+        <ul className="divide-y divide-white/10 rounded-2xl border border-white/10 text-xs">
+          {entries.map((e) => {
+            const fund = e.postings.filter((p) => p.account === "fund").reduce((sum, p) => sum + p.amountCents, 0);
+            return (
+              <li key={e.id} className="flex items-start justify-between gap-3 px-3 py-2">
+                <div className="min-w-0">
+                  <div className="truncate" title={e.memo}>{e.memo}</div>
+                  <div className="text-zinc-500">
+                    {e.kind.replace("_", "-")} · {new Date(e.effectiveAt).toLocaleDateString()}
+                    {e.rateLock ? ` · rate from ${e.rateLock.source}, ${new Date(e.rateLock.asOf).toLocaleString()}` : ""}
+                  </div>
+                </div>
+                <span className={fund >= 0 ? "text-emerald-300" : "text-zinc-300"}>
+                  {fund >= 0 ? "+" : "−"}
+                  {cents(Math.abs(fund))}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      ) : (
+        <p className="text-xs text-zinc-500">No endowment yet. A top-up starts paying for storage from this month.</p>
+      )}
+      {ledger.entries.length > 8 && (
+        <button onClick={() => setShowAll(!showAll)} className="mt-2 text-xs text-cyan-300 hover:text-cyan-200">
+          {showAll ? "Show fewer" : `Show all ${ledger.entries.length}`}
+        </button>
+      )}
+      <form onSubmit={topUp} className="mt-3 flex items-center gap-2">
+        <input
+          type="number"
+          min="0.01"
+          step="0.01"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder="USD"
+          className="px-2 py-1 rounded-lg bg-black/30 border border-white/10 w-28 focus:outline-none focus:border-cyan-400"
+        />
+        <button type="submit" className="px-3 py-1 rounded-2xl border border-white/10 hover:border-cyan-400 text-xs">
+          Top up
+        </button>
+      </form>
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+function InheritancePanel({ identity }: { identity: Identity | null }) {
+  const [vaults, setVaults] = useState<InheritedVault[]>([]);
+  const [codes, setCodes] = useState<Record<string, string>>({});
+  const [reasons, setReasons] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  const load = () =>
+    apiRequest(null, "GET", "/heirs/me")
+      .then((r) => setVaults((r as { vaults: unknown[] }).vaults.map((v) => InheritedVault.parse(v))))
+      .catch((e) => console.error(e));
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const token = params.get("heirInvite");
+    if (!token) return void load();
+    params.delete("heirInvite");
+    window.history.replaceState(null, "", `${window.location.pathname}${params.size ? `?${params}` : ""}`);
+    apiRequest(Heir, "POST", "/heirs/accept", { token })
+      .catch((e) =>
+        setError(
+          (e as Error).message === "email_mismatch"
+            ? "That invitation was sent to a different email address. Sign in with that address to accept it."
+            : (e as Error).message === "heirloom_recipient"
+              ? "This Heirloom vault is locked to your key, which no single heir may hold. Ask the owner to remove you as a recipient."
+              : "That invitation link is no longer valid."
+        )
+      )
+      .finally(load);
+  }, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+    load();
+  };
+
+  const claimPath = (c: { id: string }, step = "") => `/claims/${encodeURIComponent(c.id)}${step}`;
+  const complete = (claimId: string, resolution: ClaimResolution) =>
+    run(() => apiRequest(ClaimDetail, "POST", claimPath({ id: claimId }, "/complete"), { resolution }));
+
+  if (!vaults.length && !error) return null;
+
+  return (
+    <div className="mt-6">
+      <h2 className="text-sm font-semibold mb-2">Vaults You May Inherit</h2>
+      <ul className="divide-y divide-white/10 rounded-2xl border border-white/10 text-sm">
+        {vaults.map((v) => {
+          const c = v.claim;
+          const open = c && (c.status === "challenge_sent" || c.status === "waiting");
+          const ready = c?.status === "waiting" && c.waitingUntil && new Date(c.waitingUntil) <= new Date();
+          return (
+            <li key={v.vaultId} className="px-3 py-2 space-y-2">
+              <div>
+                <div className="truncate">{v.vaultName}</div>
+                <div className="text-xs text-zinc-400">
+                  From {v.ownerName} · {v.lifecycleState ? LIFECYCLE_LABELS[v.lifecycleState] : "Not yet minted"}
+                  {c && ` · claim ${c.status.replace("_", " ")}`}
+                </div>
+              </div>
+
+              {v.lifecycleState === "orphaned" && !open && (
+                <button
+                  onClick={() => run(() => apiRequest(ClaimDetail, "POST", "/claims", { vaultId: v.vaultId }))}
+                  className="text-xs text-cyan-300 hover:text-cyan-200"
+                >
+                  Start a claim
+                </button>
+              )}
+
+              {c?.status === "challenge_sent" && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    value={codes[c.id] ?? ""}
+                    onChange={(e) => setCodes({ ...codes, [c.id]: e.target.value })}
+                    placeholder="6-digit code"
+                    inputMode="numeric"
+                    className="w-32 px-2 py-1 rounded-lg bg-black/40 border border-white/10 focus:outline-none focus:border-cyan-400"
+                  />
+                  <button
+                    onClick={() =>
+                      run(() => apiRequest(ClaimDetail, "POST", claimPath(c, "/verify"), { code: codes[c.id] ?? "" }))
+                    }
+                    className="text-xs text-cyan-300 hover:text-cyan-200"
+                  >
+                    Verify
+                  </button>
+                  <button
+                    onClick={() => run(() => apiRequest(ClaimDetail, "POST", claimPath(c, "/challenge")))}
+                    className="text-xs text-zinc-400 hover:text-zinc-200"
+                  >
+                    Send a new code
+                  </button>
+                </div>
+              )}
+
+              {c?.status === "waiting" && (
+                <div className="flex flex-wrap items-center gap-3 text-xs">
+                  {ready ? (
+                    <>
+                      <button onClick={() => complete(c.id, "access")} className="text-cyan-300 hover:text-cyan-200">
+                        Take access
+                      </button>
+                      {v.custodialStewardship && (
+                        <button onClick={() => complete(c.id, "stewardship")} className="text-cyan-300 hover:text-cyan-200">
+                          Hand to custodial stewardship
+                        </button>
+                      )}
+                    </>
+                  ) : (
+                    <span className="text-zinc-400">Waiting period ends {formatDate(c.waitingUntil!)}</span>
+                  )}
+                </div>
+              )}
+
+              {open && (
+                <button
+                  onClick={() => run(() => apiRequest(ClaimDetail, "POST", claimPath(c, "/cancel")))}
+                  className="text-xs text-zinc-400 hover:text-red-300"
+                >
+                  Withdraw claim
+                </button>
+              )}
+
+              {v.emergencyAccess && v.lifecycleState && !FINAL_LIFECYCLE_STATES.has(v.lifecycleState) && (
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  {v.emergency?.status === "pending" ? (
+                    <>
+                      <span className="text-zinc-400">
+                        Emergency access requested; granted {new Date(v.emergency.vetoUntil).toLocaleString()} unless
+                        the owner responds.
+                      </span>
+                      <button
+                        onClick={() =>
+                          run(() =>
+                            apiRequest(EmergencyRequest, "POST", `/emergency/${encodeURIComponent(v.emergency!.id)}/cancel`)
+                          )
+                        }
+                        className="text-zinc-400 hover:text-red-300"
+                      >
+                        Withdraw
+                      </button>
+                    </>
+                  ) : v.emergency?.status === "approved" || v.emergency?.status === "granted" ? (
+                    <span className="text-zinc-400">Emergency access granted.</span>
+                  ) : (
+                    <>
+                      <input
+                        value={reasons[v.vaultId] ?? ""}
+                        onChange={(e) => setReasons({ ...reasons, [v.vaultId]: e.target.value })}
+                        placeholder="Reason for emergency access"
+                        className="flex-1 min-w-[12rem] px-2 py-1 rounded-lg bg-black/40 border border-white/10 focus:outline-none focus:border-cyan-400"
+                      />
+                      <button
+                        onClick={() =>
+                          run(() =>
+                            apiRequest(EmergencyRequest, "POST", "/emergency", {
+                              vaultId: v.vaultId,
+                              reason: reasons[v.vaultId] ?? "",
+                            })
+                          )
+                        }
+                        className="text-cyan-300 hover:text-cyan-200"
+                      >
+                        Request emergency access
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
+
+              {v.sessionId && (
+                <a
+                  href={`${API_BASE}/api/export/${encodeURIComponent(v.sessionId)}`}
+                  className="inline-block text-xs text-cyan-300 hover:text-cyan-200"
+                >
+                  Export vault
+                </a>
+              )}
+              {v.sessionId && v.encryption && (
+                <EncryptedInheritance vault={v} sessionId={v.sessionId} encryption={v.encryption} identity={identity} />
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      {error && <div className="mt-2 text-xs text-red-400">{error}</div>}
+    </div>
+  );
+}
+
+// Heir side of an encrypted vault they were granted: unlock it with their own
+// key, the passphrase, or enough share cards, then download files decrypted.
+function EncryptedInheritance({
+  vault,
+  sessionId,
+  encryption,
+  identity,
+}: {
+  vault: InheritedVault;
+  sessionId: string;
+  encryption: EncryptionParams;
+  identity: Identity | null;
+}) {
+  const [key, setKey] = useState<VaultKey | null>(null);
+  const [files, setFiles] = useState<Manifest["files"]>([]);
+  const [cards, setCards] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const recipient =
+    encryption.mode === "publicKey" && !!identity && encryption.recipients.some((r) => r.publicKey === identity.publicKey);
+  const sharing = encryption.mode === "publicKey" ? encryption.sharing : undefined;
+
+  const unlock = async (get: () => Promise<VaultKey | null>) => {
+    setError(null);
+    try {
+      const unlocked = await get();
+      if (!unlocked) return;
+      const manifest = Manifest.parse(await apiRequest(null, "GET", `/upload/${encodeURIComponent(sessionId)}/manifest`));
+      setFiles(manifest.files);
+      setKey(unlocked);
+    } catch (e) {
+      setError(
+        e instanceof WrongPassphraseError
+          ? "Wrong passphrase."
+          : e instanceof NotARecipientError
+            ? "Your key can't open this vault."
+            : (e as Error).message
+      );
+    }
+  };
+
+  const viaShares = () =>
+    unlock(() =>
+      unlockWithShares(encryption as PublicKeyParams, vault.vaultId, cards.split(/\s+/).filter(Boolean))
+    );
+
+  if (key) {
+    return (
+      <ul className="mt-2 space-y-1 text-xs">
+        {files.map((f) => (
+          <li key={f.path} className="flex items-center justify-between gap-3">
+            <span className="truncate" title={f.path}>
+              {f.path}
+            </span>
+            <button
+              onClick={() => downloadFile(sessionId, f.path, key).catch((e) => setError((e as Error).message))}
+              className="text-cyan-300 hover:text-cyan-200"
+            >
+              Download
+            </button>
+          </li>
+        ))}
+        {error && <li className="text-red-400">{error}</li>}
+      </ul>
+    );
+  }
+
+  return (
+    <div className="mt-2 space-y-2 text-xs text-zinc-300">
+      <div className="text-zinc-400">The files are encrypted. Unlock them to download.</div>
+      {encryption.mode === "passphrase" && (
+        <button
+          onClick={() =>
+            unlock(async () => {
+              const entered = window.prompt(`Vault passphrase${encryption.hint ? ` (hint: ${encryption.hint})` : ""}`);
+              return entered ? unlockVaultKey(entered, encryption) : null;
+            })
+          }
+          className="text-cyan-300 hover:text-cyan-200"
+        >
+          Enter passphrase
+        </button>
+      )}
+      {recipient && (
+        <button
+          onClick={() => unlock(() => unlockWithIdentity(identity!, encryption as PublicKeyParams))}
+          className="text-cyan-300 hover:text-cyan-200"
+        >
+          Unlock with my key
+        </button>
+      )}
+      {sharing && (
+        <div className="space-y-1">
+          <div>
+            Any {sharing.threshold} of the {sharing.holders.length} share cards (
+            {sharing.holders.map((h) => h.label).join(", ")}) unlock it. Paste the text from each card:
+          </div>
+          <textarea
+            value={cards}
+            onChange={(e) => setCards(e.target.value)}
+            rows={3}
+            placeholder="FAWV-SHARE-1.…"
+            className="w-full px-3 py-2 rounded-lg bg-black/40 border border-white/10 font-mono focus:outline-none focus:border-cyan-400"
+          />
+          <button onClick={viaShares} className="text-cyan-300 hover:text-cyan-200">
+            Combine shares
+          </button>
+        </div>
+      )}
+      {!recipient && !sharing && encryption.mode === "publicKey" && (
+        <div className="text-zinc-400">The owner hasn't given you a key or a share yet.</div>
+      )}
+      {error && <div className="text-red-400">{error}</div>}
+    </div>
+  );
+}
+
+const NOTIFICATION_CATEGORIES: { category: NotificationCategory; label: string }[] = [
+  { category: "reminders", label: "Check-in reminders" },
+  { category: "heirs", label: "Heirs and claims" },
+  { category: "emergency", label: "Emergency access" },
+  { category: "receipts", label: "Upload receipts" },
+];
+
+function NotificationsPanel() {
+  const [prefs, setPrefs] = useState<NotificationPreferences | null>(null);
+  const [recent, setRecent] = useState<NotificationRecord[]>([]);
+  const [webhookUrl, setWebhookUrl] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const load = () => {
+    apiRequest(NotificationPreferences, "GET", "/notifications/preferences")
+      .then((p) => {
+        setPrefs(p);
+        setWebhookUrl(p.webhookUrl ?? "");
+      })
+      .catch((e) => console.error(e));
+    apiRequest(null, "GET", "/notifications")
+      .then((r) =>
+        setRecent((r as { notifications: unknown[] }).notifications.slice(0, 5).map((n) => NotificationRecord.parse(n)))
+      )
+      .catch((e) => console.error(e));
+  };
+  useEffect(load, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError((e as Error).message === "invalid_body" ? "Webhook URLs must start with https://" : (e as Error).message);
+    }
+    load();
+  };
+
+  const update = (patch: Partial<NotificationPreferences>) =>
+    run(() => apiRequest(NotificationPreferences, "PATCH", "/notifications/preferences", patch));
+
+  if (!prefs) return null;
+
+  return (
+    <div className="mt-6">
+      <h2 className="text-sm font-semibold mb-2">Notifications</h2>
+      <div className="rounded-2xl border border-white/10 px-3 py-2 space-y-2 text-sm">
+        <label className="flex items-center gap-2 text-xs text-zinc-300">
+          <input type="checkbox" checked={prefs.email} onChange={(e) => update({ email: e.target.checked })} />
+          Email me
+        </label>
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          {NOTIFICATION_CATEGORIES.map(({ category, label }) => (
+            <label key={category} className="flex items-center gap-2 text-xs text-zinc-300">
+              <input
+                type="checkbox"
+                checked={!prefs.muted.includes(category)}
+                onChange={(e) =>
+                  update({
+                    muted: e.target.checked
+                      ? prefs.muted.filter((c) => c !== category)
+                      : [...prefs.muted, category],
+                  })
+                }
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            update({ webhookUrl: webhookUrl.trim() || null });
+          }}
+          className="flex flex-wrap gap-2"
+        >
+          <input
+            value={webhookUrl}
+            onChange={(e) => setWebhookUrl(e.target.value)}
+            placeholder="Webhook URL (optional)"
+            className="flex-1 min-w-[12rem] px-2 py-1 rounded-lg bg-black/40 border border-white/10 focus:outline-none focus:border-cyan-400"
+          />
+          <button type="submit" className="text-xs text-cyan-300 hover:text-cyan-200">
+            Save
+          </button>
+          <button
+            type="button"
+            onClick={() => run(() => apiRequest(null, "POST", "/notifications/test"))}
+            className="text-xs text-cyan-300 hover:text-cyan-200"
+          >
+            Send test
+          </button>
+        </form>
+        <p className="text-xs text-zinc-500">
+          Invitations, claim codes and requests that start a deadline are always sent.
+        </p>
+        {recent.length > 0 && (
+          <ul className="pt-2 border-t border-white/10 space-y-1 text-xs text-zinc-400">
+            {recent.map((n) => (
+              <li key={n.id} className="flex justify-between gap-3">
+                <span className="truncate">{n.subject}</span>
+                <span className="shrink-0">
+                  {n.deliveries.map((d) => `${d.channel}: ${d.status}`).join(" · ")}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {error && <div className="mt-2 text-xs text-red-400">{error}</div>}
+    </div>
+  );
+}
+
+// The user's X25519 key: public-key vaults are wrapped for it, and heirs publish
+// theirs so owners can add them. Losing the key file loses access to those vaults.
+function KeyPanel({
+  identity,
+  lockedKey,
+  onUnlock,
+  onChange,
+}: {
+  identity: Identity | null;
+  lockedKey: string | null; // public key of a sealed key not yet unlocked
+  onUnlock: () => Promise<void>;
+  onChange: (next: Identity) => Promise<void>;
+}) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  const create = () => {
+    if ((identity || lockedKey) && !window.confirm("Replace your key? Vaults locked to the old one need its key file to open.")) return;
+    run(async () => onChange(await generateIdentity()));
+  };
+
+  const download = () =>
+    run(async () => {
+      const url = URL.createObjectURL(new Blob([await exportIdentity(identity!)], { type: "application/json" }));
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = "fawv-key.json";
+      a.click();
+      URL.revokeObjectURL(url);
+    });
+
+  const restore = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) run(async () => onChange(await importIdentity(await file.text())));
+  };
+
+  return (
+    <div className="mt-2 space-y-2 text-xs text-zinc-300">
+      <div>
+        {identity ? (
+          <>
+            Key <span className="font-mono">{identity.publicKey.slice(0, 16)}…</span> is unlocked; this browser keeps it sealed with its
+            passphrase. Keep a copy of the key file somewhere safe.
+          </>
+        ) : lockedKey ? (
+          <>
+            Key <span className="font-mono">{lockedKey.slice(0, 16)}…</span> is sealed in this browser. Unlock it with its passphrase to use it.
+          </>
+        ) : (
+          "No key in this browser yet."
+        )}
+      </div>
+      <div className="flex flex-wrap gap-3">
+        <button type="button" onClick={create} className="text-cyan-300 hover:text-cyan-200">
+          {identity || lockedKey ? "Replace key" : "Create key"}
+        </button>
+        {lockedKey && (
+          <button type="button" onClick={() => run(onUnlock)} className="text-cyan-300 hover:text-cyan-200">
+            Unlock key
+          </button>
+        )}
+        {identity && (
+          <button type="button" onClick={download} className="text-cyan-300 hover:text-cyan-200">
+            Download key file
+          </button>
+        )}
+        <button type="button" onClick={() => fileRef.current?.click()} className="text-cyan-300 hover:text-cyan-200">
+          Import key file
+        </button>
+        <input ref={fileRef} type="file" accept="application/json,.json" className="hidden" onChange={restore} />
+      </div>
+      {error && <div className="text-red-400">{error}</div>}
+    </div>
+  );
+}
+
 function ProductCard({
   title,
   description,
@@ -1,59 +1,20 @@
 import React, { useCallback, useMemo, useRef, useState } from "react";
-import { createSHA256 } from "hash-wasm";
+import {
+  MANIFEST_VERSION,
+  MERKLE_ALGORITHM,
+  Manifest,
+  validate,
+  type PermanencePlan,
+} from "@fawv/shared";
+import { sha256File } from "@/lib/hash";
+import { buildMerkle } from "@/lib/merkle";
 
 // ========================= Types =========================
 
-type PermanencePlan = "payOnce" | "payOnceDual" | "subscription";
-
 type Heir = { id: string; label: string };
 
-type Manifest = {
-  manifestVersion: string;
-  archiveId: string;
-  createdAt: string; // ISO
-  ownerAddress?: string;
-  file: {
-    name: string;
-    sizeBytes: number;
-    sha256: string;
-    mime?: string;
-  };
-  storagePolicy: {
-    permanencePlan: PermanencePlan;
-    retentionYears: number; // demo placeholder
-    redundancy: "single" | "dual";
-    encryption: {
-      mode: "none" | "passphrase" | "publicKey";
-      hint?: string; // Do NOT store secrets; demo-only hint
-    };
-  };
-  heritagePolicy: {
-    ttlYears: number; // e.g., 100
-    heartbeatMonths: number; // e.g., 12
-    heirs: string[]; // emails or addresses (demo)
-    custodialStewardship: boolean;
-  };
-  attestations: {
-    heartbeatSchemaUID?: string; // placeholder for EAS schema UID
-    heirProofSchemaUID?: string; // placeholder for EAS schema UID
-  };
-  token: {
-    symbolic: boolean; // demo only (not on-chain)
-    standard: "ERC721" | "ERC1155" | "Other";
-    name: string;
-    symbol: string;
-    description?: string;
-    previewURI?: string;
-  };
-  economicPreview: {
-    estimatedUSD: number; // DEMO — not a quote
-    inputs: {
-      baseUSDPerGBYear: number;
-      years: number;
-      redundancyFactor: number;
-    };
-  };
-};
+// Manifest (and its policy blocks) come from @fawv/shared, so this demo emits
+// the same shape the API ships inside vault exports.
 
 // ========================= Helpers =========================
 
@@ -73,10 +34,6 @@ function bytesToHuman(n: number) {
   return `${tb.toFixed(2)} TB`;
 }
 
-function sizeGB(n: number) {
-  return n / 1024 / 1024 / 1024;
-}
-
 function downloadJSON(filename: string, obj: unknown) {
   const blob = new Blob([JSON.stringify(obj, null, 2)], { type: "application/json" });
   const url = URL.createObjectURL(blob);
@@ -89,29 +46,6 @@ function downloadJSON(filename: string, obj: unknown) {
   URL.revokeObjectURL(url);
 }
 
-// Chunked hashing that avoids stream typing issues and large memory spikes
-async function sha256Hex(
-  file: File,
-  onProgress?: (done: number, total: number) => void
-): Promise<string> {
-  const hasher = await createSHA256();
-  const total = file.size;
-  const chunkSize = 8 * 1024 * 1024; // 8 MiB slices
-  let offset = 0;
-
-  while (offset < total) {
-    const chunk = file.slice(offset, Math.min(offset + chunkSize, total));
-    const buf = await chunk.arrayBuffer();
-    hasher.update(new Uint8Array(buf));
-    offset += buf.byteLength;
-    onProgress?.(offset, total);
-    // Yield to UI so the page stays responsive during large hashes
-    await new Promise<void>((r) => requestAnimationFrame(() => r()));
-  }
-
-  return hasher.digest("hex");
-}
-
 // ========================= Component =========================
 
 export default function UploadModule() {
@@ -126,8 +60,6 @@ export default function UploadModule() {
   // Form state
   const [ownerAddress, setOwnerAddress] = useState("");
   const [permanencePlan, setPermanencePlan] = useState<PermanencePlan>("payOnceDual");
-  const [encryptionMode, setEncryptionMode] = useState<"none" | "passphrase" | "publicKey">("none");
-  const [encryptionHint, setEncryptionHint] = useState("");
 
   const [ttlYears, setTtlYears] = useState<number>(100);
   const [heartbeatMonths, setHeartbeatMonths] = useState<number>(12);
@@ -149,17 +81,6 @@ export default function UploadModule() {
     [permanencePlan]
   );
 
-  const estimate = useMemo(() => {
-    if (!file) return { price: 0, inputs: { baseUSDPerGBYear: 0, years: 0, redundancyFactor: 0 } };
-    const gb = Math.max(0.0000001, sizeGB(file.size));
-    // DEMO math only — clearly marked as illustrative
-    const baseUSDPerGBYear = 0.01;
-    const years = 200;
-    const redundancyFactor = redundancy === "dual" ? 1.6 : 1.0;
-    const price = gb * baseUSDPerGBYear * years * redundancyFactor;
-    return { price: Number(price.toFixed(2)), inputs: { baseUSDPerGBYear, years, redundancyFactor } };
-  }, [file, redundancy]);
-
   // ========================= Handlers =========================
 
   const dragOver = (e: React.DragEvent) => {
@@ -185,7 +106,7 @@ export default function UploadModule() {
     setFile(null);
     setFileHash("");
     try {
-      const hash = await sha256Hex(f, (done, total) => {
+      const hash = await sha256File(f, (done, total) => {
         const pct = total > 0 ? Math.floor((done / total) * 100) : 0;
         setHashProgress(Math.max(0, Math.min(100, pct)));
       });
@@ -218,22 +139,28 @@ export default function UploadModule() {
       return;
     }
 
-    const manifest: Manifest = {
-      manifestVersion: "0.1.0",
+    const merkle = await buildMerkle([{ path: file.name, sha256: fileHash }]);
+    const draft: Manifest = {
+      manifestVersion: MANIFEST_VERSION,
       archiveId: crypto.randomUUID(),
       createdAt: new Date().toISOString(),
       ownerAddress: ownerAddress || undefined,
-      file: {
-        name: file.name,
-        sizeBytes: file.size,
-        sha256: fileHash,
-        mime: file.type || undefined,
-      },
+      files: [
+        {
+          path: file.name,
+          sizeBytes: file.size,
+          sha256: fileHash,
+          mime: file.type || undefined,
+        },
+      ],
+      totals: { files: 1, bytes: file.size },
+      merkle: { algorithm: MERKLE_ALGORITHM, ...merkle },
       storagePolicy: {
         permanencePlan,
         retentionYears: 200,
         redundancy: redundancy as "single" | "dual",
-        encryption: { mode: encryptionMode, hint: encryptionHint || undefined },
+        // hashed as picked: files are only encrypted by the vault upload, which records it in `encryption`
+        encryption: { mode: "none" },
       },
       heritagePolicy: {
         ttlYears,
@@ -253,13 +180,14 @@ export default function UploadModule() {
         description: tokenDesc || undefined,
         previewURI: undefined,
       },
-      economicPreview: {
-        estimatedUSD: estimate.price,
-        inputs: estimate.inputs,
-      },
     };
 
-    downloadJSON(`${manifest.archiveId}.manifest.json`, manifest);
+    const checked = validate(Manifest, draft);
+    if (!checked.ok) {
+      alert(`Manifest is invalid:\n${checked.fields.map((f) => `${f.path}: ${f.message}`).join("\n")}`);
+      return;
+    }
+    downloadJSON(`${checked.data.archiveId}.manifest.json`, checked.data);
   }
 
   function downloadTokenMetadata() {
@@ -290,8 +218,6 @@ export default function UploadModule() {
     setFileHash("");
     setOwnerAddress("");
     setPermanencePlan("payOnceDual");
-    setEncryptionMode("none");
-    setEncryptionHint("");
     setTtlYears(100);
     setHeartbeatMonths(12);
     setHeirs([]);
@@ -398,31 +324,9 @@ export default function UploadModule() {
               </label>
             </div>
 
-            <div className="space-y-2 pt-3">
-              <div className="text-sm font-medium">Encryption</div>
-              <select
-                value={encryptionMode}
-                onChange={(e) => setEncryptionMode(e.target.value as any)}
-                className="w-full rounded-xl border border-foreground/20 bg-background px-3 py-2"
-              >
-                <option value="none">None (demo)</option>
-                <option value="passphrase">Client-side passphrase (demo)</option>
-                <option value="publicKey">Public key (demo)</option>
-              </select>
-              {encryptionMode !== "none" && (
-                <input
-                  type="text"
-                  placeholder={
-                    encryptionMode === "passphrase"
-                      ? "Add a hint (do NOT put the passphrase)"
-                      : "Key fingerprint / hint"
-                  }
-                  value={encryptionHint}
-                  onChange={(e) => setEncryptionHint(e.target.value)}
-                  className="w-full rounded-xl border border-foreground/20 bg-background px-3 py-2"
-                />
-              )}
-              <div className="text-xs opacity-60">Demo-only fields. Do not store secrets here.</div>
+            <div className="text-xs opacity-60 pt-3">
+              Files are hashed here as they are. Encryption, by passphrase or by public key, happens when you upload
+              them to a vault.
             </div>
           </div>
 
@@ -564,27 +468,8 @@ export default function UploadModule() {
           </div>
         </section>
 
-        {/* Preview & Actions */}
-        <section className="grid md:grid-cols-2 gap-6">
-          <div className="rounded-2xl border border-foreground/15 p-5 space-y-4">
-            <h2 className="text-lg font-semibold">Economic Preview (Demo)</h2>
-            <div className="text-sm">
-              <div>
-                <span className="opacity-70">File size:</span> {file ? bytesToHuman(file.size) : "—"}
-              </div>
-              <div>
-                <span className="opacity-70">Plan:</span> {permanencePlan} ({redundancy})
-              </div>
-              <div>
-                <span className="opacity-70">Estimate:</span> ${estimate.price.toLocaleString()}
-              </div>
-            </div>
-            <div className="text-xs opacity-70">
-              This is a <b>demonstration-only</b> estimate, using placeholder constants. It is <b>not a quote</b> and not an
-              offer.
-            </div>
-          </div>
-
+        {/* Actions */}
+        <section>
           <div className="rounded-2xl border border-foreground/15 p-5 space-y-4">
             <h2 className="text-lg font-semibold">Create Manifest</h2>
             <div className="text-sm opacity-80">
@@ -614,8 +499,7 @@ export default function UploadModule() {
           <h2 className="text-lg font-semibold">Notes</h2>
           <ul className="list-disc pl-5 text-sm space-y-1 opacity-80">
             <li>Client-side hashing only; files are not uploaded in this demo.</li>
-            <li>Do not enter secrets. Encryption fields are non-functional placeholders.</li>
-            <li>Economic preview is illustrative and may not reflect actual protocol costs.</li>
+            <li>Prices come from a quote when you upload to a vault; this demo doesn't estimate them.</li>
             <li>Attestation schema UIDs are placeholders for future EAS integration.</li>
           </ul>
         </section>
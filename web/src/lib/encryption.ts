@@ -0,0 +1,384 @@
+import { argon2id } from "hash-wasm";
+import {
+  ENCRYPTION_FORMAT,
+  type EncryptionParams,
+  type PassphraseKdf,
+  type PassphraseParams,
+  type PublicKeyParams,
+  type RecipientStanza,
+  type ShamirSharing,
+  type ShareHolder,
+} from "@fawv/shared";
+import { sha256File } from "./hash";
+import { combine, split } from "./shamir";
+
+// Byte layout: see ENCRYPTION_FORMAT in @fawv/shared
+const MAGIC = new TextEncoder().encode("FAWVENC1");
+const HEADER_BYTES = 24;
+const TAG_BYTES = 16;
+export const CHUNK_BYTES = 1024 * 1024;
+// argon2id cost for new vaults; existing ones keep what their manifest records
+const KDF_COST = { memoryKiB: 64 * 1024, iterations: 3, parallelism: 1 };
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super("wrong passphrase");
+    this.name = "WrongPassphraseError";
+  }
+}
+
+export class NotARecipientError extends Error {
+  constructor() {
+    super("this key is not a recipient of the vault");
+    this.name = "NotARecipientError";
+  }
+}
+
+// Unlocked vault key: lives in memory only, never leaves the browser. Public-key
+// vaults also keep the raw data key, so it can be wrapped for new recipients.
+export type VaultKey = { params: EncryptionParams; master: CryptoKey; fileIds: CryptoKey; dataKey?: Uint8Array };
+
+// A user's X25519 key pair; only the public half is ever sent to the server
+export type Identity = { publicKey: string; privateKey: CryptoKey };
+export type Recipient = { label: string; publicKey: string };
+
+// What gets uploaded for an encrypted file: ciphertext produced on demand for any byte range
+export type ByteSource = { size: number; slice(start: number, end: number): Promise<Blob> };
+
+const utf8 = (s: string) => new TextEncoder().encode(s);
+const b64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const unb64 = (s: string) => Uint8Array.from(atob(s), (c) => c.charCodeAt(0));
+
+function hkdf(info: string, salt: BufferSource = new Uint8Array()): HkdfParams {
+  return { name: "HKDF", hash: "SHA-256", salt, info: utf8(info) };
+}
+
+function importMaster(raw: Uint8Array) {
+  return crypto.subtle.importKey("raw", new Uint8Array(raw), "HKDF", false, ["deriveKey", "deriveBits"]);
+}
+
+async function deriveMaster(passphrase: string, kdf: PassphraseKdf): Promise<CryptoKey> {
+  const raw = await argon2id({
+    password: passphrase,
+    salt: unb64(kdf.salt),
+    memorySize: kdf.memoryKiB,
+    iterations: kdf.iterations,
+    parallelism: kdf.parallelism,
+    hashLength: 32,
+    outputType: "binary",
+  });
+  return importMaster(raw);
+}
+
+async function keyCheckOf(master: CryptoKey) {
+  return b64(new Uint8Array(await crypto.subtle.deriveBits(hkdf("fawv/v1/key-check"), master, 128)));
+}
+
+async function withFileIds(params: EncryptionParams, master: CryptoKey, dataKey?: Uint8Array): Promise<VaultKey> {
+  const fileIds = await crypto.subtle.deriveKey(
+    hkdf("fawv/v1/file-id"),
+    master,
+    { name: "HMAC", hash: "SHA-256", length: 256 },
+    false,
+    ["sign"]
+  );
+  return { params, master, fileIds, dataKey };
+}
+
+/** A key for a new vault, with a fresh salt. The returned params go to the server and into the manifest. */
+export async function createVaultKey(passphrase: string, hint?: string): Promise<VaultKey> {
+  const kdf: PassphraseKdf = {
+    algorithm: "argon2id",
+    salt: b64(crypto.getRandomValues(new Uint8Array(16))),
+    ...KDF_COST,
+  };
+  const master = await deriveMaster(passphrase, kdf);
+  const params: EncryptionParams = {
+    mode: "passphrase",
+    format: ENCRYPTION_FORMAT,
+    kdf,
+    chunkBytes: CHUNK_BYTES,
+    keyCheck: await keyCheckOf(master),
+    hint: hint || undefined,
+  };
+  return withFileIds(params, master);
+}
+
+/** Re-derives an existing vault's key; throws WrongPassphraseError if the passphrase doesn't match. */
+export async function unlockVaultKey(passphrase: string, params: PassphraseParams): Promise<VaultKey> {
+  const master = await deriveMaster(passphrase, params.kdf);
+  if ((await keyCheckOf(master)) !== params.keyCheck) throw new WrongPassphraseError();
+  return withFileIds(params, master);
+}
+
+// ---- public-key mode: a random data key, wrapped per recipient (see RecipientStanza) ----
+
+const IDENTITY_FORMAT = "fawv-x25519-identity-v1";
+
+export async function generateIdentity(): Promise<Identity> {
+  const pair = (await crypto.subtle.generateKey({ name: "X25519" }, true, ["deriveBits"])) as CryptoKeyPair;
+  return { publicKey: b64(new Uint8Array(await crypto.subtle.exportKey("raw", pair.publicKey))), privateKey: pair.privateKey };
+}
+
+/** The identity as a key file: whoever holds it can open every vault it is a recipient of. */
+export async function exportIdentity(identity: Identity): Promise<string> {
+  const privateKey = await crypto.subtle.exportKey("jwk", identity.privateKey);
+  return JSON.stringify({ format: IDENTITY_FORMAT, publicKey: identity.publicKey, privateKey });
+}
+
+export async function importIdentity(text: string): Promise<Identity> {
+  const parsed = JSON.parse(text) as { format?: string; publicKey?: string; privateKey?: JsonWebKey };
+  if (parsed.format !== IDENTITY_FORMAT || !parsed.publicKey || !parsed.privateKey) throw new Error("not a key file");
+  const privateKey = await crypto.subtle.importKey("jwk", parsed.privateKey, { name: "X25519" }, true, ["deriveBits"]);
+  return { publicKey: parsed.publicKey, privateKey };
+}
+
+const SEALED_IDENTITY_FORMAT = "fawv-x25519-identity-sealed-v1";
+
+type SealedIdentity = { format: string; publicKey: string; kdf: PassphraseKdf; iv: string; sealed: string };
+
+async function sealingKey(passphrase: string, kdf: PassphraseKdf, usage: "encrypt" | "decrypt") {
+  const master = await deriveMaster(passphrase, kdf);
+  return crypto.subtle.deriveKey(hkdf("fawv/v1/identity-seal"), master, { name: "AES-GCM", length: 256 }, false, [usage]);
+}
+
+/** The key file sealed under a passphrase, for keeping in browser storage instead of the key file itself. */
+export async function sealIdentity(identity: Identity, passphrase: string): Promise<string> {
+  const kdf: PassphraseKdf = {
+    algorithm: "argon2id",
+    salt: b64(crypto.getRandomValues(new Uint8Array(16))),
+    ...KDF_COST,
+  };
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await sealingKey(passphrase, kdf, "encrypt");
+  const sealed = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, utf8(await exportIdentity(identity))));
+  const out: SealedIdentity = { format: SEALED_IDENTITY_FORMAT, publicKey: identity.publicKey, kdf, iv: b64(iv), sealed: b64(sealed) };
+  return JSON.stringify(out);
+}
+
+/** The public key of a sealed identity, readable without the passphrase; null if the text isn't one. */
+export function sealedPublicKey(text: string): string | null {
+  try {
+    const parsed = JSON.parse(text) as Partial<SealedIdentity>;
+    return parsed.format === SEALED_IDENTITY_FORMAT && parsed.publicKey ? parsed.publicKey : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Opens a sealed identity; throws WrongPassphraseError if the passphrase doesn't match. */
+export async function openIdentity(text: string, passphrase: string): Promise<Identity> {
+  const parsed = JSON.parse(text) as SealedIdentity;
+  if (parsed.format !== SEALED_IDENTITY_FORMAT) throw new Error("not a sealed key");
+  const key = await sealingKey(passphrase, parsed.kdf, "decrypt");
+  let opened: ArrayBuffer;
+  try {
+    opened = await crypto.subtle.decrypt({ name: "AES-GCM", iv: unb64(parsed.iv) }, key, unb64(parsed.sealed));
+  } catch {
+    throw new WrongPassphraseError();
+  }
+  return importIdentity(new TextDecoder().decode(opened));
+}
+
+async function wrappingKey(privateKey: CryptoKey, theirs: string, ephemeralKey: string, publicKey: string, usage: "encrypt" | "decrypt") {
+  const peer = await crypto.subtle.importKey("raw", unb64(theirs), { name: "X25519" }, false, []);
+  const shared = await crypto.subtle.deriveBits({ name: "X25519", public: peer }, privateKey, 256);
+  const ikm = await crypto.subtle.importKey("raw", shared, "HKDF", false, ["deriveKey"]);
+  const salt = new Uint8Array([...unb64(ephemeralKey), ...unb64(publicKey)]);
+  return crypto.subtle.deriveKey(hkdf("fawv/v1/wrap", salt), ikm, { name: "AES-GCM", length: 256 }, false, [usage]);
+}
+
+async function wrapFor(dataKey: Uint8Array, r: Recipient): Promise<RecipientStanza> {
+  const eph = await generateIdentity();
+  const key = await wrappingKey(eph.privateKey, r.publicKey, eph.publicKey, r.publicKey, "encrypt");
+  const sealed = await crypto.subtle.encrypt({ name: "AES-GCM", iv: new Uint8Array(12) }, key, new Uint8Array(dataKey));
+  return { type: "X25519", label: r.label, publicKey: r.publicKey, ephemeralKey: eph.publicKey, wrappedKey: b64(new Uint8Array(sealed)) };
+}
+
+/** The data key wrapped for each recipient; the vault's files stay as they are. */
+export function wrapRecipients(key: VaultKey, recipients: Recipient[]): Promise<RecipientStanza[]> {
+  if (!key.dataKey) throw new Error("only public-key vaults have recipients");
+  return Promise.all(recipients.map((r) => wrapFor(key.dataKey!, r)));
+}
+
+/** A key for a new vault that the given recipients (normally including the owner) can open. */
+export async function createEnvelopeKey(recipients: Recipient[]): Promise<VaultKey> {
+  const dataKey = crypto.getRandomValues(new Uint8Array(32));
+  const master = await importMaster(dataKey);
+  const params: PublicKeyParams = {
+    mode: "publicKey",
+    format: ENCRYPTION_FORMAT,
+    chunkBytes: CHUNK_BYTES,
+    keyCheck: await keyCheckOf(master),
+    recipients: await Promise.all(recipients.map((r) => wrapFor(dataKey, r))),
+  };
+  return withFileIds(params, master, dataKey);
+}
+
+/** Unwraps the data key with the identity's stanza; throws NotARecipientError if it has none. */
+export async function unlockWithIdentity(identity: Identity, params: PublicKeyParams): Promise<VaultKey> {
+  const stanza = params.recipients.find((r) => r.publicKey === identity.publicKey);
+  if (!stanza) throw new NotARecipientError();
+  const key = await wrappingKey(identity.privateKey, stanza.ephemeralKey, stanza.ephemeralKey, stanza.publicKey, "decrypt");
+  let dataKey: Uint8Array;
+  try {
+    dataKey = new Uint8Array(await crypto.subtle.decrypt({ name: "AES-GCM", iv: new Uint8Array(12) }, key, unb64(stanza.wrappedKey)));
+  } catch {
+    throw new NotARecipientError();
+  }
+  const master = await importMaster(dataKey);
+  if ((await keyCheckOf(master)) !== params.keyCheck) throw new NotARecipientError();
+  return withFileIds(params, master, dataKey);
+}
+
+// ---- key shares (see ShamirSharing) ----
+
+// FAWV-SHARE-1.<vault id>.<threshold>.<x>.<share, base64url>.<check>, where check
+// is the first 8 hex digits of SHA-256 over everything before it: catches typos
+// and mixed-up cards before any interpolation is tried.
+const SHARE_CARD = "FAWV-SHARE-1";
+
+export type ShareCard = { vaultId: string; threshold: number; x: number; share: Uint8Array };
+
+const b64url = (bytes: Uint8Array) => b64(bytes).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+const unb64url = (s: string) => unb64(s.replace(/-/g, "+").replace(/_/g, "/") + "=".repeat((4 - (s.length % 4)) % 4));
+
+async function cardCheck(body: string) {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", utf8(body)));
+  return Array.from(digest.subarray(0, 4), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export async function encodeShareCard(card: ShareCard): Promise<string> {
+  const body = [SHARE_CARD, card.vaultId, card.threshold, card.x, b64url(card.share)].join(".");
+  return `${body}.${await cardCheck(body)}`;
+}
+
+export async function parseShareCard(text: string): Promise<ShareCard> {
+  const parts = text.trim().split(".");
+  if (parts.length !== 6 || parts[0] !== SHARE_CARD) throw new Error("not a share card");
+  const body = parts.slice(0, 5).join(".");
+  if ((await cardCheck(body)) !== parts[5].toLowerCase()) throw new Error("share card has a typo");
+  return { vaultId: parts[1], threshold: Number(parts[2]), x: Number(parts[3]), share: unb64url(parts[4]) };
+}
+
+/**
+ * Splits a public-key vault's data key so any `threshold` of the holders can
+ * rebuild it. Returns what to record on the server and one card per holder.
+ */
+export async function splitVaultKey(
+  key: VaultKey,
+  vaultId: string,
+  threshold: number,
+  holders: Omit<ShareHolder, "x">[]
+): Promise<{ sharing: ShamirSharing; cards: { holder: ShareHolder; card: string }[] }> {
+  if (!key.dataKey) throw new Error("only public-key vaults can be split");
+  const placed = holders.map((h, i) => ({ ...h, x: i + 1 }));
+  const shares = split(key.dataKey, threshold, placed.map((h) => h.x));
+  const cards = await Promise.all(
+    placed.map(async (holder, i) => ({
+      holder,
+      card: await encodeShareCard({ vaultId, threshold, x: holder.x, share: shares[i].y }),
+    }))
+  );
+  return { sharing: { scheme: "shamir-gf256-v1", threshold, holders: placed, createdAt: new Date().toISOString() }, cards };
+}
+
+/** Rebuilds the data key from share cards; fails unless they are enough, and all for this vault's key. */
+export async function unlockWithShares(params: PublicKeyParams, vaultId: string, texts: string[]): Promise<VaultKey> {
+  const cards = await Promise.all(texts.map(parseShareCard));
+  if (cards.some((c) => c.vaultId !== vaultId)) throw new Error("a card belongs to a different vault");
+  const needed = Math.max(...cards.map((c) => c.threshold));
+  if (cards.length < needed) throw new Error(`${needed} shares are needed, ${cards.length} given`);
+  const dataKey = combine(cards.map((c) => ({ x: c.x, y: c.share })));
+  const master = await importMaster(dataKey);
+  // shares from an older split of a different key, or a corrupted card, land here
+  if ((await keyCheckOf(master)) !== params.keyCheck) throw new Error("these shares don't rebuild this vault's key");
+  return withFileIds(params, master, dataKey);
+}
+
+function fileKey(key: VaultKey, fileId: BufferSource, usage: "encrypt" | "decrypt") {
+  return crypto.subtle.deriveKey(hkdf("fawv/v1/file-key", fileId), key.master, { name: "AES-GCM", length: 256 }, false, [
+    usage,
+  ]);
+}
+
+function nonce(index: number, last: boolean) {
+  const n = new Uint8Array(12);
+  new DataView(n.buffer).setUint32(7, index);
+  n[11] = last ? 1 : 0;
+  return n;
+}
+
+export function encryptedSize(plainSize: number, chunkBytes = CHUNK_BYTES) {
+  return HEADER_BYTES + plainSize + TAG_BYTES * Math.max(1, Math.ceil(plainSize / chunkBytes));
+}
+
+/**
+ * The encrypted form of `file`. Its id comes from the path and the plaintext
+ * hash (computed here, reporting progress), so the same file always encrypts to
+ * the same bytes and an interrupted upload can resume. Chunks are sealed as
+ * they are read, so nothing larger than one slice is held in memory.
+ */
+export async function encryptFile(
+  key: VaultKey,
+  relPath: string,
+  file: Blob,
+  onProgress?: (done: number, total: number) => void
+): Promise<ByteSource> {
+  const { chunkBytes } = key.params;
+  const plainHash = await sha256File(file, onProgress);
+  const mac = await crypto.subtle.sign("HMAC", key.fileIds, utf8(`${relPath}\0${plainHash}`));
+  const header = new Uint8Array(HEADER_BYTES);
+  header.set(MAGIC);
+  header.set(new Uint8Array(mac, 0, 16), MAGIC.length);
+  const aes = await fileKey(key, header.subarray(MAGIC.length), "encrypt");
+
+  const chunks = Math.max(1, Math.ceil(file.size / chunkBytes));
+  const stride = chunkBytes + TAG_BYTES;
+  const seal = async (i: number) => {
+    const plain = await file.slice(i * chunkBytes, (i + 1) * chunkBytes).arrayBuffer();
+    const iv = nonce(i, i === chunks - 1);
+    return new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData: header }, aes, plain));
+  };
+
+  return {
+    size: encryptedSize(file.size, chunkBytes),
+    async slice(start, end) {
+      const parts: BlobPart[] = [];
+      if (start < HEADER_BYTES) parts.push(header.slice(start, Math.min(end, HEADER_BYTES)));
+      const first = Math.max(0, Math.floor((start - HEADER_BYTES) / stride));
+      const last = Math.min(chunks - 1, Math.floor((end - 1 - HEADER_BYTES) / stride));
+      for (let i = first; end > HEADER_BYTES && i <= last; i++) {
+        const at = HEADER_BYTES + i * stride;
+        const sealed = await seal(i);
+        parts.push(sealed.slice(Math.max(0, start - at), Math.min(sealed.length, end - at)));
+      }
+      return new Blob(parts);
+    },
+  };
+}
+
+/** Decrypts a stored object; fails if any byte was changed, dropped or reordered. */
+export async function decryptBlob(key: VaultKey, stored: Blob): Promise<Blob> {
+  const { chunkBytes } = key.params;
+  const header = new Uint8Array(await stored.slice(0, HEADER_BYTES).arrayBuffer());
+  if (header.length < HEADER_BYTES || MAGIC.some((b, i) => header[i] !== b)) {
+    throw new Error("not an encrypted vault file");
+  }
+  const aes = await fileKey(key, header.subarray(MAGIC.length), "decrypt");
+
+  const stride = chunkBytes + TAG_BYTES;
+  const chunks = Math.max(1, Math.ceil((stored.size - HEADER_BYTES) / stride));
+  const parts: BlobPart[] = [];
+  for (let i = 0; i < chunks; i++) {
+    const at = HEADER_BYTES + i * stride;
+    const sealed = await stored.slice(at, at + stride).arrayBuffer();
+    try {
+      const iv = nonce(i, i === chunks - 1);
+      parts.push(await crypto.subtle.decrypt({ name: "AES-GCM", iv, additionalData: header }, aes, sealed));
+    } catch {
+      throw new Error(`decryption failed at chunk ${i}: the file is damaged`);
+    }
+  }
+  return new Blob(parts);
+}
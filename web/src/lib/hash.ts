@@ -0,0 +1,26 @@
+import { createSHA256 } from "hash-wasm";
+import type { ByteSource } from "./encryption";
+
+// Chunked hashing that avoids stream typing issues and large memory spikes.
+// Also takes the encrypted form of a file, which is what gets stored.
+export async function sha256File(
+  file: Blob | ByteSource,
+  onProgress?: (done: number, total: number) => void
+): Promise<string> {
+  const hasher = await createSHA256();
+  const total = file.size;
+  const chunkSize = 8 * 1024 * 1024; // 8 MiB slices
+  let offset = 0;
+
+  while (offset < total) {
+    const chunk = await file.slice(offset, Math.min(offset + chunkSize, total));
+    const buf = await chunk.arrayBuffer();
+    hasher.update(new Uint8Array(buf));
+    offset += buf.byteLength;
+    onProgress?.(offset, total);
+    // Yield to UI so the page stays responsive during large hashes
+    await new Promise<void>((r) => requestAnimationFrame(() => r()));
+  }
+
+  return hasher.digest("hex");
+}
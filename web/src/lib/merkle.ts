@@ -0,0 +1,78 @@
+import type { MerkleLeaf, ProofStep } from "@fawv/shared";
+
+// Browser twin of api/src/lib/merkle.ts; both must produce the same root.
+//   leaf = SHA-256(0x00 || utf8(path) || 0x00 || sha256(content))
+//   node = SHA-256(0x01 || left || right), odd node promoted unchanged
+
+export type MerkleEntry = { path: string; sha256: string };
+
+const enc = new TextEncoder();
+
+function fromHex(hex: string) {
+  const out = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  return out;
+}
+
+function toHex(bytes: Uint8Array) {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function sha256(...parts: Uint8Array[]) {
+  const buf = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let off = 0;
+  for (const p of parts) {
+    buf.set(p, off);
+    off += p.length;
+  }
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", buf));
+}
+
+function leafHash(e: MerkleEntry) {
+  return sha256(Uint8Array.of(0), enc.encode(e.path), Uint8Array.of(0), fromHex(e.sha256));
+}
+
+function nodeHash(left: Uint8Array, right: Uint8Array) {
+  return sha256(Uint8Array.of(1), left, right);
+}
+
+// Same order as the server: by UTF-8 bytes, not by UTF-16 or locale
+function compareUtf8(a: string, b: string) {
+  const x = enc.encode(a);
+  const y = enc.encode(b);
+  for (let i = 0; i < Math.min(x.length, y.length); i++) if (x[i] !== y[i]) return x[i] - y[i];
+  return x.length - y.length;
+}
+
+/** Root plus the ordered leaf list, in the shape the manifest publishes them. */
+export async function buildMerkle(entries: MerkleEntry[]): Promise<{ root: string; leaves: MerkleLeaf[] }> {
+  const sorted = [...entries].sort((a, b) => compareUtf8(a.path, b.path));
+  const leaves = await Promise.all(sorted.map(leafHash));
+  let level: Uint8Array[] = leaves;
+  while (level.length > 1) {
+    const next: Uint8Array[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? await nodeHash(level[i], level[i + 1]) : level[i]);
+    }
+    level = next;
+  }
+  return {
+    root: level.length ? toHex(level[0]) : "",
+    leaves: sorted.map((e, i) => ({ path: e.path, sha256: e.sha256, leaf: toHex(leaves[i]) })),
+  };
+}
+
+/** Archive hash over per-file hashes; only 32 bytes per file are ever held in memory. */
+export async function merkleRoot(entries: MerkleEntry[]): Promise<string> {
+  return (await buildMerkle(entries)).root;
+}
+
+/** Checks a proof from GET /api/upload/:sessionId/proof against a known root. */
+export async function verifyProof(entry: MerkleEntry, proof: ProofStep[], root: string) {
+  let h = await leafHash(entry);
+  for (const step of proof) {
+    const sibling = fromHex(step.hash);
+    h = step.position === "left" ? await nodeHash(sibling, h) : await nodeHash(h, sibling);
+  }
+  return toHex(h) === root.toLowerCase();
+}
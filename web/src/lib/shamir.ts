@@ -0,0 +1,57 @@
+// Shamir secret sharing over GF(256), reduction polynomial x^8 + x^4 + x^3 + x + 1
+// (0x11b, as in AES). Each byte of the secret is the constant term of its own
+// random polynomial of degree threshold - 1; a share is that polynomial set
+// evaluated at the holder's x (1..255). Any `threshold` shares interpolate back
+// to the secret; fewer reveal nothing about it.
+
+export type Share = { x: number; y: Uint8Array };
+
+// log/antilog tables for generator 3; EXP is doubled so products need no modulo
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+for (let i = 0, v = 1; i < 255; i++) {
+  EXP[i] = EXP[i + 255] = v;
+  LOG[v] = i;
+  v ^= (v << 1) ^ (v & 0x80 ? 0x11b : 0);
+}
+
+function mul(a: number, b: number) {
+  return a && b ? EXP[LOG[a] + LOG[b]] : 0;
+}
+
+function div(a: number, b: number) {
+  return a ? EXP[LOG[a] + 255 - LOG[b]] : 0;
+}
+
+export function split(secret: Uint8Array, threshold: number, xs: number[]): Share[] {
+  if (threshold < 2 || threshold > xs.length) throw new Error("threshold must be between 2 and the number of shares");
+  if (new Set(xs).size !== xs.length || xs.some((x) => x < 1 || x > 255)) throw new Error("x must be distinct, 1..255");
+  const coeffs = crypto.getRandomValues(new Uint8Array(secret.length * (threshold - 1)));
+  return xs.map((x) => {
+    const y = new Uint8Array(secret.length);
+    for (let b = 0; b < secret.length; b++) {
+      // Horner, highest coefficient first
+      let acc = 0;
+      for (let k = threshold - 2; k >= 0; k--) acc = mul(acc, x) ^ coeffs[b * (threshold - 1) + k];
+      y[b] = mul(acc, x) ^ secret[b];
+    }
+    return { x, y };
+  });
+}
+
+/** Interpolates at x = 0. With fewer than the threshold the result is just wrong, so check it. */
+export function combine(shares: Share[]): Uint8Array {
+  if (shares.length < 2) throw new Error("at least two shares are needed");
+  if (new Set(shares.map((s) => s.x)).size !== shares.length) throw new Error("the same share was given twice");
+  const len = shares[0].y.length;
+  if (shares.some((s) => s.y.length !== len)) throw new Error("shares are from different secrets");
+
+  const secret = new Uint8Array(len);
+  for (const [i, si] of shares.entries()) {
+    // Lagrange basis at 0: product of x_j / (x_j - x_i); subtraction is XOR here
+    let basis = 1;
+    for (const [j, sj] of shares.entries()) if (i !== j) basis = mul(basis, div(sj.x, sj.x ^ si.x));
+    for (let b = 0; b < len; b++) secret[b] ^= mul(si.y[b], basis);
+  }
+  return secret;
+}
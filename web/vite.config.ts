@@ -11,6 +11,8 @@ export default defineConfig({
     host: "localhost",
     port: 5173,
     strictPort: true,
+    // @fawv/shared is linked from ../shared, outside this project's root
+    fs: { allow: [".", "../shared"] },
     proxy: {
       "/api": {
         target: "http://localhost:8787",